@@ -0,0 +1,176 @@
+// Reference relay for live collaboration in ZKS Note. It passes encrypted
+// document updates and cursor positions between the clients editing a note;
+// it stores nothing and never sees keys or plaintext. Run it with
+// `npm run collab-relay`.
+//
+// Clients receive a room's messages as server-sent events from
+// GET /v1/rooms/:room/events and send them with POST /v1/rooms/:room/messages.
+// A room id is a hash of the note's shared key, so it says nothing about the
+// note.
+//
+// Environment:
+//   PORT  Port to listen on (default 8788)
+
+import { createServer } from "node:http";
+
+const PORT = Number(process.env.PORT ?? 8788);
+
+// Bounds on what one client may send or hold open
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const MAX_CLIENTS_PER_ROOM = 32;
+const KEEPALIVE_INTERVAL_MS = 20 * 1000;
+const MESSAGE_TYPES = ["hello", "update", "presence", "bye"];
+const ROOM_ID_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+const CLIENT_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * @typedef {{
+ *   from: string;
+ *   type: string;
+ *   data?: string;
+ * }} RelayMessage
+ */
+
+class HttpError extends Error {
+  /**
+   * @param {number} status
+   * @param {string} message
+   */
+  constructor(status, message) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+  }
+}
+
+// The open event streams of each room, by client id
+/** @type {Map<string, Map<string, import("node:http").ServerResponse>>} */
+const rooms = new Map();
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "Content-Type",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+};
+
+const send = (response, status, body) => {
+  response.writeHead(status, {
+    "Content-Type": "application/json",
+    ...CORS_HEADERS,
+  });
+  response.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readBody = async (request) => {
+  const chunks = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, "Message too large.");
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8") || "{}");
+  } catch {
+    throw new HttpError(400, "The body is not valid JSON.");
+  }
+};
+
+/**
+ * @returns {RelayMessage}
+ */
+const validateMessage = (message) => {
+  const isValid =
+    typeof message === "object" &&
+    message !== null &&
+    typeof message.from === "string" &&
+    CLIENT_ID_PATTERN.test(message.from) &&
+    MESSAGE_TYPES.includes(message.type) &&
+    (message.data === undefined || typeof message.data === "string");
+  if (!isValid) throw new HttpError(400, "Malformed message.");
+  return { from: message.from, type: message.type, data: message.data };
+};
+
+/**
+ * Streams a room's messages to one client until it disconnects.
+ */
+const subscribe = (request, response, roomId, clientId) => {
+  const room = rooms.get(roomId) ?? new Map();
+  if (room.size >= MAX_CLIENTS_PER_ROOM && !room.has(clientId)) {
+    throw new HttpError(429, "This room is full.");
+  }
+  // A reconnecting client replaces its earlier stream
+  room.get(clientId)?.end();
+  room.set(clientId, response);
+  rooms.set(roomId, room);
+
+  response.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    ...CORS_HEADERS,
+  });
+  response.write(": connected\n\n");
+
+  // Comments keep proxies from closing an idle stream
+  const keepalive = setInterval(
+    () => response.write(": keepalive\n\n"),
+    KEEPALIVE_INTERVAL_MS,
+  );
+  request.on("close", () => {
+    clearInterval(keepalive);
+    if (room.get(clientId) !== response) return;
+    room.delete(clientId);
+    if (room.size === 0) rooms.delete(roomId);
+    // The others stop showing the client's cursor right away
+    broadcast(roomId, { from: clientId, type: "bye" });
+  });
+};
+
+/**
+ * Passes a message on to every client in the room but its sender.
+ * @param {string} roomId
+ * @param {RelayMessage} message
+ */
+const broadcast = (roomId, message) => {
+  const event = `data: ${JSON.stringify(message)}\n\n`;
+  for (const [clientId, response] of rooms.get(roomId) ?? []) {
+    if (clientId !== message.from) response.write(event);
+  }
+};
+
+const handle = async (request, response) => {
+  const url = new URL(request.url ?? "/", "http://localhost");
+  const route = /^\/v1\/rooms\/([^/]+)\/(events|messages)$/.exec(url.pathname);
+  if (route && !ROOM_ID_PATTERN.test(route[1])) {
+    throw new HttpError(404, "Not found.");
+  }
+
+  if (request.method === "OPTIONS") {
+    send(response, 204);
+  } else if (request.method === "GET" && route?.[2] === "events") {
+    const clientId = url.searchParams.get("client") ?? "";
+    if (!CLIENT_ID_PATTERN.test(clientId)) {
+      throw new HttpError(400, "client must be a client id.");
+    }
+    subscribe(request, response, route[1], clientId);
+  } else if (request.method === "POST" && route?.[2] === "messages") {
+    broadcast(route[1], validateMessage(await readBody(request)));
+    send(response, 202, { ok: true });
+  } else {
+    throw new HttpError(404, "Not found.");
+  }
+};
+
+createServer((request, response) => {
+  handle(request, response).catch((error) => {
+    if (error instanceof HttpError) {
+      send(response, error.status, { error: error.message });
+    } else {
+      console.error(error);
+      send(response, 500, { error: "Internal server error." });
+    }
+  });
+}).listen(PORT, () => {
+  console.log(`ZKS Note collaboration relay listening on http://localhost:${PORT}`);
+});
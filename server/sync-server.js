@@ -0,0 +1,282 @@
+// Reference sync server for ZKS Note. It stores opaque encrypted records for
+// each sync space and orders writes with revision vectors; it never sees keys
+// or plaintext. Run it with `npm run sync-server`.
+//
+// Environment:
+//   PORT           Port to listen on (default 8787)
+//   SYNC_DATA_DIR  Directory holding one JSON file per space (default ./sync-data)
+
+import { createServer } from "node:http";
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+
+const PORT = Number(process.env.PORT ?? 8787);
+const DATA_DIR = resolve(process.env.SYNC_DATA_DIR ?? "sync-data");
+
+// Bounds on what one request may carry
+const MAX_BODY_BYTES = 16 * 1024 * 1024;
+const MAX_RECORDS_PER_PUSH = 1000;
+const MAX_ID_LENGTH = 200;
+const RECORD_KINDS = ["note", "folder", "vault"];
+const SPACE_ID_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+
+/**
+ * @typedef {Record<string, number>} RevisionVector
+ * @typedef {{
+ *   kind: string;
+ *   id: string;
+ *   vector: RevisionVector;
+ *   payload: string | null;
+ *   seq: number;
+ * }} StoredRecord
+ * @typedef {{
+ *   tokenHash: string;
+ *   seq: number;
+ *   records: Record<string, StoredRecord>;
+ * }} Space
+ */
+
+class HttpError extends Error {
+  /**
+   * @param {number} status
+   * @param {string} message
+   */
+  constructor(status, message) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+  }
+}
+
+const hashToken = (token) =>
+  createHash("sha256").update(token).digest("base64url");
+
+const spacePath = (spaceId) => join(DATA_DIR, `${spaceId}.json`);
+
+/**
+ * Reads a space from disk.
+ * @returns {Promise<Space | null>}
+ */
+const readSpace = async (spaceId) => {
+  try {
+    return JSON.parse(await readFile(spacePath(spaceId), "utf8"));
+  } catch (error) {
+    if (error.code === "ENOENT") return null;
+    throw error;
+  }
+};
+
+/**
+ * Writes a space through a temporary file, so a crash never leaves it half
+ * written.
+ * @param {string} spaceId
+ * @param {Space} space
+ */
+const writeSpace = async (spaceId, space) => {
+  const path = spacePath(spaceId);
+  const temporary = `${path}.${randomBytes(6).toString("hex")}.tmp`;
+  await writeFile(temporary, JSON.stringify(space));
+  await rename(temporary, path);
+};
+
+// Requests to one space run one after another, so pushes never interleave
+const spaceQueues = new Map();
+
+const withSpace = (spaceId, task) => {
+  const run = (spaceQueues.get(spaceId) ?? Promise.resolve()).then(task);
+  const settled = run.catch(() => {});
+  spaceQueues.set(spaceId, settled);
+  settled.then(() => {
+    if (spaceQueues.get(spaceId) === settled) spaceQueues.delete(spaceId);
+  });
+  return run;
+};
+
+/**
+ * Orders two revision vectors.
+ * @param {RevisionVector} a
+ * @param {RevisionVector} b
+ * @returns {"equal" | "before" | "after" | "concurrent"}
+ */
+const compareVectors = (a, b) => {
+  let isBefore = false;
+  let isAfter = false;
+  for (const device of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    const left = a[device] ?? 0;
+    const right = b[device] ?? 0;
+    if (left < right) isBefore = true;
+    if (left > right) isAfter = true;
+  }
+  if (isBefore && isAfter) return "concurrent";
+  if (isBefore) return "before";
+  if (isAfter) return "after";
+  return "equal";
+};
+
+const isVector = (value) =>
+  typeof value === "object" &&
+  value !== null &&
+  !Array.isArray(value) &&
+  Object.entries(value).every(
+    ([device, counter]) =>
+      device.length <= MAX_ID_LENGTH &&
+      Number.isSafeInteger(counter) &&
+      counter >= 0,
+  );
+
+const validateRecord = (record) => {
+  const isValid =
+    typeof record === "object" &&
+    record !== null &&
+    RECORD_KINDS.includes(record.kind) &&
+    typeof record.id === "string" &&
+    record.id.length > 0 &&
+    record.id.length <= MAX_ID_LENGTH &&
+    isVector(record.vector) &&
+    (record.payload === null || typeof record.payload === "string");
+  if (!isValid) throw new HttpError(400, "Malformed record.");
+  return {
+    kind: record.kind,
+    id: record.id,
+    vector: record.vector,
+    payload: record.payload,
+  };
+};
+
+const readBody = async (request) => {
+  const chunks = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, "Request too large.");
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8") || "{}");
+  } catch {
+    throw new HttpError(400, "The body is not valid JSON.");
+  }
+};
+
+/**
+ * Loads a space and checks the request's bearer token against it.
+ * @returns {Promise<Space>}
+ */
+const authorize = async (request, spaceId) => {
+  const space = SPACE_ID_PATTERN.test(spaceId) ? await readSpace(spaceId) : null;
+  const token = /^Bearer (.+)$/.exec(request.headers.authorization ?? "")?.[1];
+  // Unknown spaces and wrong tokens get the same answer
+  if (
+    !space ||
+    !token ||
+    !timingSafeEqual(
+      Buffer.from(hashToken(token)),
+      Buffer.from(space.tokenHash),
+    )
+  ) {
+    throw new HttpError(401, "Unknown space or wrong token.");
+  }
+  return space;
+};
+
+const createSpace = async () => {
+  const spaceId = randomBytes(16).toString("base64url");
+  const token = randomBytes(32).toString("base64url");
+  await writeSpace(spaceId, { tokenHash: hashToken(token), seq: 0, records: {} });
+  return { spaceId, token };
+};
+
+/**
+ * Returns the records written after a sequence number.
+ */
+const pullRecords = async (request, spaceId, since) => {
+  const space = await authorize(request, spaceId);
+  const records = Object.values(space.records)
+    .filter((record) => record.seq > since)
+    .sort((a, b) => a.seq - b.seq);
+  return { records, seq: space.seq };
+};
+
+/**
+ * Stores each pushed record whose vector descends from the stored one. The
+ * others are conflicts; the stored copies are returned for the client to
+ * merge.
+ */
+const pushRecords = (request, spaceId, body) =>
+  withSpace(spaceId, async () => {
+    const space = await authorize(request, spaceId);
+    if (!Array.isArray(body.records) || body.records.length > MAX_RECORDS_PER_PUSH) {
+      throw new HttpError(400, "Expected up to 1000 records.");
+    }
+
+    const accepted = [];
+    const conflicts = [];
+    for (const record of body.records.map(validateRecord)) {
+      const key = `${record.kind}:${record.id}`;
+      const stored = space.records[key];
+      const order = stored ? compareVectors(record.vector, stored.vector) : "after";
+      if (order === "equal" && stored.payload === record.payload) {
+        accepted.push({ kind: record.kind, id: record.id, seq: stored.seq });
+      } else if (order === "after") {
+        space.seq++;
+        space.records[key] = { ...record, seq: space.seq };
+        accepted.push({ kind: record.kind, id: record.id, seq: space.seq });
+      } else {
+        conflicts.push(stored);
+      }
+    }
+
+    await writeSpace(spaceId, space);
+    return { accepted, conflicts, seq: space.seq };
+  });
+
+const send = (response, status, body) => {
+  response.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "Authorization, Content-Type",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  });
+  response.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const handle = async (request, response) => {
+  const url = new URL(request.url ?? "/", "http://localhost");
+  const recordsRoute = /^\/v1\/spaces\/([^/]+)\/records$/.exec(url.pathname);
+
+  if (request.method === "OPTIONS") {
+    send(response, 204);
+  } else if (request.method === "POST" && url.pathname === "/v1/spaces") {
+    send(response, 201, await createSpace());
+  } else if (request.method === "GET" && recordsRoute) {
+    const since = Number(url.searchParams.get("since") ?? 0);
+    if (!Number.isSafeInteger(since) || since < 0) {
+      throw new HttpError(400, "since must be a sequence number.");
+    }
+    send(response, 200, await pullRecords(request, recordsRoute[1], since));
+  } else if (request.method === "POST" && recordsRoute) {
+    // Refuse unauthorised pushes before reading their body
+    await authorize(request, recordsRoute[1]);
+    const body = await readBody(request);
+    send(response, 200, await pushRecords(request, recordsRoute[1], body));
+  } else {
+    throw new HttpError(404, "Not found.");
+  }
+};
+
+await mkdir(DATA_DIR, { recursive: true });
+
+createServer((request, response) => {
+  handle(request, response).catch((error) => {
+    if (error instanceof HttpError) {
+      send(response, error.status, { error: error.message });
+    } else {
+      console.error(error);
+      send(response, 500, { error: "Internal server error." });
+    }
+  });
+}).listen(PORT, () => {
+  console.log(`ZKS Note sync server listening on http://localhost:${PORT}`);
+  console.log(`Storing spaces in ${DATA_DIR}`);
+});
@@ -0,0 +1,175 @@
+// A small in-memory WebDAV server to try WebDAV sync without a Nextcloud, and
+// to test it against. It only speaks the part of WebDAV the app uses: GET,
+// PUT and MKCOL, with ETags and If-Match / If-None-Match preconditions. Files
+// are lost when it stops. Run it with `npm run webdav-stand-in`.
+//
+// Environment:
+//   PORT             Port to listen on (default 8789)
+//   WEBDAV_USERNAME  Username to accept (default zks)
+//   WEBDAV_PASSWORD  Password to accept (default zks)
+
+import { createServer } from "node:http";
+import { createHash, timingSafeEqual } from "node:crypto";
+
+const PORT = Number(process.env.PORT ?? 8789);
+const USERNAME = process.env.WEBDAV_USERNAME ?? "zks";
+const PASSWORD = process.env.WEBDAV_PASSWORD ?? "zks";
+
+const MAX_BODY_BYTES = 16 * 1024 * 1024;
+
+/**
+ * @typedef {{ body: Buffer; etag: string; contentType: string }} StoredFile
+ */
+
+class HttpError extends Error {
+  /**
+   * @param {number} status
+   * @param {string} message
+   */
+  constructor(status, message) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+  }
+}
+
+/** @type {Map<string, StoredFile>} */
+const files = new Map();
+// Collections by path, without a trailing slash; "" is the root
+const collections = new Set([""]);
+let lastEtag = 0;
+
+const digest = (text) => createHash("sha256").update(text).digest();
+
+const expectedAuthorization = digest(
+  `Basic ${Buffer.from(`${USERNAME}:${PASSWORD}`).toString("base64")}`,
+);
+
+const authorize = (request) => {
+  const isValid = timingSafeEqual(
+    digest(request.headers.authorization ?? ""),
+    expectedAuthorization,
+  );
+  if (!isValid) throw new HttpError(401, "Wrong username or password.");
+};
+
+const parentOf = (path) => path.slice(0, path.lastIndexOf("/"));
+
+/**
+ * Checks an If-Match or If-None-Match header against a file.
+ * @param {string} header A list of ETags, or "*" for any existing file.
+ * @param {StoredFile | undefined} file
+ */
+const matchesEtag = (header, file) =>
+  Boolean(file) &&
+  header
+    .split(",")
+    .map((etag) => etag.trim())
+    .some((etag) => etag === "*" || etag === file.etag);
+
+/**
+ * Refuses a write whose preconditions do not hold for the current file.
+ * @param {StoredFile | undefined} file
+ */
+const checkPreconditions = (request, file) => {
+  const ifMatch = request.headers["if-match"];
+  const ifNoneMatch = request.headers["if-none-match"];
+  if (ifMatch !== undefined && !matchesEtag(ifMatch, file)) {
+    throw new HttpError(412, "The file has changed.");
+  }
+  if (ifNoneMatch !== undefined && matchesEtag(ifNoneMatch, file)) {
+    throw new HttpError(412, "The file exists already.");
+  }
+};
+
+const readBody = async (request) => {
+  const chunks = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, "Request too large.");
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+};
+
+const send = (response, status, headers = {}, body) => {
+  response.writeHead(status, {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers":
+      "Authorization, Content-Type, If-Match, If-None-Match",
+    "Access-Control-Allow-Methods": "GET, PUT, MKCOL, OPTIONS",
+    "Access-Control-Expose-Headers": "ETag",
+    ...headers,
+  });
+  response.end(body);
+};
+
+const handle = async (request, response) => {
+  if (request.method === "OPTIONS") {
+    send(response, 204);
+    return;
+  }
+  authorize(request);
+
+  const url = new URL(request.url ?? "/", "http://localhost");
+  const path = decodeURIComponent(url.pathname).replace(/\/+$/, "");
+  const file = files.get(path);
+
+  if (request.method === "GET") {
+    if (!file) throw new HttpError(404, "Not found.");
+    send(
+      response,
+      200,
+      { "Content-Type": file.contentType, ETag: file.etag },
+      file.body,
+    );
+  } else if (request.method === "PUT") {
+    if (collections.has(path)) throw new HttpError(405, "That is a folder.");
+    if (!collections.has(parentOf(path))) {
+      throw new HttpError(409, "The parent folder does not exist.");
+    }
+    checkPreconditions(request, file);
+    const body = await readBody(request);
+    const etag = `"${++lastEtag}"`;
+    files.set(path, {
+      body,
+      etag,
+      contentType:
+        request.headers["content-type"] ?? "application/octet-stream",
+    });
+    send(response, file ? 204 : 201, { ETag: etag });
+  } else if (request.method === "MKCOL") {
+    if (collections.has(path) || file) {
+      throw new HttpError(405, "It exists already.");
+    }
+    if (!collections.has(parentOf(path))) {
+      throw new HttpError(409, "The parent folder does not exist.");
+    }
+    collections.add(path);
+    send(response, 201);
+  } else {
+    throw new HttpError(405, "Method not allowed.");
+  }
+};
+
+createServer((request, response) => {
+  handle(request, response).catch((error) => {
+    if (error instanceof HttpError) {
+      send(
+        response,
+        error.status,
+        error.status === 401
+          ? { "WWW-Authenticate": 'Basic realm="ZKS Note"' }
+          : {},
+        error.message,
+      );
+    } else {
+      console.error(error);
+      send(response, 500, {}, "Internal server error.");
+    }
+  });
+}).listen(PORT, () => {
+  console.log(`WebDAV stand-in listening on http://localhost:${PORT}`);
+  console.log(`Sign in as ${USERNAME}; files are kept in memory only`);
+});
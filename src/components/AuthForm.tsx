@@ -1,15 +1,35 @@
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Lock, Eye, EyeOff, User, ShieldCheck } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
-  deriveKey,
-  hashPassword,
-  generateSalt,
-  base64ToArrayBuffer,
-  arrayBufferToBase64,
-} from "@/lib/encryption";
-import { getUser, saveUser, saveSessionKey, generateId } from "@/lib/storage";
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Lock, Eye, EyeOff, User, ShieldCheck, Vault } from "lucide-react";
+import { createVault, issueRecoveryPhrase, unlockVault } from "@/lib/vault";
+import { toNonExtractableKey } from "@/lib/encryption";
+import {
+  addVault,
+  getUser,
+  listVaults,
+  saveSessionKey,
+  setActiveVault,
+} from "@/lib/storage";
+import { isTabSessionSupported, rememberTabSession } from "@/lib/tabSession";
+import {
+  getLockoutRemainingMs,
+  recordFailedLogin,
+  recordSuccessfulLogin,
+} from "@/lib/loginThrottle";
+import { useLoginThrottle } from "@/hooks/use-login-throttle";
+import { LoginThrottleNotice } from "@/components/LoginThrottleNotice";
+import { RecoverAccountForm } from "@/components/RecoverAccountForm";
+import { JoinSyncedVaultForm } from "@/components/JoinSyncedVaultForm";
+import { RecoveryPhraseDialog } from "@/components/RecoveryPhraseDialog";
 import { toast } from "sonner";
 
 interface AuthFormProps {
@@ -17,12 +37,36 @@ interface AuthFormProps {
 }
 
 export const AuthForm = ({ onAuthenticated }: AuthFormProps) => {
-  const [isLogin, setIsLogin] = useState(true);
+  const [vaults, setVaults] = useState(listVaults);
+  const [isLogin, setIsLogin] = useState(vaults.length > 0);
+  const [selectedVaultId, setSelectedVaultId] = useState(vaults[0]?.id ?? "");
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [rememberTab, setRememberTab] = useState(false);
+  const [isRecovering, setIsRecovering] = useState(false);
+  const [isJoining, setIsJoining] = useState(false);
+  // Shown once after registration, or after unlocking an account that had no
+  // recovery phrase, before entering the vault
+  const [newRecoveryPhrase, setNewRecoveryPhrase] = useState<string | null>(
+    null,
+  );
+  const throttle = useLoginThrottle(isLogin ? selectedVaultId || null : null);
+  const selectedUser = isLogin ? getUser(selectedVaultId || null) : null;
+
+  const startSession = async (vaultKey: CryptoKey) => {
+    saveSessionKey(await toNonExtractableKey(vaultKey));
+    if (rememberTab) {
+      try {
+        await rememberTabSession(vaultKey);
+      } catch (error) {
+        console.error("Failed to remember tab session:", error);
+        toast.error("Could not remember this tab; you will need to log in after a reload.");
+      }
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -31,22 +75,48 @@ export const AuthForm = ({ onAuthenticated }: AuthFormProps) => {
 
     try {
       if (isLogin) {
+        setActiveVault(selectedVaultId || null);
         const user = getUser();
-        if (!user || user.username.toLowerCase() !== username.toLowerCase()) {
-          toast.error("Invalid credentials");
+        if (!user) {
+          toast.error("Choose a vault to unlock");
           return;
         }
 
-        const salt = new Uint8Array(base64ToArrayBuffer(user.salt));
-        const { hash } = await hashPassword(password, salt);
+        if (getLockoutRemainingMs(user.id) > 0) {
+          throttle.refresh();
+          toast.error("Too many failed attempts. Please wait before trying again.");
+          return;
+        }
 
-        if (hash !== user.passwordHash) {
+        const vaultKey = await unlockVault(user, password);
+        if (!vaultKey) {
+          const { wiped } = await recordFailedLogin(user);
+          throttle.refresh();
+          if (wiped) {
+            const remaining = listVaults();
+            setVaults(remaining);
+            setSelectedVaultId(remaining[0]?.id ?? "");
+            toast.error("Too many failed attempts. The vault has been erased.");
+            return;
+          }
           toast.error("Invalid credentials");
           return;
         }
 
-        const encryptionKey = await deriveKey(password, salt as BufferSource);
-        saveSessionKey(encryptionKey);
+        recordSuccessfulLogin(user.id);
+
+        await startSession(vaultKey);
+        // Accounts from before recovery phrases existed get one now
+        const unlockedUser = getUser();
+        if (unlockedUser && !unlockedUser.recoveryKey) {
+          const { recoveryPhrase } = await issueRecoveryPhrase(
+            unlockedUser,
+            vaultKey,
+          );
+          toast.success("Welcome back! Your vault now has a recovery phrase.");
+          setNewRecoveryPhrase(recoveryPhrase);
+          return;
+        }
         toast.success("Welcome back!");
         onAuthenticated();
       } else {
@@ -60,29 +130,23 @@ export const AuthForm = ({ onAuthenticated }: AuthFormProps) => {
           return;
         }
 
-        const existingUser = getUser();
-        if (existingUser) {
-          toast.error("An account already exists. Please login.");
-          setIsLogin(true);
+        const name = username.trim();
+        if (vaults.some((v) => v.name.toLowerCase() === name.toLowerCase())) {
+          toast.error("A vault with this name already exists on this device");
           return;
         }
 
-        const salt = generateSalt();
-        const { hash: passwordHash } = await hashPassword(password, salt);
+        const { user, vaultKey, recoveryPhrase } = await createVault(
+          name,
+          password,
+        );
 
-        const user = {
-          id: generateId(),
-          username,
-          passwordHash,
-          salt: arrayBufferToBase64(salt),
-        };
-
-        saveUser(user);
-        const encryptionKey = await deriveKey(password, salt as BufferSource);
-        saveSessionKey(encryptionKey);
+        addVault(name, user);
+        setVaults(listVaults());
+        await startSession(vaultKey);
 
         toast.success("Account created successfully!");
-        onAuthenticated();
+        setNewRecoveryPhrase(recoveryPhrase);
       }
     } catch (error) {
       console.error("Authentication error:", error);
@@ -114,104 +178,200 @@ export const AuthForm = ({ onAuthenticated }: AuthFormProps) => {
         </div>
 
         <div className="bg-card/50 backdrop-blur-xl rounded-3xl border border-white/10 p-6 shadow-2xl">
-          {/* Tab Switcher */}
-          <div className="flex p-1 bg-black/20 rounded-xl mb-6 border border-white/5">
-            <button
-              className={`flex-1 py-2 text-sm font-medium rounded-lg transition-all ${
-                isLogin ? "bg-primary text-primary-foreground shadow-sm" : "text-muted-foreground hover:text-white"
-              }`}
-              onClick={() => setIsLogin(true)}
-            >
-              Login
-            </button>
-            <button
-              className={`flex-1 py-2 text-sm font-medium rounded-lg transition-all ${
-                !isLogin ? "bg-primary text-primary-foreground shadow-sm" : "text-muted-foreground hover:text-white"
-              }`}
-              onClick={() => setIsLogin(false)}
-            >
-              Register
-            </button>
-          </div>
-
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <div className="space-y-1.5">
-              <label className="text-xs font-semibold uppercase tracking-wider text-muted-foreground ml-1">
-                Username
-              </label>
-              <div className="relative group">
-                <User className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground group-focus-within:text-primary transition-colors" />
-                <Input
-                  type="text"
-                  placeholder="Your unique ID"
-                  value={username}
-                  onChange={(e) => setUsername(e.target.value)}
-                  className="pl-10 bg-black/20 border-white/10 focus:border-primary/50 focus:ring-primary/20 transition-all h-10"
-                  required
-                />
-              </div>
-            </div>
-
-            <div className="space-y-1.5">
-              <label className="text-xs font-semibold uppercase tracking-wider text-muted-foreground ml-1">
-                Password
-              </label>
-              <div className="relative group">
-                <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground group-focus-within:text-primary transition-colors" />
-                <Input
-                  type={showPassword ? "text" : "password"}
-                  placeholder="••••••••"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="pl-10 pr-10 bg-black/20 border-white/10 focus:border-primary/50 focus:ring-primary/20 transition-all h-10"
-                  required
-                />
+          {isRecovering ? (
+            <RecoverAccountForm
+              onRecovered={async (vaultKey) => {
+                await startSession(vaultKey);
+                onAuthenticated();
+              }}
+              onCancel={() => setIsRecovering(false)}
+            />
+          ) : isJoining ? (
+            <JoinSyncedVaultForm
+              onJoined={(vault) => {
+                setVaults(listVaults());
+                setSelectedVaultId(vault.id);
+                setIsLogin(true);
+                setIsJoining(false);
+              }}
+              onCancel={() => setIsJoining(false)}
+            />
+          ) : (
+            <>
+              {/* Tab Switcher */}
+              <div className="flex p-1 bg-black/20 rounded-xl mb-6 border border-white/5">
                 <button
-                  type="button"
-                  onClick={() => setShowPassword(!showPassword)}
-                  className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-white transition-colors"
+                  className={`flex-1 py-2 text-sm font-medium rounded-lg transition-all ${
+                    isLogin ? "bg-primary text-primary-foreground shadow-sm" : "text-muted-foreground hover:text-white"
+                  }`}
+                  onClick={() => setIsLogin(true)}
                 >
-                  {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                  Login
+                </button>
+                <button
+                  className={`flex-1 py-2 text-sm font-medium rounded-lg transition-all ${
+                    !isLogin ? "bg-primary text-primary-foreground shadow-sm" : "text-muted-foreground hover:text-white"
+                  }`}
+                  onClick={() => setIsLogin(false)}
+                >
+                  Register
                 </button>
               </div>
-            </div>
-
-            {!isLogin && (
-              <div className="space-y-1.5 animate-in fade-in slide-in-from-top-2 duration-300">
-                <label className="text-xs font-semibold uppercase tracking-wider text-muted-foreground ml-1">
-                  Confirm Key
-                </label>
-                <div className="relative group">
-                  <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground group-focus-within:text-primary transition-colors" />
-                  <Input
-                    type={showPassword ? "text" : "password"}
-                    placeholder="Repeat password"
-                    value={confirmPassword}
-                    onChange={(e) => setConfirmPassword(e.target.value)}
-                    className="pl-10 bg-black/20 border-white/10 focus:border-primary/50 focus:ring-primary/20 transition-all h-10"
-                    required
-                  />
+
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {isLogin ? (
+                  <div className="space-y-1.5">
+                    <label className="text-xs font-semibold uppercase tracking-wider text-muted-foreground ml-1">
+                      Vault
+                    </label>
+                    {vaults.length > 0 ? (
+                      <Select value={selectedVaultId} onValueChange={setSelectedVaultId}>
+                        <SelectTrigger className="bg-black/20 border-white/10 focus:ring-primary/20 h-10">
+                          <div className="flex items-center gap-2">
+                            <Vault className="w-4 h-4 text-muted-foreground" />
+                            <SelectValue placeholder="Choose a vault" />
+                          </div>
+                        </SelectTrigger>
+                        <SelectContent>
+                          {vaults.map((vault) => (
+                            <SelectItem key={vault.id} value={vault.id}>
+                              {vault.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <p className="text-xs text-muted-foreground ml-1">
+                        No vaults on this device yet. Register to create one.
+                      </p>
+                    )}
+                  </div>
+                ) : (
+                  <div className="space-y-1.5">
+                    <label className="text-xs font-semibold uppercase tracking-wider text-muted-foreground ml-1">
+                      Username
+                    </label>
+                    <div className="relative group">
+                      <User className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground group-focus-within:text-primary transition-colors" />
+                      <Input
+                        type="text"
+                        placeholder="Names your vault on this device"
+                        value={username}
+                        onChange={(e) => setUsername(e.target.value)}
+                        className="pl-10 bg-black/20 border-white/10 focus:border-primary/50 focus:ring-primary/20 transition-all h-10"
+                        required
+                      />
+                    </div>
+                  </div>
+                )}
+
+                <div className="space-y-1.5">
+                  <label className="text-xs font-semibold uppercase tracking-wider text-muted-foreground ml-1">
+                    Password
+                  </label>
+                  <div className="relative group">
+                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground group-focus-within:text-primary transition-colors" />
+                    <Input
+                      type={showPassword ? "text" : "password"}
+                      placeholder="••••••••"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      className="pl-10 pr-10 bg-black/20 border-white/10 focus:border-primary/50 focus:ring-primary/20 transition-all h-10"
+                      required
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowPassword(!showPassword)}
+                      className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-white transition-colors"
+                    >
+                      {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                    </button>
+                  </div>
                 </div>
-              </div>
-            )}
-
-            <Button 
-              type="submit" 
-              className="w-full h-10 bg-primary hover:bg-primary/90 text-primary-foreground font-semibold rounded-xl transition-all shadow-lg shadow-primary/20"
-              disabled={isLoading}
-            >
-              {isLoading ? (
-                <span className="flex items-center gap-2">
-                  <span className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-                  Processing...
-                </span>
-              ) : isLogin ? (
-                "Access Vault"
-              ) : (
-                "Initialize Account"
-              )}
-            </Button>
-          </form>
+
+                {isLogin && (
+                  <LoginThrottleNotice
+                    failures={throttle.failures}
+                    remainingMs={throttle.remainingMs}
+                    wipeAfterFailures={selectedUser?.wipeAfterFailures}
+                  />
+                )}
+
+                {!isLogin && (
+                  <div className="space-y-1.5 animate-in fade-in slide-in-from-top-2 duration-300">
+                    <label className="text-xs font-semibold uppercase tracking-wider text-muted-foreground ml-1">
+                      Confirm Key
+                    </label>
+                    <div className="relative group">
+                      <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground group-focus-within:text-primary transition-colors" />
+                      <Input
+                        type={showPassword ? "text" : "password"}
+                        placeholder="Repeat password"
+                        value={confirmPassword}
+                        onChange={(e) => setConfirmPassword(e.target.value)}
+                        className="pl-10 bg-black/20 border-white/10 focus:border-primary/50 focus:ring-primary/20 transition-all h-10"
+                        required
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {isTabSessionSupported() && (
+                  <div className="flex items-center gap-2 ml-1">
+                    <Checkbox
+                      id="remember-tab"
+                      checked={rememberTab}
+                      onCheckedChange={(checked) => setRememberTab(checked === true)}
+                    />
+                    <label
+                      htmlFor="remember-tab"
+                      className="text-xs text-muted-foreground cursor-pointer"
+                    >
+                      Stay unlocked in this tab after a reload (1 hour)
+                    </label>
+                  </div>
+                )}
+
+                <Button 
+                  type="submit" 
+                  className="w-full h-10 bg-primary hover:bg-primary/90 text-primary-foreground font-semibold rounded-xl transition-all shadow-lg shadow-primary/20"
+                  disabled={
+                    isLoading ||
+                    (isLogin && (vaults.length === 0 || throttle.isLockedOut))
+                  }
+                >
+                  {isLoading ? (
+                    <span className="flex items-center gap-2">
+                      <span className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                      Processing...
+                    </span>
+                  ) : isLogin ? (
+                    "Access Vault"
+                  ) : (
+                    "Initialize Account"
+                  )}
+                </Button>
+
+                {isLogin && vaults.length > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => setIsRecovering(true)}
+                    className="w-full text-xs text-muted-foreground hover:text-white transition-colors"
+                  >
+                    Forgot password? Use your recovery phrase
+                  </button>
+                )}
+
+                <button
+                  type="button"
+                  onClick={() => setIsJoining(true)}
+                  className="w-full text-xs text-muted-foreground hover:text-white transition-colors"
+                >
+                  Join a vault synced from another device
+                </button>
+              </form>
+            </>
+          )}
         </div>
 
         <div className="mt-6 text-center space-y-4">
@@ -227,6 +387,15 @@ export const AuthForm = ({ onAuthenticated }: AuthFormProps) => {
           </p>
         </div>
       </div>
+
+      <RecoveryPhraseDialog
+        open={newRecoveryPhrase !== null}
+        phrase={newRecoveryPhrase ?? ""}
+        onConfirm={() => {
+          setNewRecoveryPhrase(null);
+          onAuthenticated();
+        }}
+      />
     </div>
   );
 };
\ No newline at end of file
@@ -1,19 +1,112 @@
-import Editor from '@monaco-editor/react';
+import { useEffect, useRef, useState } from 'react';
+import Editor, { OnMount } from '@monaco-editor/react';
+import { CollabPeer } from '@/lib/collab';
+import { findTextChange } from '@/lib/textChange';
+
+type MonacoEditor = Parameters<OnMount>[0];
+type MonacoApi = Parameters<OnMount>[1];
 
 interface CodeEditorProps {
   value: string;
   onChange: (value: string) => void;
   language: string;
+  // Collaborators whose cursors are in this editor
+  remoteCursors?: CollabPeer[];
+  // Receives this editor's selection as offsets into the text
+  onSelectionChange?: (anchor: number, head: number) => void;
 }
 
-export const CodeEditor = ({ value, onChange, language }: CodeEditorProps) => {
+export const CodeEditor = ({
+  value,
+  onChange,
+  language,
+  remoteCursors = [],
+  onSelectionChange,
+}: CodeEditorProps) => {
+  const [editor, setEditor] = useState<{ instance: MonacoEditor; monaco: MonacoApi } | null>(null);
+  const onSelectionChangeRef = useRef(onSelectionChange);
+  onSelectionChangeRef.current = onSelectionChange;
+  // Set while an outside change is applied, which must not echo back as an edit
+  const isApplyingChange = useRef(false);
+
+  const handleMount: OnMount = (instance, monaco) => {
+    instance.onDidChangeCursorSelection(({ selection }) => {
+      const model = instance.getModel();
+      if (!model) return;
+      // The selection starts where it was anchored and ends at the cursor
+      onSelectionChangeRef.current?.(
+        model.getOffsetAt(selection.getSelectionStart()),
+        model.getOffsetAt(selection.getPosition()),
+      );
+    });
+    setEditor({ instance, monaco });
+  };
+
+  // Apply outside changes as the smallest edit, so the cursor stays put; the
+  // editor's own value prop would replace the whole text
+  useEffect(() => {
+    const model = editor?.instance.getModel();
+    if (!editor || !model) return;
+    const change = findTextChange(model.getValue(), value);
+    if (!change) return;
+    const start = model.getPositionAt(change.index);
+    const end = model.getPositionAt(change.index + change.removed);
+    isApplyingChange.current = true;
+    try {
+      editor.instance.executeEdits('outside-change', [
+        {
+          range: new editor.monaco.Range(start.lineNumber, start.column, end.lineNumber, end.column),
+          text: change.inserted,
+        },
+      ]);
+    } finally {
+      isApplyingChange.current = false;
+    }
+  }, [editor, value]);
+
+  const decorations = useRef<ReturnType<MonacoEditor['createDecorationsCollection']> | null>(null);
+  useEffect(() => {
+    const model = editor?.instance.getModel();
+    if (!editor || !model) return;
+    decorations.current ??= editor.instance.createDecorationsCollection();
+    decorations.current.set(
+      remoteCursors.flatMap(({ clientId, name, color, cursor }) => {
+        if (!cursor) return [];
+        const anchor = model.getPositionAt(cursor.anchor);
+        const head = model.getPositionAt(cursor.head);
+        const [start, end] = cursor.anchor <= cursor.head ? [anchor, head] : [head, anchor];
+        return [
+          {
+            range: new editor.monaco.Range(start.lineNumber, start.column, end.lineNumber, end.column),
+            options: {
+              className: `collab-selection collab-color-${color}`,
+              hoverMessage: { value: name },
+              description: `collab-selection-${clientId}`,
+            },
+          },
+          {
+            range: new editor.monaco.Range(head.lineNumber, head.column, head.lineNumber, head.column),
+            options: {
+              beforeContentClassName: `collab-caret collab-color-${color}`,
+              hoverMessage: { value: name },
+              description: `collab-caret-${clientId}`,
+            },
+          },
+        ];
+      }),
+    );
+  }, [editor, remoteCursors, value]);
+
   return (
     <div className="h-full w-full rounded-lg overflow-hidden border border-border">
       <Editor
         height="100%"
         language={language}
-        value={value}
-        onChange={(val) => onChange(val || '')}
+        defaultValue={value}
+        onChange={(val) => {
+          if (!isApplyingChange.current) onChange(val || '');
+        }}
+        onMount={handleMount}
         theme="vs-dark"
         options={{
           minimap: { enabled: false },
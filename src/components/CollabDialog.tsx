@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Copy } from 'lucide-react';
+import { toast } from 'sonner';
+import { CollabLink } from '@/lib/storage';
+import { CollabError, CollabPeer, CollabStatus, DEFAULT_RELAY_URL, formatInviteCode } from '@/lib/collab';
+
+const STATUS_LABELS: Record<CollabStatus, string> = {
+  connecting: 'Connecting to the relay...',
+  waiting: 'Waiting for a collaborator to send the note',
+  live: 'Live',
+  offline: 'The relay cannot be reached. Edits are sent once it can.',
+};
+
+export function CollabDialog({
+  open,
+  onOpenChange,
+  link,
+  status,
+  peers,
+  defaultName,
+  onStart,
+  onStop,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  link: CollabLink | undefined;
+  status: CollabStatus | null;
+  peers: CollabPeer[];
+  defaultName: string;
+  onStart: (relayUrl: string, name: string) => Promise<void>;
+  onStop: () => Promise<void>;
+}) {
+  const [relayUrl, setRelayUrl] = useState(DEFAULT_RELAY_URL);
+  const [name, setName] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleStart = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    try {
+      await onStart(relayUrl, name.trim() || defaultName);
+      toast.success('Live editing is on. Send the invite code to your collaborators.');
+    } catch (error) {
+      console.error('Failed to share note:', error);
+      toast.error(error instanceof CollabError ? error.message : 'Failed to start live editing');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleStop = async () => {
+    if (!window.confirm('Stop editing this note live? Your copy keeps its content.')) return;
+    setIsBusy(true);
+    try {
+      await onStop();
+      toast.success('Live editing stopped');
+    } catch (error) {
+      console.error('Failed to stop sharing note:', error);
+      toast.error('Failed to stop live editing');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCopyInvite = async () => {
+    if (!link) return;
+    await navigator.clipboard.writeText(formatInviteCode(link));
+    toast.success('Invite code copied to clipboard');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Live Editing</DialogTitle>
+          <DialogDescription>
+            Edit this note together in real time. Changes and cursors are encrypted with a key only the invited
+            collaborators have; the relay passes them on without being able to read them.
+          </DialogDescription>
+        </DialogHeader>
+
+        {link ? (
+          <div className="grid gap-4 py-4">
+            <div className="space-y-1">
+              <p className="text-xs font-medium text-muted-foreground">Invite code</p>
+              <div className="flex gap-2">
+                <Input value={formatInviteCode(link)} readOnly className="font-mono text-xs" />
+                <Button type="button" variant="outline" size="icon" onClick={handleCopyInvite} title="Copy invite code">
+                  <Copy className="w-4 h-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Anyone with this code can read and edit the note, so share it only with your collaborators.
+              </p>
+            </div>
+            <div className="space-y-1">
+              <p className="text-xs font-medium text-muted-foreground">
+                {status ? STATUS_LABELS[status] : 'Not connected'}
+              </p>
+              <ul className="space-y-1 text-sm">
+                <li className="flex items-center gap-2">
+                  <span className="w-2 h-2 rounded-full bg-muted-foreground" />
+                  {link.name} (you)
+                </li>
+                {peers.map((peer) => (
+                  <li key={peer.clientId} className={`flex items-center gap-2 collab-color-${peer.color}`}>
+                    <span className="w-2 h-2 rounded-full bg-[hsl(var(--collab-color))]" />
+                    {peer.name}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        ) : (
+          <form id="collab-start-form" onSubmit={handleStart} className="grid gap-2 py-4">
+            <Input
+              type="url"
+              placeholder="Relay address"
+              value={relayUrl}
+              onChange={(e) => setRelayUrl(e.target.value)}
+              required
+            />
+            <Input
+              type="text"
+              placeholder={`Your name (${defaultName})`}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={60}
+            />
+            <p className="text-xs text-muted-foreground">
+              Run a relay with <code>npm run collab-relay</code>. Collaborators see the name you enter.
+            </p>
+          </form>
+        )}
+
+        <DialogFooter>
+          {link ? (
+            <Button type="button" variant="outline" onClick={handleStop} disabled={isBusy}>
+              Stop live editing
+            </Button>
+          ) : (
+            <>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" form="collab-start-form" disabled={isBusy}>
+                {isBusy ? 'Starting...' : 'Start live editing'}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
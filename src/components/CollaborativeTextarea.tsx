@@ -0,0 +1,153 @@
+import { ReactNode, TextareaHTMLAttributes, useLayoutEffect, useRef } from 'react';
+import { cn } from '@/lib/utils';
+import { CollabPeer } from '@/lib/collab';
+import { findTextChange, transformPosition } from '@/lib/textChange';
+
+interface CollaborativeTextareaProps
+  extends Omit<TextareaHTMLAttributes<HTMLTextAreaElement>, 'value' | 'onChange' | 'onSelect'> {
+  value: string;
+  onChange: (value: string) => void;
+  // Collaborators whose cursors are in this text
+  remoteCursors?: CollabPeer[];
+  // Receives the selection as offsets into the text
+  onSelectionChange?: (anchor: number, head: number) => void;
+}
+
+/**
+ * Marks the collaborators' selections and carets in a copy of the text. The
+ * copy is laid out like the textarea but transparent, so the marks land on
+ * the characters they belong to.
+ */
+const renderCursors = (text: string, cursors: CollabPeer[]): ReactNode[] => {
+  const placed = cursors.flatMap((peer) =>
+    peer.cursor
+      ? [
+          {
+            ...peer,
+            start: Math.min(peer.cursor.anchor, peer.cursor.head, text.length),
+            end: Math.min(Math.max(peer.cursor.anchor, peer.cursor.head), text.length),
+            head: Math.min(peer.cursor.head, text.length),
+          },
+        ]
+      : [],
+  );
+  const points = [
+    ...new Set([0, text.length, ...placed.flatMap((p) => [p.start, p.end])]),
+  ].sort((a, b) => a - b);
+
+  const nodes: ReactNode[] = [];
+  points.forEach((point, i) => {
+    for (const peer of placed.filter((p) => p.head === point)) {
+      nodes.push(
+        <span key={`caret-${peer.clientId}`} className={`relative collab-color-${peer.color}`}>
+          <span className="collab-caret top-0" />
+          <span className="absolute bottom-full left-0 px-1 rounded-sm text-[10px] leading-4 whitespace-nowrap text-white bg-[hsl(var(--collab-color))]">
+            {peer.name}
+          </span>
+        </span>,
+      );
+    }
+    const next = points[i + 1];
+    if (next === undefined) return;
+    const selectedBy = placed.find((p) => p.start <= point && next <= p.end);
+    nodes.push(
+      <span
+        key={`text-${point}`}
+        className={selectedBy ? `collab-selection collab-color-${selectedBy.color}` : undefined}
+      >
+        {text.slice(point, next)}
+      </span>,
+    );
+  });
+  // A trailing line break only takes up a line when something follows it
+  nodes.push(<span key="end">{'\u200b'}</span>);
+  return nodes;
+};
+
+export const CollaborativeTextarea = ({
+  value,
+  onChange,
+  remoteCursors = [],
+  onSelectionChange,
+  className,
+  onScroll,
+  ...props
+}: CollaborativeTextareaProps) => {
+  const textarea = useRef<HTMLTextAreaElement>(null);
+  const overlay = useRef<HTMLDivElement>(null);
+  // The value the textarea showed, and its selection there
+  const shownValue = useRef(value);
+  const selection = useRef({ start: 0, end: 0, direction: 'none' as HTMLTextAreaElement['selectionDirection'] });
+
+  const readSelection = () => {
+    const element = textarea.current;
+    if (!element) return;
+    selection.current = {
+      start: element.selectionStart,
+      end: element.selectionEnd,
+      direction: element.selectionDirection,
+    };
+    const isBackward = element.selectionDirection === 'backward';
+    onSelectionChange?.(
+      isBackward ? element.selectionEnd : element.selectionStart,
+      isBackward ? element.selectionStart : element.selectionEnd,
+    );
+  };
+
+  const alignOverlay = () => {
+    if (!textarea.current || !overlay.current) return;
+    // The textarea's scrollbar narrows its text, so the copy must match
+    overlay.current.style.width = `${textarea.current.clientWidth}px`;
+    overlay.current.scrollTop = textarea.current.scrollTop;
+  };
+
+  // Setting a textarea's value moves the caret to the end; put it back next
+  // to the characters it was at when the text changed from outside
+  useLayoutEffect(() => {
+    const element = textarea.current;
+    const change = findTextChange(shownValue.current, value);
+    shownValue.current = value;
+    if (!element || !change || document.activeElement !== element) return;
+    const { start, end, direction } = selection.current;
+    element.setSelectionRange(
+      transformPosition(start, change),
+      transformPosition(end, change),
+      direction ?? undefined,
+    );
+    readSelection();
+  });
+
+  useLayoutEffect(alignOverlay);
+
+  return (
+    <div className="relative h-full w-full">
+      <textarea
+        {...props}
+        ref={textarea}
+        value={value}
+        onChange={(e) => {
+          shownValue.current = e.target.value;
+          onChange(e.target.value);
+        }}
+        onSelect={readSelection}
+        onScroll={(e) => {
+          alignOverlay();
+          onScroll?.(e);
+        }}
+        className={className}
+      />
+      {remoteCursors.some((peer) => peer.cursor) && (
+        <div
+          ref={overlay}
+          aria-hidden
+          className={cn(
+            className,
+            'pointer-events-none absolute left-0 top-0 h-full overflow-hidden whitespace-pre-wrap break-words bg-transparent text-transparent',
+          )}
+        >
+          {renderCursors(value, remoteCursors)}
+        </div>
+      )}
+    </div>
+  );
+};
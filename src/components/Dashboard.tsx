@@ -1,13 +1,41 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ResizableHandle,
+  ResizablePanel,
+  ResizablePanelGroup,
+} from "@/components/ui/resizable";
 import { CodeEditor } from "@/components/CodeEditor";
+import { CollaborativeTextarea } from "@/components/CollaborativeTextarea";
+import { MarkdownContent } from "@/components/MarkdownContent";
 import {
   Plus,
   FileText,
@@ -21,25 +49,125 @@ import {
   Share2,
   Download,
   Upload,
+  KeyRound,
+  LifeBuoy,
+  Lock,
+  Vault,
+  History,
+  FolderPlus,
+  Users,
 } from "lucide-react";
 import {
+  CodeSnippet,
+  CollabLink,
+  FolderMeta,
   Note,
-  getNotes,
+  NoteContent,
+  NoteMeta,
+  NoteConflictError,
   saveNote,
+  getNote,
   deleteNote,
   getSessionKey,
   clearSession,
   generateId,
+  getUser,
+  getSettings,
+  saveSettings,
+  saveUser,
+  getActiveVaultId,
+  deleteVault,
 } from "@/lib/storage";
 import {
-  encryptData,
-  decryptData,
-  deriveKey,
-  generateSalt,
+  deriveEnvelopeKey,
+  openEnvelope,
+  parseEnvelope,
+  sealEnvelopeWithPassword,
+  IntegrityError,
+  EnvelopeFormatError,
+  CipherEnvelope,
 } from "@/lib/encryption";
+import {
+  decryptNoteField,
+  encryptNoteField,
+  loadNoteIndex,
+} from "@/lib/noteCrypto";
 import { toast } from "sonner";
 import { createSecureShareLink, SharePayload } from "@/lib/secureSharing";
 import { PasswordDialog } from "@/components/PasswordDialog";
+import { ChangePasswordDialog } from "@/components/ChangePasswordDialog";
+import { RenameVaultDialog } from "@/components/RenameVaultDialog";
+import { SyncDialog } from "@/components/SyncDialog";
+import { CollabDialog } from "@/components/CollabDialog";
+import { JoinCollabDialog } from "@/components/JoinCollabDialog";
+import { NoteHistoryPanel } from "@/components/NoteHistoryPanel";
+import { TrashList } from "@/components/TrashList";
+import { FolderTree } from "@/components/FolderTree";
+import { FolderNameDialog } from "@/components/FolderNameDialog";
+import { TagInput } from "@/components/TagInput";
+import { TagFilter } from "@/components/TagFilter";
+import { TagManagerDialog } from "@/components/TagManagerDialog";
+import { SearchResults } from "@/components/SearchResults";
+import { RecoveryPhraseDialog } from "@/components/RecoveryPhraseDialog";
+import { useIdleTimer } from "@/hooks/use-idle-timer";
+import { forgetTabSession } from "@/lib/tabSession";
+import { regenerateRecoveryPhrase, unlockVault } from "@/lib/vault";
+import {
+  NoteSnapshot,
+  recordRevision,
+  saveNoteVersion,
+  snapshotsEqual,
+} from "@/lib/noteHistory";
+import { discardDraft, replayDrafts, writeDraft } from "@/lib/drafts";
+import { useAutosave } from "@/hooks/use-autosave";
+import { useSync } from "@/hooks/use-sync";
+import { useCollaboration } from "@/hooks/use-collaboration";
+import { joinSharedNote, shareNote, stopSharingNote } from "@/lib/collab";
+import { SaveStatusIndicator } from "@/components/SaveStatusIndicator";
+import {
+  ConflictResolution,
+  NoteConflictDialog,
+} from "@/components/NoteConflictDialog";
+import {
+  NoteConflict,
+  loadStoredVersion,
+  mergeSnapshots,
+} from "@/lib/noteConflicts";
+import { VaultChange, subscribeToChanges } from "@/lib/tabSync";
+import {
+  isTrashed,
+  moveNoteToTrash,
+  purgeExpiredTrash,
+  restoreNoteFromTrash,
+} from "@/lib/trash";
+import {
+  FolderExport,
+  buildFolderExport,
+  createFolder,
+  importFolderExport,
+  loadFolderIndex,
+  moveFolder,
+  moveNoteToFolder,
+  removeFolder,
+  updateFolder,
+} from "@/lib/folders";
+import {
+  TagMatchMode,
+  collectTags,
+  matchesTags,
+  normaliseTag,
+  renameTag,
+  setNoteTags,
+} from "@/lib/tags";
+import { createSearchIndex, indexNotes } from "@/lib/searchIndex";
+import {
+  createSnippet,
+  isValidSnippetLabel,
+  migrateSnippetIds,
+  migrateSnippets,
+  removeSnippetReferences,
+  renameSnippetReferences,
+} from "@/lib/snippets";
 import {
   Sidebar,
   SidebarProvider,
@@ -56,30 +184,64 @@ import {
 
 interface DashboardProps {
   onLogout: () => void;
-}
-
-interface CodeSnippet {
-  id: string;
-  code: string;
-  language: string;
+  onLock: () => void;
 }
 
 interface ExpandedCodeSnippet extends CodeSnippet {
   isExpanded: boolean;
 }
 
-// This represents the decrypted content of a note
-interface NoteContent {
-  content: string;
-  snippets: CodeSnippet[];
-}
-
 // Extends NoteContent for imported files that might have extra metadata
 interface ImportedNote extends NoteContent {
   title?: string;
   createdAt?: number;
 }
 
+// Context labels .snote exports of a note and of a folder are bound to
+const EXPORT_AAD = "zks-note|export";
+const FOLDER_EXPORT_AAD = "zks-note|folder-export";
+
+const slugify = (name: string) =>
+  name.replace(/[^a-z0-9]/gi, "-").toLowerCase();
+
+/**
+ * Saves an encrypted export as a .snote download.
+ */
+const downloadSnote = (envelope: CipherEnvelope, filename: string) => {
+  const blob = new Blob([JSON.stringify(envelope, null, 2)], {
+    type: "application/json",
+  });
+
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const AUTO_LOCK_OPTIONS = [
+  { value: 0, label: "Never" },
+  { value: 1, label: "1 minute" },
+  { value: 5, label: "5 minutes" },
+  { value: 15, label: "15 minutes" },
+  { value: 30, label: "30 minutes" },
+  { value: 60, label: "1 hour" },
+];
+
+// Autosaves keep at most one history entry per this interval
+const AUTOSAVE_REVISION_INTERVAL_MS = 5 * 60 * 1000;
+
+// Failed logins before the vault erases itself; 0 never wipes
+const WIPE_AFTER_OPTIONS = [
+  { value: 0, label: "Never" },
+  { value: 5, label: "5 failed logins" },
+  { value: 10, label: "10 failed logins" },
+  { value: 20, label: "20 failed logins" },
+];
+
 const LANGUAGES = [
   { value: "plaintext", label: "Plain Text" },
   { value: "javascript", label: "JavaScript" },
@@ -97,142 +259,773 @@ const LANGUAGES = [
   { value: "markdown", label: "Markdown" },
 ];
 
-export const Dashboard = ({ onLogout }: DashboardProps) => {
+export const Dashboard = ({ onLogout, onLock }: DashboardProps) => {
   const [notes, setNotes] = useState<Note[]>([]);
+  // Decrypted note metadata by id; held in memory only while unlocked
+  const [titleIndex, setTitleIndex] = useState<Record<string, NoteMeta>>({});
   const [selectedNote, setSelectedNote] = useState<Note | null>(null);
   const [editingTitle, setEditingTitle] = useState("");
   const [editingContent, setEditingContent] = useState("");
   const [codeSnippets, setCodeSnippets] = useState<ExpandedCodeSnippet[]>([]);
+  // The snippet whose label is being renamed, and the label typed so far
+  const [editingLabel, setEditingLabel] = useState<{
+    id: string;
+    value: string;
+  } | null>(null);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  // Edits to the selected note that clash with a save from another tab
+  const [conflict, setConflict] = useState<NoteConflict | null>(null);
   const [isEditingNote, setIsEditingNote] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
+  // Snippet language to search in, or "all" for every field
+  const [searchLanguage, setSearchLanguage] = useState("all");
+  // Plaintext index of decrypted notes; kept in memory only
+  const [searchIndex] = useState(createSearchIndex);
   const [isPasswordDialogOpen, setIsPasswordDialogOpen] = useState(false);
   const [passwordDialogOptions, setPasswordDialogOptions] = useState<{
     title: string;
     description: string;
     onConfirm: (password: string) => Promise<void>;
   }>({ title: "", description: "", onConfirm: async () => {} });
+  const [isChangePasswordOpen, setIsChangePasswordOpen] = useState(false);
+  const [isRenameVaultOpen, setIsRenameVaultOpen] = useState(false);
+  const [isSyncDialogOpen, setIsSyncDialogOpen] = useState(false);
+  const [isCollabDialogOpen, setIsCollabDialogOpen] = useState(false);
+  const [isJoinCollabOpen, setIsJoinCollabOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isTrashView, setIsTrashView] = useState(false);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [tagMatchMode, setTagMatchMode] = useState<TagMatchMode>("and");
+  const [isTagManagerOpen, setIsTagManagerOpen] = useState(false);
+  // Decrypted folder metadata by id; held in memory only while unlocked
+  const [folderIndex, setFolderIndex] = useState<Record<string, FolderMeta>>(
+    {},
+  );
+  const [folderDialog, setFolderDialog] = useState<{
+    title: string;
+    initialName: string;
+    confirmText: string;
+    onConfirm: (name: string) => Promise<void>;
+  } | null>(null);
+  const [trashRetentionDays, setTrashRetentionDays] = useState(
+    () => getSettings().trashRetentionDays,
+  );
+  const [wipeAfterFailures, setWipeAfterFailures] = useState(
+    () => getUser()?.wipeAfterFailures ?? 0,
+  );
+  // A wipe limit awaiting confirmation in the warning dialog
+  const [pendingWipeAfter, setPendingWipeAfter] = useState<number | null>(null);
+  const [recoveryPhrase, setRecoveryPhrase] = useState<string | null>(null);
+  const [autoLockMinutes, setAutoLockMinutes] = useState(
+    () => getSettings().autoLockMinutes,
+  );
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const encryptionKey = getSessionKey();
 
+  const reloadVault = useCallback(async () => {
+    if (!encryptionKey) return;
+    const { notes, index } = await loadNoteIndex(encryptionKey);
+    const purged = await purgeExpiredTrash(
+      index,
+      getSettings().trashRetentionDays,
+    );
+    purged.forEach((id) => delete index[id]);
+    const remaining = await migrateSnippetIds(
+      notes.filter((n) => !purged.includes(n.id)),
+      encryptionKey,
+    );
+    const replayed = await replayDrafts(remaining, index, encryptionKey);
+    searchIndex.clear();
+    await indexNotes(searchIndex, replayed.notes, replayed.index, encryptionKey);
+    setNotes(replayed.notes);
+    setTitleIndex(replayed.index);
+    // Keep the open note at its stored revision, or the next save conflicts
+    setSelectedNote((current) =>
+      current
+        ? (replayed.notes.find((n) => n.id === current.id) ?? null)
+        : null,
+    );
+    setFolderIndex(await loadFolderIndex(encryptionKey));
+    if (replayed.recovered > 0) {
+      toast.info(
+        `Recovered unsaved changes in ${replayed.recovered} ${replayed.recovered === 1 ? "note" : "notes"}`,
+      );
+    }
+  }, [encryptionKey, searchIndex]);
+
+  useEffect(() => () => searchIndex.clear(), [searchIndex]);
+
   useEffect(() => {
     if (!encryptionKey) {
       toast.error("Session expired or key is missing. Please log in again.");
       onLogout();
       return;
     }
-    setNotes(getNotes());
-  }, [encryptionKey, onLogout]);
+    reloadVault();
+  }, [encryptionKey, onLogout, reloadVault]);
 
-  const filteredNotes = notes.filter((note) => 
-    note.title.toLowerCase().includes(searchQuery.toLowerCase()),
+  const activeNoteIndex = Object.fromEntries(
+    Object.entries(titleIndex).filter(([, meta]) => !isTrashed(meta)),
+  );
+  const allTags = collectTags(activeNoteIndex);
+  const filteredNotes = notes.filter(
+    (note) =>
+      !isTrashed(titleIndex[note.id]) &&
+      matchesTags(titleIndex[note.id], selectedTags, tagMatchMode),
   );
+  const isSearching = searchQuery.trim() !== "" || searchLanguage !== "all";
+  const searchResults = isSearching
+    ? searchIndex
+        .search(searchQuery, {
+          language: searchLanguage === "all" ? undefined : searchLanguage,
+        })
+        .filter((result) =>
+          filteredNotes.some((note) => note.id === result.noteId),
+        )
+    : [];
+  const trashedNotes = notes
+    .filter((note) => isTrashed(titleIndex[note.id]))
+    .sort(
+      (a, b) =>
+        (titleIndex[b.id].deletedAt ?? 0) - (titleIndex[a.id].deletedAt ?? 0),
+    );
 
   const handleCreateNote = async () => {
     if (!encryptionKey) return;
 
+    const id = generateId();
     const emptyPayload: NoteContent = { content: "", snippets: [] };
-    const { encryptedData, iv } = await encryptData(
-      JSON.stringify(emptyPayload),
-      encryptionKey,
-    );
-
-    const newNote: Note = {
-      id: generateId(),
+    const meta: NoteMeta = {
       title: "Untitled Note",
-      encryptedContent: { data: encryptedData, iv: iv },
       language: "plaintext",
       createdAt: Date.now(),
       updatedAt: Date.now(),
     };
-
-    saveNote(newNote);
+    const newNote = await saveNote({
+      id,
+      encryptedContent: await encryptNoteField(
+        id,
+        "content",
+        emptyPayload,
+        encryptionKey,
+      ),
+      encryptedMeta: await encryptNoteField(id, "meta", meta, encryptionKey),
+    });
+    searchIndex.update(id, { title: meta.title, ...emptyPayload });
+    setIsTrashView(false);
     setNotes([...notes, newNote]);
+    setTitleIndex((prev) => ({ ...prev, [newNote.id]: meta }));
     await handleSelectNote(newNote);
     toast.success("New note created");
   };
 
   const handleSelectNote = async (note: Note) => {
     if (!encryptionKey) return;
-    if (hasUnsavedChanges && selectedNote) {
-      await handleSaveNote();
+    // Stay on the note if its edits could not be saved
+    if (hasUnsavedChanges && selectedNote && !(await handleSaveNote())) {
+      return;
     }
 
     try {
-      const decrypted = await decryptData(
-        note.encryptedContent.data,
-        encryptionKey,
-        note.encryptedContent.iv,
+      const parsed = migrateSnippets(
+        await decryptNoteField<NoteContent>(
+          note.id,
+          "content",
+          note.encryptedContent,
+          encryptionKey,
+        ),
       );
-      if (decrypted) {
-        const parsed: NoteContent = JSON.parse(decrypted);
-        setEditingContent(parsed.content || "");
-        setCodeSnippets(
-          (parsed.snippets || []).map((s) => ({
-            ...s,
-            isExpanded: false,
-          })),
-        );
-      }
+      setEditingContent(parsed.content || "");
+      setCodeSnippets(
+        (parsed.snippets || []).map((s) => ({
+          ...s,
+          isExpanded: false,
+        })),
+      );
+      baseSnapshot.current = {
+        title: titleIndex[note.id]?.title ?? "",
+        content: parsed.content || "",
+        snippets: parsed.snippets || [],
+      };
     } catch (error) {
       console.error("Decryption failed:", error);
       toast.error(
-        "Failed to decrypt note. The key might be wrong or data corrupted.",
+        error instanceof IntegrityError
+          ? "This note's content does not belong to it and may have been tampered with."
+          : "Failed to decrypt note. The key might be wrong or data corrupted.",
       );
       setEditingContent("");
       setCodeSnippets([]);
+      baseSnapshot.current = null;
     }
 
-    setEditingTitle(note.title);
+    setEditingTitle(titleIndex[note.id]?.title ?? "");
     setSelectedNote(note);
     setHasUnsavedChanges(false);
     setIsEditingNote(false);
   };
 
-  const handleSaveNote = async () => {
-    if (!selectedNote || !encryptionKey) return;
-
-    const snippetsToSave: CodeSnippet[] = codeSnippets.map(
-      ({ id, code, language }) => ({
+  const editorSnapshot = useMemo<NoteSnapshot>(
+    () => ({
+      title: editingTitle,
+      content: editingContent,
+      snippets: codeSnippets.map(({ id, label, code, language }) => ({
         id,
+        label,
         code,
         language,
-      }),
+      })),
+    }),
+    [editingTitle, editingContent, codeSnippets],
+  );
+  // The editor state as of the last render, for saves that finish later
+  const latestSnapshot = useRef(editorSnapshot);
+  // The stored version the editor's edits are based on, so edits made in
+  // another tab can be told apart from this tab's
+  const baseSnapshot = useRef<NoteSnapshot | null>(null);
+
+  const showSnapshot = (snapshot: NoteSnapshot) => {
+    setEditingTitle(snapshot.title);
+    setEditingContent(snapshot.content);
+    setCodeSnippets(snapshot.snippets.map((s) => ({ ...s, isExpanded: false })));
+  };
+
+  // Collaborators' edits land in the editor like the user's own
+  const handleRemoteEdit = (content: NoteContent) => {
+    setEditingContent(content.content);
+    setCodeSnippets((current) =>
+      content.snippets.map((s) => ({
+        ...s,
+        isExpanded: current.find((c) => c.id === s.id)?.isExpanded ?? false,
+      })),
     );
-    const payload: NoteContent = {
-      content: editingContent,
-      snippets: snippetsToSave,
-    };
-    const { encryptedData, iv } = await encryptData(
-      JSON.stringify(payload),
+    setHasUnsavedChanges(true);
+  };
+
+  const collab = useCollaboration(
+    selectedNote?.id ?? null,
+    selectedNote ? titleIndex[selectedNote.id]?.collab : undefined,
+    encryptionKey,
+    editingContent,
+    codeSnippets,
+    handleRemoteEdit,
+  );
+
+  /**
+   * Keeps the version being replaced in the note's history, then stores the
+   * new version. Edits made while the save was running stay unsaved. If
+   * another tab changed the note's content since this tab read it, nothing is
+   * stored and the conflict dialog opens instead.
+   * @returns Whether the version was stored.
+   */
+  const persistNote = async (
+    note: Note,
+    meta: NoteMeta,
+    snapshot: NoteSnapshot,
+    key: CryptoKey,
+    minIntervalMs = 0,
+  ): Promise<boolean> => {
+    let saved: { note: Note; meta: NoteMeta };
+    try {
+      saved = await saveNoteVersion(note, meta, snapshot, key, minIntervalMs);
+    } catch (error) {
+      if (!(error instanceof NoteConflictError)) throw error;
+      const stored = await loadStoredVersion(error.stored, key);
+      // Only its metadata changed elsewhere, or both tabs made the same edit;
+      // in a live session the other tab's edits are already merged into these
+      const isSameContent =
+        (baseSnapshot.current &&
+          snapshotsEqual(stored.snapshot, baseSnapshot.current)) ||
+        snapshotsEqual(stored.snapshot, snapshot) ||
+        (meta.collab !== undefined && collab.status === "live");
+      if (!isSameContent) {
+        setConflict({
+          note: error.stored,
+          meta: stored.meta,
+          theirs: stored.snapshot,
+          mine: snapshot,
+        });
+        return false;
+      }
+      saved = await saveNoteVersion(
+        error.stored,
+        stored.meta,
+        snapshot,
+        key,
+        minIntervalMs,
+      );
+    }
+
+    baseSnapshot.current = snapshot;
+    searchIndex.update(note.id, snapshot);
+    replaceNote(saved.note, saved.meta);
+    setSelectedNote((current) =>
+      current?.id === note.id ? saved.note : current,
+    );
+    if (snapshotsEqual(latestSnapshot.current, snapshot)) {
+      setHasUnsavedChanges(false);
+      await discardDraft(note.id);
+    }
+    return true;
+  };
+
+  const autosave = async () => {
+    if (!hasUnsavedChanges || !selectedNote || !encryptionKey || conflict) {
+      return;
+    }
+    await persistNote(
+      selectedNote,
+      titleIndex[selectedNote.id],
+      editorSnapshot,
       encryptionKey,
+      AUTOSAVE_REVISION_INTERVAL_MS,
     );
+  };
 
-    const updatedNote: Note = {
-      ...selectedNote,
-      title: editingTitle,
-      encryptedContent: { data: encryptedData, iv: iv },
-      updatedAt: Date.now(),
+  const {
+    status: saveStatus,
+    schedule: scheduleAutosave,
+    clearError: clearSaveError,
+  } = useAutosave(hasUnsavedChanges, autosave);
+
+  // Journal every change as an encrypted draft, then autosave once edits pause
+  const selectedNoteId = selectedNote?.id;
+  useEffect(() => {
+    latestSnapshot.current = editorSnapshot;
+    if (!hasUnsavedChanges || !selectedNoteId || !encryptionKey) return;
+    writeDraft(selectedNoteId, editorSnapshot, encryptionKey).catch((error) =>
+      console.error("Failed to write draft:", error),
+    );
+    scheduleAutosave();
+  }, [
+    editorSnapshot,
+    hasUnsavedChanges,
+    selectedNoteId,
+    encryptionKey,
+    scheduleAutosave,
+  ]);
+
+  useEffect(() => {
+    if (!hasUnsavedChanges) return;
+    const warnBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = "";
     };
+    window.addEventListener("beforeunload", warnBeforeUnload);
+    return () => window.removeEventListener("beforeunload", warnBeforeUnload);
+  }, [hasUnsavedChanges]);
+
+  /**
+   * Saves the editor's edits to the selected note.
+   * @returns Whether they were saved; false if saving failed or the note
+   * was changed in another tab.
+   */
+  const handleSaveNote = async (): Promise<boolean> => {
+    if (!selectedNote || !encryptionKey) return false;
 
-    saveNote(updatedNote);
-    setNotes(notes.map((n) => (n.id === updatedNote.id ? updatedNote : n)));
-    setSelectedNote(updatedNote);
+    try {
+      const isSaved = await persistNote(
+        selectedNote,
+        titleIndex[selectedNote.id],
+        editorSnapshot,
+        encryptionKey,
+      );
+      if (!isSaved) return false;
+      clearSaveError();
+      toast.success("Note saved");
+      return true;
+    } catch (error) {
+      console.error("Failed to save note:", error);
+      toast.error("Failed to save note");
+      return false;
+    }
+  };
+
+  const handleRestoreRevision = async (revision: NoteSnapshot) => {
+    if (!selectedNote || !encryptionKey) return;
+    const snapshot = migrateSnippets(revision, codeSnippets);
+
+    // Unsaved edits are kept as a version of their own before restoring
+    if (hasUnsavedChanges) {
+      await recordRevision(selectedNote.id, editorSnapshot, encryptionKey);
+    }
+    const isSaved = await persistNote(
+      selectedNote,
+      titleIndex[selectedNote.id],
+      snapshot,
+      encryptionKey,
+    );
+    if (!isSaved) return;
+    showSnapshot(snapshot);
     setHasUnsavedChanges(false);
-    toast.success("Note saved");
+    await discardDraft(selectedNote.id);
+    toast.success("Version restored");
+  };
+
+  const handleResolveConflict = async (resolution: ConflictResolution) => {
+    if (!conflict || !encryptionKey) return;
+    const { note, meta, theirs } = conflict;
+    // Resolve against the latest edits, which may be newer than the conflict's
+    const mine = latestSnapshot.current;
+
+    try {
+      if (resolution === "mine") {
+        // The other tab's version is kept in the history as it is replaced
+        baseSnapshot.current = theirs;
+        if (!(await persistNote(note, meta, mine, encryptionKey))) return;
+        toast.success("Kept your version");
+      } else if (resolution === "theirs") {
+        await recordRevision(note.id, mine, encryptionKey);
+        baseSnapshot.current = theirs;
+        replaceNote(note, meta);
+        setSelectedNote(note);
+        searchIndex.update(note.id, theirs);
+        showSnapshot(theirs);
+        setHasUnsavedChanges(false);
+        await discardDraft(note.id);
+        toast.success("Kept the other tab's version");
+      } else {
+        // The merge is saved on top of the other tab's version like any edit
+        baseSnapshot.current = theirs;
+        replaceNote(note, meta);
+        setSelectedNote(note);
+        showSnapshot(mergeSnapshots(theirs, mine));
+        setHasUnsavedChanges(true);
+        toast.info("Resolve the marked sections, then save");
+      }
+      setConflict(null);
+    } catch (error) {
+      console.error("Failed to resolve conflict:", error);
+      toast.error("Failed to resolve the conflict");
+    }
+  };
+
+  /**
+   * Applies a change another tab made to the vault. The open note is only
+   * reloaded if it has no unsaved edits; otherwise the next save detects the
+   * conflict.
+   */
+  const handleVaultChange = async (change: VaultChange) => {
+    if (!encryptionKey) return;
+
+    if (change.type === "folders") {
+      setFolderIndex(await loadFolderIndex(encryptionKey));
+      return;
+    }
+
+    if (change.type === "note-deleted") {
+      searchIndex.remove(change.id);
+      setNotes((prev) => prev.filter((n) => n.id !== change.id));
+      setTitleIndex(({ [change.id]: _removed, ...rest }) => rest);
+      if (selectedNote?.id === change.id) {
+        setSelectedNote(null);
+        setEditingContent("");
+        setCodeSnippets([]);
+        setEditingTitle("");
+        setHasUnsavedChanges(false);
+        toast.info("The open note was deleted in another tab");
+      }
+      return;
+    }
+
+    const known = notes.find((n) => n.id === change.id);
+    if ((known?.revision ?? 0) >= change.revision) return;
+    const editing = latestSnapshot.current;
+    const note = await getNote(change.id);
+    if (!note) return;
+    const stored = await loadStoredVersion(note, encryptionKey);
+
+    searchIndex.update(note.id, stored.snapshot);
+    setNotes((prev) =>
+      prev.some((n) => n.id === note.id)
+        ? prev.map((n) => (n.id === note.id ? note : n))
+        : [...prev, note],
+    );
+    setTitleIndex((prev) => ({ ...prev, [note.id]: stored.meta }));
+    // Typing while the note was decrypted counts as an unsaved edit
+    const isUntouched = !hasUnsavedChanges && latestSnapshot.current === editing;
+    // A note in a live session gets the other tab's edits from the session
+    if (selectedNote?.id === note.id && isUntouched && !stored.meta.collab) {
+      baseSnapshot.current = stored.snapshot;
+      setSelectedNote(note);
+      showSnapshot(stored.snapshot);
+    }
   };
 
-  const handleDeleteNote = (id: string) => {
-    deleteNote(id);
-    setNotes(notes.filter((n) => n.id !== id));
+  const vaultChangeHandler = useRef(handleVaultChange);
+  vaultChangeHandler.current = handleVaultChange;
+
+  useEffect(() => {
+    const vaultId = getActiveVaultId();
+    if (!vaultId || !encryptionKey) return;
+    return subscribeToChanges(vaultId, (change) => {
+      vaultChangeHandler.current(change).catch((error) =>
+        console.error("Failed to apply a change from another tab:", error),
+      );
+    });
+  }, [encryptionKey]);
+
+  // Changes pulled from other devices are applied like another tab's
+  const sync = useSync(encryptionKey, (changes) => {
+    for (const change of changes) {
+      vaultChangeHandler.current(change).catch((error) =>
+        console.error("Failed to apply a synced change:", error),
+      );
+    }
+  });
+
+  const replaceNote = (note: Note, meta: NoteMeta) => {
+    setNotes((prev) => prev.map((n) => (n.id === note.id ? note : n)));
+    setTitleIndex((prev) => ({ ...prev, [note.id]: meta }));
+  };
+
+  /**
+   * Moves the open note on to a revision this tab saved from `from`. An open
+   * copy that is already older than `from` is left behind, so its next save
+   * still detects the other tab's edits.
+   */
+  const advanceSelectedNote = (from: Note, to: Note) => {
+    setSelectedNote((current) =>
+      current?.id === from.id && current.revision === from.revision
+        ? to
+        : current,
+    );
+  };
+
+  const handleDeleteNote = async (id: string) => {
+    const note = notes.find((n) => n.id === id);
+    if (!note || !encryptionKey) return;
+
+    if (selectedNote?.id === id && hasUnsavedChanges) {
+      await handleSaveNote();
+    }
+    const trashed = await moveNoteToTrash(note, titleIndex[id], encryptionKey);
+    replaceNote(trashed.note, trashed.meta);
     if (selectedNote?.id === id) {
       setSelectedNote(null);
       setEditingContent("");
       setCodeSnippets([]);
       setEditingTitle("");
     }
-    toast.success("Note deleted");
+    toast.success("Note moved to trash");
+  };
+
+  const handleRestoreNote = async (note: Note) => {
+    if (!encryptionKey) return;
+    try {
+      const restored = await restoreNoteFromTrash(
+        note,
+        titleIndex[note.id],
+        encryptionKey,
+      );
+      replaceNote(restored.note, restored.meta);
+      toast.success("Note restored");
+    } catch (error) {
+      console.error("Failed to restore note:", error);
+      toast.error("Failed to restore note");
+    }
+  };
+
+  const handleDeleteForever = async (note: Note) => {
+    await deleteNote(note.id);
+    searchIndex.remove(note.id);
+    setNotes((prev) => prev.filter((n) => n.id !== note.id));
+    setTitleIndex(({ [note.id]: _removed, ...rest }) => rest);
+    toast.success("Note deleted forever");
+  };
+
+  const handleCreateFolder = (parentId: string | null) => {
+    setFolderDialog({
+      title: parentId ? "New Subfolder" : "New Folder",
+      initialName: "",
+      confirmText: "Create",
+      onConfirm: async (name) => {
+        if (!encryptionKey) return;
+        const { id, meta } = await createFolder(name, parentId, encryptionKey);
+        setFolderIndex((prev) => ({ ...prev, [id]: meta }));
+      },
+    });
+  };
+
+  const handleRenameFolder = (folderId: string) => {
+    setFolderDialog({
+      title: "Rename Folder",
+      initialName: folderIndex[folderId]?.name ?? "",
+      confirmText: "Rename",
+      onConfirm: async (name) => {
+        if (!encryptionKey) return;
+        const meta: FolderMeta = { ...folderIndex[folderId], name };
+        await updateFolder(folderId, meta, encryptionKey);
+        setFolderIndex((prev) => ({ ...prev, [folderId]: meta }));
+      },
+    });
+  };
+
+  const handleMoveNote = async (noteId: string, folderId: string | null) => {
+    const note = notes.find((n) => n.id === noteId);
+    if (!note || !encryptionKey) return;
+    if ((titleIndex[noteId]?.folderId ?? null) === folderId) return;
+
+    try {
+      const moved = await moveNoteToFolder(
+        note,
+        titleIndex[noteId],
+        folderId,
+        encryptionKey,
+      );
+      replaceNote(moved.note, moved.meta);
+      advanceSelectedNote(note, moved.note);
+    } catch (error) {
+      console.error("Failed to move note:", error);
+      toast.error("Failed to move note");
+    }
+  };
+
+  const handleMoveFolder = async (
+    folderId: string,
+    parentId: string | null,
+  ) => {
+    if (!encryptionKey) return;
+    if ((folderIndex[folderId]?.parentId ?? null) === parentId) return;
+
+    const meta = await moveFolder(folderId, parentId, folderIndex, encryptionKey);
+    if (!meta) {
+      toast.error("A folder cannot be moved into itself");
+      return;
+    }
+    setFolderIndex((prev) => ({ ...prev, [folderId]: meta }));
+  };
+
+  const handleDeleteFolder = async (folderId: string) => {
+    if (!encryptionKey) return;
+    if (hasUnsavedChanges && selectedNote) {
+      await handleSaveNote();
+    }
+    try {
+      await removeFolder(
+        folderId,
+        folderIndex,
+        notes,
+        titleIndex,
+        encryptionKey,
+      );
+      await reloadVault();
+      toast.success("Folder deleted; its contents moved up a level");
+    } catch (error) {
+      console.error("Failed to delete folder:", error);
+      toast.error("Failed to delete folder");
+    }
+  };
+
+  const handleSetTags = async (tags: string[]) => {
+    if (!selectedNote || !encryptionKey) return;
+    // The listed copy is current even when the open one awaits a conflict
+    const note = notes.find((n) => n.id === selectedNote.id) ?? selectedNote;
+    try {
+      const updated = await setNoteTags(
+        note,
+        titleIndex[note.id],
+        tags,
+        encryptionKey,
+      );
+      replaceNote(updated.note, updated.meta);
+      advanceSelectedNote(note, updated.note);
+    } catch (error) {
+      console.error("Failed to update tags:", error);
+      toast.error("Failed to update tags");
+    }
+  };
+
+  const handleStartCollab = async (relayUrl: string, name: string) => {
+    if (!selectedNote || !encryptionKey) return;
+    const note = notes.find((n) => n.id === selectedNote.id) ?? selectedNote;
+    const { title: _title, ...content } = editorSnapshot;
+    const updated = await shareNote(
+      note,
+      titleIndex[note.id],
+      content,
+      { relayUrl, name },
+      encryptionKey,
+    );
+    replaceNote(updated.note, updated.meta);
+    advanceSelectedNote(note, updated.note);
+  };
+
+  const handleStopCollab = async () => {
+    if (!selectedNote || !encryptionKey) return;
+    const note = notes.find((n) => n.id === selectedNote.id) ?? selectedNote;
+    const updated = await stopSharingNote(
+      note,
+      titleIndex[note.id],
+      encryptionKey,
+    );
+    replaceNote(updated.note, updated.meta);
+    advanceSelectedNote(note, updated.note);
+  };
+
+  const handleJoinCollab = async (
+    invite: Pick<CollabLink, "relayUrl" | "key">,
+    name: string,
+  ) => {
+    if (!encryptionKey) return;
+    const joined = await joinSharedNote(invite, name, encryptionKey);
+    searchIndex.update(joined.note.id, {
+      title: joined.meta.title,
+      content: "",
+      snippets: [],
+    });
+    setIsTrashView(false);
+    setNotes((prev) => [...prev, joined.note]);
+    setTitleIndex((prev) => ({ ...prev, [joined.note.id]: joined.meta }));
+    await handleSelectNote(joined.note);
+    toast.success("Joined. The note fills in once a collaborator is online.");
+  };
+
+  const handleToggleTagFilter = (tag: string) => {
+    setSelectedTags((prev) =>
+      prev.includes(tag) ? prev.filter((t) => t !== tag) : [...prev, tag],
+    );
+  };
+
+  const handleRenameTag = async (from: string, to: string | null) => {
+    if (!encryptionKey) return;
+    try {
+      const updated = await renameTag(
+        from,
+        to,
+        notes,
+        titleIndex,
+        encryptionKey,
+      );
+      updated.forEach(({ note, meta }) => {
+        const previous = notes.find((n) => n.id === note.id);
+        replaceNote(note, meta);
+        if (previous) advanceSelectedNote(previous, note);
+      });
+
+      const target = to === null ? null : normaliseTag(to);
+      setSelectedTags((prev) => {
+        const next = prev.flatMap((tag) =>
+          tag !== from ? [tag] : target ? [target] : [],
+        );
+        return [...new Set(next)];
+      });
+      toast.success(
+        to === null
+          ? `Removed "${from}" from ${updated.length} ${updated.length === 1 ? "note" : "notes"}`
+          : `Updated ${updated.length} ${updated.length === 1 ? "note" : "notes"}`,
+      );
+    } catch (error) {
+      console.error("Failed to update tag:", error);
+      toast.error("Failed to update tag");
+      throw error;
+    }
+  };
+
+  const handleTrashRetentionChange = (days: number) => {
+    setTrashRetentionDays(days);
+    saveSettings({ ...getSettings(), trashRetentionDays: days });
   };
 
   const handleLogout = async () => {
@@ -240,14 +1033,106 @@ export const Dashboard = ({ onLogout }: DashboardProps) => {
       await handleSaveNote();
     }
     clearSession();
+    await forgetTabSession();
     onLogout();
   };
 
+  const handleLock = async () => {
+    if (hasUnsavedChanges && selectedNote) {
+      await handleSaveNote();
+    }
+    clearSession();
+    await forgetTabSession();
+    onLock();
+  };
+
+  useIdleTimer(autoLockMinutes * 60 * 1000, handleLock);
+
+  const handleAutoLockChange = (value: string) => {
+    const minutes = Number(value);
+    setAutoLockMinutes(minutes);
+    saveSettings({ ...getSettings(), autoLockMinutes: minutes });
+  };
+
+  const handleRegenerateRecoveryPhrase = () => {
+    const regenerateAction = async (password: string) => {
+      const user = getUser();
+      if (!user) return;
+      try {
+        const result = await regenerateRecoveryPhrase(user, password);
+        if (!result) {
+          toast.error("Incorrect password");
+          return;
+        }
+        setRecoveryPhrase(result.recoveryPhrase);
+      } catch (error) {
+        console.error("Failed to regenerate recovery phrase:", error);
+        toast.error("Failed to create a new recovery phrase");
+      }
+    };
+
+    setPasswordDialogOptions({
+      title: "New Recovery Phrase",
+      description:
+        "Enter your password to create a new recovery phrase. Your previous phrase will stop working.",
+      onConfirm: regenerateAction,
+    });
+    setIsPasswordDialogOpen(true);
+  };
+
+  const applyWipeAfterFailures = (failures: number) => {
+    const user = getUser();
+    if (!user) return;
+    saveUser({ ...user, wipeAfterFailures: failures });
+    setWipeAfterFailures(failures);
+    toast.success(
+      failures
+        ? `The vault will be erased after ${failures} failed logins`
+        : "Automatic wipe turned off",
+    );
+  };
+
+  const handleWipeAfterChange = (value: string) => {
+    const failures = Number(value);
+    if (failures === 0) {
+      applyWipeAfterFailures(0);
+    } else {
+      setPendingWipeAfter(failures);
+    }
+  };
+
+  const handleDeleteVault = () => {
+    const deleteAction = async (password: string) => {
+      const user = getUser();
+      const vaultId = getActiveVaultId();
+      if (!user || !vaultId) return;
+      try {
+        if (!(await unlockVault(user, password))) {
+          toast.error("Incorrect password");
+          return;
+        }
+        await forgetTabSession();
+        await deleteVault(vaultId);
+        toast.success("Vault deleted");
+        onLogout();
+      } catch (error) {
+        console.error("Failed to delete vault:", error);
+        toast.error("Failed to delete vault");
+      }
+    };
+
+    setPasswordDialogOptions({
+      title: "Delete Vault",
+      description:
+        "Enter your password to permanently delete this vault and all of its notes from this device. This cannot be undone.",
+      onConfirm: deleteAction,
+    });
+    setIsPasswordDialogOpen(true);
+  };
+
   const addCodeSnippet = () => {
     const newSnippet: ExpandedCodeSnippet = {
-      id: `code${codeSnippets.length + 1}`,
-      code: "",
-      language: "javascript",
+      ...createSnippet(codeSnippets, "javascript"),
       isExpanded: true,
     };
     setCodeSnippets([...codeSnippets, newSnippet]);
@@ -261,9 +1146,41 @@ export const Dashboard = ({ onLogout }: DashboardProps) => {
     setHasUnsavedChanges(true);
   };
 
+  const renameSnippet = (id: string, label: string) => {
+    const snippet = codeSnippets.find((s) => s.id === id);
+    if (!snippet || label === snippet.label) return;
+    if (!isValidSnippetLabel(label)) {
+      toast.error("Snippet labels may only use letters, digits, - and _");
+      return;
+    }
+    if (codeSnippets.some((s) => s.id !== id && s.label === label)) {
+      toast.error(`Another snippet is already labelled "${label}"`);
+      return;
+    }
+    setCodeSnippets((snippets) =>
+      snippets.map((s) => (s.id === id ? { ...s, label } : s)),
+    );
+    setEditingContent((prev) =>
+      renameSnippetReferences(prev, snippet.label, label),
+    );
+    setHasUnsavedChanges(true);
+  };
+
   const removeSnippet = (id: string) => {
+    const snippet = codeSnippets.find((s) => s.id === id);
+    if (!snippet) return;
+    const { content, removed } = removeSnippetReferences(
+      editingContent,
+      snippet.label,
+    );
     setCodeSnippets((snippets) => snippets.filter((s) => s.id !== id));
+    setEditingContent(content);
     setHasUnsavedChanges(true);
+    if (removed > 0) {
+      toast.info(
+        `Removed ${removed} ${removed === 1 ? "reference" : "references"} to [${snippet.label}]`,
+      );
+    }
   };
 
   const toggleSnippet = (id: string) => {
@@ -274,8 +1191,8 @@ export const Dashboard = ({ onLogout }: DashboardProps) => {
     );
   };
 
-  const insertCodeTag = (snippetId: string) => {
-    const tag = `[${snippetId}]`;
+  const insertCodeTag = (label: string) => {
+    const tag = `[${label}]`;
     setEditingContent((prev) => prev + tag);
     setHasUnsavedChanges(true);
   };
@@ -286,8 +1203,9 @@ export const Dashboard = ({ onLogout }: DashboardProps) => {
         const payload: SharePayload = {
           title: editingTitle,
           content: editingContent,
-          snippets: codeSnippets.map(({ id, code, language }) => ({
+          snippets: codeSnippets.map(({ id, label, code, language }) => ({
             id,
+            label,
             code,
             language,
           })),
@@ -322,46 +1240,22 @@ export const Dashboard = ({ onLogout }: DashboardProps) => {
       return;
     }
     try {
-      const salt = generateSalt();
-      const cryptoKey = await deriveKey(password, new Uint8Array(salt).buffer);
-      
       const dataToExport: NoteContent = {
         content: editingContent,
-        snippets: codeSnippets.map(({ id, code, language }) => ({
+        snippets: codeSnippets.map(({ id, label, code, language }) => ({
           id,
+          label,
           code,
           language,
         })),
       };
-      const { encryptedData, iv } = await encryptData(
+      const envelope = await sealEnvelopeWithPassword(
         JSON.stringify(dataToExport),
-        cryptoKey,  // Pass the CryptoKey directly
+        password,
+        EXPORT_AAD,
       );
 
-        const blob = new Blob(
-          [
-            JSON.stringify(
-              {
-                encryptedData,
-                iv,
-                salt: Array.from(salt),
-                version: "2.0-export",
-              },
-              null,
-              2,
-            ),
-          ],
-          { type: "application/json" },
-        );
-
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement("a");
-        a.href = url;
-        a.download = `secure-note-${editingTitle.replace(/[^a-z0-9]/gi, "-").toLowerCase()}.snote`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
+        downloadSnote(envelope, `secure-note-${slugify(editingTitle)}.snote`);
 
         toast.success("Note exported securely!");
       } catch (error) {
@@ -379,6 +1273,42 @@ export const Dashboard = ({ onLogout }: DashboardProps) => {
     setIsPasswordDialogOpen(true);
   };
 
+  const handleExportFolder = (folderId: string) => {
+    const exportAction = async (password: string) => {
+      if (!password || !encryptionKey) {
+        toast.error("A password is required for secure export.");
+        return;
+      }
+      try {
+        const data = await buildFolderExport(
+          folderId,
+          folderIndex,
+          notes,
+          titleIndex,
+          encryptionKey,
+        );
+        const envelope = await sealEnvelopeWithPassword(
+          JSON.stringify(data),
+          password,
+          FOLDER_EXPORT_AAD,
+        );
+        downloadSnote(envelope, `secure-folder-${slugify(data.name)}.snote`);
+        toast.success("Folder exported securely!");
+      } catch (error) {
+        console.error("Folder export failed:", error);
+        toast.error("Failed to export folder");
+      }
+    };
+
+    setPasswordDialogOptions({
+      title: "Set Export Password",
+      description:
+        "This password will be required to decrypt the exported folder.",
+      onConfirm: exportAction,
+    });
+    setIsPasswordDialogOpen(true);
+  };
+
   const handleFileImport = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -389,25 +1319,43 @@ export const Dashboard = ({ onLogout }: DashboardProps) => {
       try {
         if (file.name.endsWith(".snote")) {
           const importAction = async (password: string) => {
+            if (!encryptionKey) return;
             if (!password) {
               toast.error("Password is required to import this file.");
               return;
             }
             try {
-              const parsed = JSON.parse(content);
-              const salt = new Uint8Array(parsed.salt);
-              const key = await deriveKey(password, new Uint8Array(salt).buffer);
-              const decrypted = await decryptData(
-                parsed.encryptedData,
-                key,
-                parsed.iv,
-              );
+              const envelope = parseEnvelope(content);
+              const key = await deriveEnvelopeKey(password, envelope);
+              if (envelope.aad === FOLDER_EXPORT_AAD) {
+                const decrypted = await openEnvelope(
+                  envelope,
+                  key,
+                  FOLDER_EXPORT_AAD,
+                );
+                const folder: FolderExport = JSON.parse(decrypted);
+                const count = await importFolderExport(
+                  folder,
+                  null,
+                  encryptionKey,
+                );
+                await reloadVault();
+                toast.success(
+                  `Imported "${folder.name}" with ${count} ${count === 1 ? "note" : "notes"}`,
+                );
+                return;
+              }
+              const decrypted = await openEnvelope(envelope, key, EXPORT_AAD);
               const importedData: NoteContent = JSON.parse(decrypted);
               await createNoteFromData(importedData);
               toast.success("Secure note imported successfully!");
             } catch (err) {
               console.error(err);
-              toast.error("Import failed. Invalid password or corrupted file.");
+              toast.error(
+                err instanceof EnvelopeFormatError
+                  ? `Import failed. ${err.message}`
+                  : "Import failed. Invalid password or corrupted file.",
+              );
             }
           };
           setPasswordDialogOptions({
@@ -435,78 +1383,96 @@ export const Dashboard = ({ onLogout }: DashboardProps) => {
 
   const createNoteFromData = async (data: ImportedNote, title?: string) => {
     if (!encryptionKey) return;
-    const payload: NoteContent = {
+    const payload: NoteContent = migrateSnippets({
       content: data.content || "",
       snippets: data.snippets || [],
-    };
-    const { encryptedData, iv } = await encryptData(
-      JSON.stringify(payload),
-      encryptionKey,
-    );
-    const newNote: Note = {
-      id: generateId(),
+    });
+    const id = generateId();
+    const meta: NoteMeta = {
       title: title || data.title || "Imported Note",
-      encryptedContent: { data: encryptedData, iv: iv },
       language: "plaintext",
       createdAt: data.createdAt || Date.now(),
       updatedAt: Date.now(),
     };
-    saveNote(newNote);
-    setNotes((prev) => [...prev, newNote]);
-  };
-
-  const renderContentWithTags = () => {
-    const parts = editingContent.split(/(\[code\d+\])/g);
-    return parts.map((part, index) => {
-      const match = part.match(/\[(code\d+)\]/);
-      if (match) {
-        const snippetId = match[1];
-        const snippet = codeSnippets.find((s) => s.id === snippetId);
-        if (snippet) {
-          return (
-            <button
-              key={index}
-              onClick={(e) => {
-                e.stopPropagation();
-                toggleSnippet(snippetId);
-              }}
-              className="inline-flex items-center gap-1 px-2 py-0.5 mx-1 rounded bg-primary/20 text-primary text-xs font-mono hover:bg-primary/30 transition-colors cursor-pointer"
-            >
-              <Code2 className="w-3 h-3" />
-              {snippetId}
-            </button>
-          );
-        }
-        return (
-          <span
-            key={index}
-            className="inline-flex items-center gap-1 px-2 py-0.5 mx-1 rounded bg-muted text-muted-foreground text-xs font-mono"
-          >
-            <Code2 className="w-3 h-3" />
-            {snippetId}
-          </span>
-        );
-      }
-      return <span key={index}>{part}</span>;
+    const newNote = await saveNote({
+      id,
+      encryptedContent: await encryptNoteField(
+        id,
+        "content",
+        payload,
+        encryptionKey,
+      ),
+      encryptedMeta: await encryptNoteField(id, "meta", meta, encryptionKey),
     });
+    searchIndex.update(id, { title: meta.title, ...payload });
+    setNotes((prev) => [...prev, newNote]);
+    setTitleIndex((prev) => ({ ...prev, [newNote.id]: meta }));
   };
 
   return (
     <SidebarProvider>
       <Sidebar>
         <SidebarHeader>
-          <h1 className="text-sm font-semibold text-foreground px-2">Notes</h1>
+          <h1 className="text-sm font-semibold text-foreground px-2">
+            {isTrashView ? "Trash" : "Notes"}
+          </h1>
         </SidebarHeader>
         <SidebarContent>
             {/* Search bar */}
-          <div className="px-2 pb-2 pt-2">
+          {!isTrashView && (
+          <div className="px-2 pb-2 pt-2 space-y-1.5">
             <Input
-              placeholder="Search notes..."
+              placeholder='Search notes... ("phrase", prefix*)'
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               className="h-8 text-sm"
             />
+            <Select value={searchLanguage} onValueChange={setSearchLanguage}>
+              <SelectTrigger className="h-7 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Notes and all snippets</SelectItem>
+                {LANGUAGES.map((lang) => (
+                  <SelectItem key={lang.value} value={lang.value}>
+                    {lang.label} snippets only
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
+          )}
+          {!isTrashView && (
+            <TagFilter
+              tags={allTags}
+              selected={selectedTags}
+              mode={tagMatchMode}
+              onToggle={handleToggleTagFilter}
+              onModeChange={setTagMatchMode}
+              onClear={() => setSelectedTags([])}
+              onManage={() => setIsTagManagerOpen(true)}
+            />
+          )}
+          {isTrashView ? (
+            <TrashList
+              notes={trashedNotes}
+              titleIndex={titleIndex}
+              retentionDays={trashRetentionDays}
+              onRetentionChange={handleTrashRetentionChange}
+              onRestore={handleRestoreNote}
+              onDeleteForever={handleDeleteForever}
+            />
+          ) : isSearching ? (
+            <SearchResults
+              results={searchResults}
+              titleIndex={titleIndex}
+              selectedNoteId={selectedNote?.id ?? null}
+              onSelectNote={(noteId) => {
+                const note = notes.find((n) => n.id === noteId);
+                if (note) handleSelectNote(note);
+              }}
+            />
+          ) : selectedTags.length > 0 ? (
           <SidebarMenu>
            {filteredNotes.map((note) => (
   <SidebarMenuItem key={note.id}>
@@ -516,12 +1482,27 @@ export const Dashboard = ({ onLogout }: DashboardProps) => {
       className="w-full"
     >
       <FileText className="w-4 h-4" />
-      <span className="truncate">{note.title}</span>
+      <span className="truncate">{titleIndex[note.id]?.title}</span>
     </SidebarMenuButton>
   </SidebarMenuItem>
 ))}
 
           </SidebarMenu>
+          ) : (
+            <FolderTree
+              notes={filteredNotes}
+              titleIndex={titleIndex}
+              folderIndex={folderIndex}
+              selectedNoteId={selectedNote?.id ?? null}
+              onSelectNote={handleSelectNote}
+              onMoveNote={handleMoveNote}
+              onMoveFolder={handleMoveFolder}
+              onCreateFolder={handleCreateFolder}
+              onRenameFolder={handleRenameFolder}
+              onExportFolder={handleExportFolder}
+              onDeleteFolder={handleDeleteFolder}
+            />
+          )}
         </SidebarContent>
         <SidebarSeparator />
         <SidebarFooter>
@@ -531,6 +1512,36 @@ export const Dashboard = ({ onLogout }: DashboardProps) => {
                 <Plus className="w-4 h-4 mr-2" /> New Note
               </SidebarMenuButton>
             </SidebarMenuItem>
+            <SidebarMenuItem>
+              <SidebarMenuButton
+                onClick={() => setIsJoinCollabOpen(true)}
+                className="w-full"
+              >
+                <Users className="w-4 h-4 mr-2" /> Join Live Note
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+            <SidebarMenuItem>
+              <SidebarMenuButton
+                onClick={() => handleCreateFolder(null)}
+                className="w-full"
+              >
+                <FolderPlus className="w-4 h-4 mr-2" /> New Folder
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+            <SidebarMenuItem>
+              <SidebarMenuButton
+                onClick={() => setIsTrashView(!isTrashView)}
+                isActive={isTrashView}
+                className="w-full"
+              >
+                <Trash2 className="w-4 h-4 mr-2" /> Trash
+                {trashedNotes.length > 0 && (
+                  <span className="ml-auto text-xs text-muted-foreground">
+                    {trashedNotes.length}
+                  </span>
+                )}
+              </SidebarMenuButton>
+            </SidebarMenuItem>
             <SidebarMenuItem>
               <SidebarMenuButton
                 onClick={handleSecureExport}
@@ -555,6 +1566,89 @@ export const Dashboard = ({ onLogout }: DashboardProps) => {
               onChange={handleFileImport}
               className="hidden"
             />
+            <SidebarMenuItem>
+              <SidebarMenuButton
+                onClick={() => setIsChangePasswordOpen(true)}
+                className="w-full"
+              >
+                <KeyRound className="w-4 h-4 mr-2" /> Change Password
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+            <SidebarMenuItem>
+              <SidebarMenuButton
+                onClick={handleRegenerateRecoveryPhrase}
+                className="w-full"
+              >
+                <LifeBuoy className="w-4 h-4 mr-2" /> Recovery Phrase
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+            <SidebarMenuItem>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <SidebarMenuButton className="w-full">
+                    <Vault className="w-4 h-4 mr-2" /> Vault
+                  </SidebarMenuButton>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent side="top" align="start">
+                  <DropdownMenuItem onClick={() => setIsRenameVaultOpen(true)}>
+                    Rename vault
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setIsSyncDialogOpen(true)}>
+                    Sync devices
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={handleDeleteVault}
+                    className="text-destructive focus:text-destructive"
+                  >
+                    Delete vault
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuLabel>Erase vault after</DropdownMenuLabel>
+                  <DropdownMenuRadioGroup
+                    value={String(wipeAfterFailures)}
+                    onValueChange={handleWipeAfterChange}
+                  >
+                    {WIPE_AFTER_OPTIONS.map((option) => (
+                      <DropdownMenuRadioItem
+                        key={option.value}
+                        value={String(option.value)}
+                      >
+                        {option.label}
+                      </DropdownMenuRadioItem>
+                    ))}
+                  </DropdownMenuRadioGroup>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </SidebarMenuItem>
+            <SidebarMenuItem>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <SidebarMenuButton className="w-full">
+                    <Lock className="w-4 h-4 mr-2" /> Lock
+                  </SidebarMenuButton>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent side="top" align="start">
+                  <DropdownMenuItem onClick={handleLock}>
+                    Lock now
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuLabel>Auto-lock after</DropdownMenuLabel>
+                  <DropdownMenuRadioGroup
+                    value={String(autoLockMinutes)}
+                    onValueChange={handleAutoLockChange}
+                  >
+                    {AUTO_LOCK_OPTIONS.map((option) => (
+                      <DropdownMenuRadioItem
+                        key={option.value}
+                        value={String(option.value)}
+                      >
+                        {option.label}
+                      </DropdownMenuRadioItem>
+                    ))}
+                  </DropdownMenuRadioGroup>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </SidebarMenuItem>
             <SidebarMenuItem>
               <SidebarMenuButton onClick={handleLogout} className="w-full">
                 <LogOut className="w-4 h-4 mr-2" /> Logout
@@ -590,6 +1684,7 @@ export const Dashboard = ({ onLogout }: DashboardProps) => {
                 />
               </div>
               <div className="flex items-center gap-2">
+                <SaveStatusIndicator status={saveStatus} />
                 <Button
                   onClick={handleSecureShare}
                   variant="outline"
@@ -598,6 +1693,27 @@ export const Dashboard = ({ onLogout }: DashboardProps) => {
                 >
                   <Share2 className="w-4 h-4" />
                 </Button>
+                <Button
+                  onClick={() => setIsCollabDialogOpen(true)}
+                  variant={
+                    titleIndex[selectedNote.id]?.collab ? "secondary" : "outline"
+                  }
+                  size="sm"
+                  title="Live editing"
+                >
+                  <Users className="w-4 h-4" />
+                  {collab.peers.length > 0 && (
+                    <span className="text-xs">{collab.peers.length + 1}</span>
+                  )}
+                </Button>
+                <Button
+                  onClick={() => setIsHistoryOpen(true)}
+                  variant="outline"
+                  size="sm"
+                  title="Version history"
+                >
+                  <History className="w-4 h-4" />
+                </Button>
                 <Button onClick={handleSaveNote} size="sm">
                   <Save className="w-4 h-4 mr-2" />
                   Save
@@ -612,6 +1728,13 @@ export const Dashboard = ({ onLogout }: DashboardProps) => {
                 </Button>
               </div>
             </div>
+            <div className="px-4 sm:px-6 py-2 border-b border-border">
+              <TagInput
+                tags={titleIndex[selectedNote.id]?.tags ?? []}
+                suggestions={allTags.map(({ tag }) => tag)}
+                onChange={handleSetTags}
+              />
+            </div>
             <div className="flex-1 overflow-y-auto p-4 sm:p-6 scrollbar-thin w-full">
               <div className="max-w-3xl w-full mx-auto space-y-4">
                 <div className="space-y-2">
@@ -631,18 +1754,41 @@ export const Dashboard = ({ onLogout }: DashboardProps) => {
                   {isEditingNote ? (
                     <div className="space-y-2">
                       <span className="text-xs text-muted-foreground">
-                        Use [code1], [code2]... to reference snippets
+                        Markdown is supported. Use [code1], [code2]... to
+                        place snippets
                       </span>
-                      <textarea
-                        value={editingContent}
-                        onChange={(e) => {
-                          setEditingContent(e.target.value);
-                          setHasUnsavedChanges(true);
-                        }}
-                        placeholder="Write your notes here... Use [code1], [code2] etc. to reference code snippets below."
-                        className="w-full min-h-[280px] bg-card rounded-lg p-4 text-sm text-foreground placeholder:text-muted-foreground resize-y focus:outline-none focus:ring-1 focus:ring-primary/30 border border-border"
-                        autoFocus
-                      />
+                      <ResizablePanelGroup
+                        direction="horizontal"
+                        className="min-h-[280px] rounded-lg border border-border"
+                      >
+                        <ResizablePanel defaultSize={50} minSize={25}>
+                          <CollaborativeTextarea
+                            value={editingContent}
+                            onChange={(value) => {
+                              setEditingContent(value);
+                              setHasUnsavedChanges(true);
+                            }}
+                            remoteCursors={collab.peers.filter(
+                              (peer) => peer.cursor?.field === "content",
+                            )}
+                            onSelectionChange={(anchor, head) =>
+                              collab.setSelection("content", anchor, head)
+                            }
+                            placeholder="Write your notes in Markdown... Use [code1], [code2] etc. to place code snippets below."
+                            className="w-full h-full min-h-[280px] bg-card p-4 text-sm font-mono text-foreground placeholder:text-muted-foreground resize-none focus:outline-none"
+                            autoFocus
+                          />
+                        </ResizablePanel>
+                        <ResizableHandle withHandle />
+                        <ResizablePanel defaultSize={50} minSize={25}>
+                          <div className="h-full overflow-y-auto bg-card p-4">
+                            <MarkdownContent
+                              content={editingContent}
+                              snippets={codeSnippets}
+                            />
+                          </div>
+                        </ResizablePanel>
+                      </ResizablePanelGroup>
                     </div>
                   ) : (
                     <div
@@ -650,16 +1796,17 @@ export const Dashboard = ({ onLogout }: DashboardProps) => {
                       onClick={() => !editingContent && setIsEditingNote(true)}
                     >
                       {editingContent ? (
-                        <div className="whitespace-pre-wrap leading-relaxed">
-                          {renderContentWithTags()}
-                        </div>
+                        <MarkdownContent
+                          content={editingContent}
+                          snippets={codeSnippets}
+                        />
                       ) : (
                         <span
                           className="text-muted-foreground"
                           onClick={() => setIsEditingNote(true)}
                         >
-                          Click to add notes... Use [code1], [code2] etc. to
-                          reference code snippets.
+                          Click to add notes... Markdown is supported, and
+                          [code1], [code2] etc. place code snippets.
                         </span>
                       )}
                     </div>
@@ -694,9 +1841,45 @@ export const Dashboard = ({ onLogout }: DashboardProps) => {
                           ) : (
                             <ChevronRight className="w-4 h-4 text-muted-foreground" />
                           )}
-                          <span className="text-sm font-mono text-primary">
-                            [{snippet.id}]
-                          </span>
+                          {editingLabel?.id === snippet.id ? (
+                            <Input
+                              value={editingLabel.value}
+                              onChange={(e) =>
+                                setEditingLabel({
+                                  id: snippet.id,
+                                  value: e.target.value,
+                                })
+                              }
+                              onClick={(e) => e.stopPropagation()}
+                              onKeyDown={(e) => {
+                                if (e.key === "Enter") {
+                                  e.currentTarget.blur();
+                                } else if (e.key === "Escape") {
+                                  setEditingLabel(null);
+                                }
+                              }}
+                              onBlur={() => {
+                                renameSnippet(snippet.id, editingLabel.value.trim());
+                                setEditingLabel(null);
+                              }}
+                              className="h-6 w-32 px-1 text-sm font-mono"
+                              autoFocus
+                            />
+                          ) : (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setEditingLabel({
+                                  id: snippet.id,
+                                  value: snippet.label,
+                                });
+                              }}
+                              className="text-sm font-mono text-primary hover:underline"
+                              title="Rename snippet"
+                            >
+                              [{snippet.label}]
+                            </button>
+                          )}
                           <select
                             value={snippet.language}
                             onChange={(e) => {
@@ -722,7 +1905,7 @@ export const Dashboard = ({ onLogout }: DashboardProps) => {
                             className="h-6 text-xs"
                             onClick={(e) => {
                               e.stopPropagation();
-                              insertCodeTag(snippet.id);
+                              insertCodeTag(snippet.label);
                             }}
                           >
                             Insert tag
@@ -746,6 +1929,12 @@ export const Dashboard = ({ onLogout }: DashboardProps) => {
                               updateSnippet(snippet.id, { code: value })
                             }
                             language={snippet.language}
+                            remoteCursors={collab.peers.filter(
+                              (peer) => peer.cursor?.field === snippet.id,
+                            )}
+                            onSelectionChange={(anchor, head) =>
+                              collab.setSelection(snippet.id, anchor, head)
+                            }
                           />
                         </div>
                       )}
@@ -785,6 +1974,121 @@ export const Dashboard = ({ onLogout }: DashboardProps) => {
         description={passwordDialogOptions.description}
         onConfirm={passwordDialogOptions.onConfirm}
       />
+
+      <ChangePasswordDialog
+        open={isChangePasswordOpen}
+        onOpenChange={setIsChangePasswordOpen}
+      />
+
+      <FolderNameDialog
+        open={folderDialog !== null}
+        onOpenChange={(open) => {
+          if (!open) setFolderDialog(null);
+        }}
+        title={folderDialog?.title ?? ""}
+        initialName={folderDialog?.initialName ?? ""}
+        confirmText={folderDialog?.confirmText}
+        onConfirm={folderDialog?.onConfirm ?? (async () => {})}
+      />
+
+      <RenameVaultDialog
+        open={isRenameVaultOpen}
+        onOpenChange={setIsRenameVaultOpen}
+      />
+
+      <SyncDialog
+        open={isSyncDialogOpen}
+        onOpenChange={setIsSyncDialogOpen}
+        config={sync.config}
+        isSyncing={sync.isSyncing}
+        lastSyncedAt={sync.lastSyncedAt}
+        error={sync.error}
+        onConnect={sync.connect}
+        onConnectWebDav={sync.connectWebDav}
+        onSyncNow={sync.syncNow}
+        onDisconnect={sync.disconnect}
+      />
+
+      {selectedNote && (
+        <CollabDialog
+          open={isCollabDialogOpen}
+          onOpenChange={setIsCollabDialogOpen}
+          link={titleIndex[selectedNote.id]?.collab}
+          status={collab.status}
+          peers={collab.peers}
+          defaultName={getUser()?.username ?? "Anonymous"}
+          onStart={handleStartCollab}
+          onStop={handleStopCollab}
+        />
+      )}
+
+      <JoinCollabDialog
+        open={isJoinCollabOpen}
+        onOpenChange={setIsJoinCollabOpen}
+        defaultName={getUser()?.username ?? "Anonymous"}
+        onJoin={handleJoinCollab}
+      />
+
+      <TagManagerDialog
+        open={isTagManagerOpen}
+        onOpenChange={setIsTagManagerOpen}
+        tags={allTags}
+        onRename={handleRenameTag}
+      />
+
+      <NoteConflictDialog
+        conflict={conflict}
+        onResolve={handleResolveConflict}
+      />
+
+      {selectedNote && encryptionKey && (
+        <NoteHistoryPanel
+          open={isHistoryOpen}
+          onOpenChange={setIsHistoryOpen}
+          noteId={selectedNote.id}
+          current={editorSnapshot}
+          encryptionKey={encryptionKey}
+          onRestore={handleRestoreRevision}
+        />
+      )}
+
+      <AlertDialog
+        open={pendingWipeAfter !== null}
+        onOpenChange={(open) => {
+          if (!open) setPendingWipeAfter(null);
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Erase the vault after failed logins?</AlertDialogTitle>
+            <AlertDialogDescription>
+              After {pendingWipeAfter} wrong passwords in a row, this vault and
+              every note in it will be permanently deleted from this device.
+              Anyone who can reach the login screen can trigger this, and
+              without a backup or export the notes cannot be recovered.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => {
+                if (pendingWipeAfter !== null) {
+                  applyWipeAfterFailures(pendingWipeAfter);
+                }
+              }}
+            >
+              Enable wipe
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <RecoveryPhraseDialog
+        open={recoveryPhrase !== null}
+        phrase={recoveryPhrase ?? ""}
+        onConfirm={() => setRecoveryPhrase(null)}
+      />
     </SidebarProvider>
   );
 };
@@ -0,0 +1,37 @@
+import { Change } from "diff";
+
+/**
+ * Shows a line diff with added lines in green and removed lines in red.
+ */
+export const DiffLines = ({ changes }: { changes: Change[] }) => {
+  if (!changes.some((c) => c.added || c.removed)) {
+    return <p className="text-xs text-muted-foreground italic">No changes</p>;
+  }
+
+  return (
+    <pre className="text-xs font-mono rounded-md border border-border overflow-x-auto">
+      {changes.map((change, i) => (
+        <div
+          key={i}
+          className={
+            change.added
+              ? "bg-emerald-500/10 text-emerald-500"
+              : change.removed
+                ? "bg-destructive/10 text-destructive"
+                : "text-muted-foreground"
+          }
+        >
+          {change.value
+            .replace(/\n$/, "")
+            .split("\n")
+            .map((line, j) => (
+              <div key={j} className="px-2 whitespace-pre">
+                {change.added ? "+ " : change.removed ? "- " : "  "}
+                {line}
+              </div>
+            ))}
+        </div>
+      ))}
+    </pre>
+  );
+};
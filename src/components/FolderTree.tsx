@@ -0,0 +1,241 @@
+import { useState } from "react";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSub,
+  SidebarMenuSubButton,
+  SidebarMenuSubItem,
+} from "@/components/ui/sidebar";
+import {
+  ChevronRight,
+  FileText,
+  Folder as FolderIcon,
+  MoreHorizontal,
+} from "lucide-react";
+import { isFolderWithin } from "@/lib/folders";
+import { FolderMeta, Note, NoteMeta } from "@/lib/storage";
+
+// dataTransfer type for notes and folders dragged within the sidebar
+const DRAG_TYPE = "application/x-zks-note-item";
+
+interface DragItem {
+  kind: "note" | "folder";
+  id: string;
+}
+
+interface FolderTreeProps {
+  notes: Note[];
+  titleIndex: Record<string, NoteMeta>;
+  folderIndex: Record<string, FolderMeta>;
+  selectedNoteId: string | null;
+  onSelectNote: (note: Note) => void;
+  onMoveNote: (noteId: string, folderId: string | null) => void;
+  onMoveFolder: (folderId: string, parentId: string | null) => void;
+  onCreateFolder: (parentId: string | null) => void;
+  onRenameFolder: (folderId: string) => void;
+  onExportFolder: (folderId: string) => void;
+  onDeleteFolder: (folderId: string) => void;
+}
+
+const byName = (
+  folderIndex: Record<string, FolderMeta>,
+): ((a: string, b: string) => number) => {
+  return (a, b) => folderIndex[a].name.localeCompare(folderIndex[b].name);
+};
+
+export const FolderTree = ({
+  notes,
+  titleIndex,
+  folderIndex,
+  selectedNoteId,
+  onSelectNote,
+  onMoveNote,
+  onMoveFolder,
+  onCreateFolder,
+  onRenameFolder,
+  onExportFolder,
+  onDeleteFolder,
+}: FolderTreeProps) => {
+  // The folder (or "root") currently highlighted as a drop target
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  // Notes whose folder no longer exists are shown at the top level
+  const parentOf = (noteId: string) => {
+    const folderId = titleIndex[noteId]?.folderId;
+    return folderId && folderIndex[folderId] ? folderId : null;
+  };
+  // Folders whose parent no longer exists are shown at the top level too, as
+  // are folders whose parents lead back to them, which no root would reach
+  const folderParentOf = (folderId: string) => {
+    const parentId = folderIndex[folderId].parentId;
+    if (!parentId || !folderIndex[parentId]) return null;
+    return isFolderWithin(folderIndex, parentId, folderId) ? null : parentId;
+  };
+  const childFolders = (parentId: string | null) =>
+    Object.keys(folderIndex)
+      .filter((id) => folderParentOf(id) === parentId)
+      .sort(byName(folderIndex));
+  const childNotes = (folderId: string | null) =>
+    notes.filter((note) => parentOf(note.id) === folderId);
+
+  const dragProps = (item: DragItem) => ({
+    draggable: true,
+    onDragStart: (e: React.DragEvent) => {
+      e.dataTransfer.setData(DRAG_TYPE, JSON.stringify(item));
+      e.dataTransfer.effectAllowed = "move";
+    },
+  });
+
+  const dropProps = (folderId: string | null) => {
+    const target = folderId ?? "root";
+    return {
+      onDragOver: (e: React.DragEvent) => {
+        if (!e.dataTransfer.types.includes(DRAG_TYPE)) return;
+        e.preventDefault();
+        e.stopPropagation();
+        e.dataTransfer.dropEffect = "move";
+        setDropTarget(target);
+      },
+      onDragLeave: () => {
+        setDropTarget((current) => (current === target ? null : current));
+      },
+      onDrop: (e: React.DragEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setDropTarget(null);
+        const data = e.dataTransfer.getData(DRAG_TYPE);
+        if (!data) return;
+        const item: DragItem = JSON.parse(data);
+        if (item.kind === "note") {
+          onMoveNote(item.id, folderId);
+        } else if (item.id !== folderId) {
+          onMoveFolder(item.id, folderId);
+        }
+      },
+    };
+  };
+
+  const dropHighlight = (target: string) =>
+    dropTarget === target ? "ring-2 ring-primary/50" : "";
+
+  const renderNote = (note: Note, nested: boolean) => {
+    const content = (
+      <>
+        <FileText className="w-4 h-4" />
+        <span className="truncate">{titleIndex[note.id]?.title}</span>
+      </>
+    );
+
+    return nested ? (
+      <SidebarMenuSubItem key={note.id}>
+        <SidebarMenuSubButton
+          asChild
+          isActive={selectedNoteId === note.id}
+        >
+          <button
+            className="w-full"
+            onClick={() => onSelectNote(note)}
+            {...dragProps({ kind: "note", id: note.id })}
+          >
+            {content}
+          </button>
+        </SidebarMenuSubButton>
+      </SidebarMenuSubItem>
+    ) : (
+      <SidebarMenuItem key={note.id}>
+        <SidebarMenuButton
+          onClick={() => onSelectNote(note)}
+          isActive={selectedNoteId === note.id}
+          className="w-full"
+          {...dragProps({ kind: "note", id: note.id })}
+        >
+          {content}
+        </SidebarMenuButton>
+      </SidebarMenuItem>
+    );
+  };
+
+  const renderFolder = (folderId: string, nested: boolean) => {
+    const Item = nested ? SidebarMenuSubItem : SidebarMenuItem;
+    const subfolders = childFolders(folderId);
+    const folderNotes = childNotes(folderId);
+
+    return (
+      <Item key={folderId} className="relative">
+        <Collapsible className="group/collapsible">
+          <CollapsibleTrigger asChild>
+            <SidebarMenuButton
+              className={`w-full pr-8 ${dropHighlight(folderId)}`}
+              {...dragProps({ kind: "folder", id: folderId })}
+              {...dropProps(folderId)}
+            >
+              <ChevronRight className="w-4 h-4 transition-transform group-data-[state=open]/collapsible:rotate-90" />
+              <FolderIcon className="w-4 h-4" />
+              <span className="truncate">{folderIndex[folderId].name}</span>
+            </SidebarMenuButton>
+          </CollapsibleTrigger>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <SidebarMenuAction className="top-1.5">
+                <MoreHorizontal className="w-4 h-4" />
+              </SidebarMenuAction>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent side="right" align="start">
+              <DropdownMenuItem onClick={() => onCreateFolder(folderId)}>
+                New subfolder
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => onRenameFolder(folderId)}>
+                Rename
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => onExportFolder(folderId)}>
+                Export folder
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                onClick={() => onDeleteFolder(folderId)}
+                className="text-destructive focus:text-destructive"
+              >
+                Delete folder
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <CollapsibleContent>
+            <SidebarMenuSub>
+              {subfolders.map((id) => renderFolder(id, true))}
+              {folderNotes.map((note) => renderNote(note, true))}
+              {subfolders.length === 0 && folderNotes.length === 0 && (
+                <li className="px-2 py-1 text-xs text-muted-foreground">
+                  Empty
+                </li>
+              )}
+            </SidebarMenuSub>
+          </CollapsibleContent>
+        </Collapsible>
+      </Item>
+    );
+  };
+
+  return (
+    <SidebarMenu
+      className={`min-h-24 rounded-md ${dropHighlight("root")}`}
+      {...dropProps(null)}
+    >
+      {childFolders(null).map((id) => renderFolder(id, false))}
+      {childNotes(null).map((note) => renderNote(note, false))}
+    </SidebarMenu>
+  );
+};
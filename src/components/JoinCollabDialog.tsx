@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
+import { CollabLink } from '@/lib/storage';
+import { parseInviteCode } from '@/lib/collab';
+
+export function JoinCollabDialog({
+  open,
+  onOpenChange,
+  defaultName,
+  onJoin,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  defaultName: string;
+  onJoin: (invite: Pick<CollabLink, 'relayUrl' | 'key'>, name: string) => Promise<void>;
+}) {
+  const [inviteCode, setInviteCode] = useState('');
+  const [name, setName] = useState('');
+  const [isJoining, setIsJoining] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const invite = parseInviteCode(inviteCode);
+    if (!invite) {
+      toast.error('That is not a valid invite code');
+      return;
+    }
+    setIsJoining(true);
+    try {
+      await onJoin(invite, name.trim() || defaultName);
+      setInviteCode('');
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Failed to join note:', error);
+      toast.error('Failed to join the note');
+    } finally {
+      setIsJoining(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Join Live Note</DialogTitle>
+            <DialogDescription>
+              Enter the invite code a collaborator sent you. A new note is added to this vault and fills in with
+              their content once one of them is online.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2 py-4">
+            <Input
+              type="text"
+              placeholder="Invite code"
+              value={inviteCode}
+              onChange={(e) => setInviteCode(e.target.value)}
+              className="font-mono text-xs"
+              autoComplete="off"
+              spellCheck={false}
+              required
+            />
+            <Input
+              type="text"
+              placeholder={`Your name (${defaultName})`}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={60}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isJoining}>
+              {isJoining ? 'Joining...' : 'Join'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
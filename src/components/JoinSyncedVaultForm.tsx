@@ -0,0 +1,222 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Globe, KeyRound, Lock, User, Vault } from "lucide-react";
+import { SyncError, joinSyncedVault, joinWebDavVault } from "@/lib/sync";
+import { VaultInfo } from "@/lib/storage";
+import { toast } from "sonner";
+
+interface JoinSyncedVaultFormProps {
+  onJoined: (vault: VaultInfo) => void;
+  onCancel: () => void;
+}
+
+export const JoinSyncedVaultForm = ({
+  onJoined,
+  onCancel,
+}: JoinSyncedVaultFormProps) => {
+  const [backend, setBackend] = useState<"server" | "webdav">("server");
+  const [vaultName, setVaultName] = useState("");
+  const [serverUrl, setServerUrl] = useState("");
+  const [syncCode, setSyncCode] = useState("");
+  const [folderUrl, setFolderUrl] = useState("");
+  const [username, setUsername] = useState("");
+  const [webDavPassword, setWebDavPassword] = useState("");
+  const [vaultPassword, setVaultPassword] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isLoading) return;
+
+    setIsLoading(true);
+    try {
+      const vault =
+        backend === "webdav"
+          ? await joinWebDavVault(
+              { folderUrl, username, password: webDavPassword },
+              vaultPassword,
+              vaultName.trim(),
+            )
+          : await joinSyncedVault(serverUrl, syncCode, vaultName.trim());
+      toast.success(`Added "${vault.name}". Log in with its password to sync its notes.`);
+      onJoined(vault);
+    } catch (error) {
+      console.error("Join error:", error);
+      toast.error(
+        error instanceof SyncError
+          ? error.message
+          : "An unexpected error occurred. Please try again.",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <ToggleGroup
+        type="single"
+        size="sm"
+        value={backend}
+        onValueChange={(value) => value && setBackend(value as "server" | "webdav")}
+        className="justify-start"
+      >
+        <ToggleGroupItem value="server" className="text-xs">
+          Sync server
+        </ToggleGroupItem>
+        <ToggleGroupItem value="webdav" className="text-xs">
+          WebDAV folder
+        </ToggleGroupItem>
+      </ToggleGroup>
+
+      <div className="space-y-1.5">
+        <label className="text-xs font-semibold uppercase tracking-wider text-muted-foreground ml-1">
+          Vault Name
+        </label>
+        <div className="relative group">
+          <Vault className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground group-focus-within:text-primary transition-colors" />
+          <Input
+            type="text"
+            placeholder="What to call the vault on this device"
+            value={vaultName}
+            onChange={(e) => setVaultName(e.target.value)}
+            className="pl-10 bg-black/20 border-white/10 focus:border-primary/50 focus:ring-primary/20 transition-all h-10"
+            required
+          />
+        </div>
+      </div>
+
+      {backend === "webdav" ? (
+        <>
+          <div className="space-y-1.5">
+            <label className="text-xs font-semibold uppercase tracking-wider text-muted-foreground ml-1">
+              WebDAV Folder
+            </label>
+            <div className="relative group">
+              <Globe className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground group-focus-within:text-primary transition-colors" />
+              <Input
+                type="url"
+                placeholder="https://cloud.example.com/remote.php/dav/files/me/Notes"
+                value={folderUrl}
+                onChange={(e) => setFolderUrl(e.target.value)}
+                className="pl-10 bg-black/20 border-white/10 focus:border-primary/50 focus:ring-primary/20 transition-all h-10"
+                required
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <label className="text-xs font-semibold uppercase tracking-wider text-muted-foreground ml-1">
+              WebDAV Username
+            </label>
+            <div className="relative group">
+              <User className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground group-focus-within:text-primary transition-colors" />
+              <Input
+                type="text"
+                placeholder="The account that owns the folder"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                autoComplete="off"
+                className="pl-10 bg-black/20 border-white/10 focus:border-primary/50 focus:ring-primary/20 transition-all h-10"
+                required
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <label className="text-xs font-semibold uppercase tracking-wider text-muted-foreground ml-1">
+              WebDAV Password
+            </label>
+            <div className="relative group">
+              <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground group-focus-within:text-primary transition-colors" />
+              <Input
+                type="password"
+                placeholder="Password or app password"
+                value={webDavPassword}
+                onChange={(e) => setWebDavPassword(e.target.value)}
+                autoComplete="off"
+                className="pl-10 bg-black/20 border-white/10 focus:border-primary/50 focus:ring-primary/20 transition-all h-10"
+                required
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <label className="text-xs font-semibold uppercase tracking-wider text-muted-foreground ml-1">
+              Vault Password
+            </label>
+            <div className="relative group">
+              <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground group-focus-within:text-primary transition-colors" />
+              <Input
+                type="password"
+                placeholder="The password of the vault you are joining"
+                value={vaultPassword}
+                onChange={(e) => setVaultPassword(e.target.value)}
+                autoComplete="current-password"
+                className="pl-10 bg-black/20 border-white/10 focus:border-primary/50 focus:ring-primary/20 transition-all h-10"
+                required
+              />
+            </div>
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="space-y-1.5">
+            <label className="text-xs font-semibold uppercase tracking-wider text-muted-foreground ml-1">
+              Sync Server
+            </label>
+            <div className="relative group">
+              <Globe className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground group-focus-within:text-primary transition-colors" />
+              <Input
+                type="url"
+                placeholder="https://sync.example.com"
+                value={serverUrl}
+                onChange={(e) => setServerUrl(e.target.value)}
+                className="pl-10 bg-black/20 border-white/10 focus:border-primary/50 focus:ring-primary/20 transition-all h-10"
+                required
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <label className="text-xs font-semibold uppercase tracking-wider text-muted-foreground ml-1">
+              Sync Code
+            </label>
+            <div className="relative group">
+              <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground group-focus-within:text-primary transition-colors" />
+              <Input
+                type="text"
+                placeholder="Shown under Vault › Sync devices"
+                value={syncCode}
+                onChange={(e) => setSyncCode(e.target.value)}
+                className="pl-10 bg-black/20 border-white/10 focus:border-primary/50 focus:ring-primary/20 transition-all h-10 font-mono text-xs"
+                autoComplete="off"
+                spellCheck={false}
+                required
+              />
+            </div>
+          </div>
+        </>
+      )}
+
+      <Button
+        type="submit"
+        className="w-full h-10 bg-primary hover:bg-primary/90 text-primary-foreground font-semibold rounded-xl transition-all shadow-lg shadow-primary/20"
+        disabled={isLoading}
+      >
+        {isLoading ? "Processing..." : "Join Vault"}
+      </Button>
+      <Button
+        type="button"
+        variant="ghost"
+        className="w-full text-muted-foreground"
+        onClick={onCancel}
+        disabled={isLoading}
+      >
+        Back to login
+      </Button>
+    </form>
+  );
+};
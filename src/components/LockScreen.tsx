@@ -0,0 +1,118 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Lock } from "lucide-react";
+import { unlockVault } from "@/lib/vault";
+import { toNonExtractableKey } from "@/lib/encryption";
+import { getUser, saveSessionKey } from "@/lib/storage";
+import {
+  getLockoutRemainingMs,
+  recordFailedLogin,
+  recordSuccessfulLogin,
+} from "@/lib/loginThrottle";
+import { useLoginThrottle } from "@/hooks/use-login-throttle";
+import { LoginThrottleNotice } from "@/components/LoginThrottleNotice";
+import { toast } from "sonner";
+
+interface LockScreenProps {
+  onUnlocked: () => void;
+  onLogout: () => void;
+}
+
+export const LockScreen = ({ onUnlocked, onLogout }: LockScreenProps) => {
+  const [password, setPassword] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const user = getUser();
+  const throttle = useLoginThrottle(user?.id ?? null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isLoading || !user) return;
+    setIsLoading(true);
+
+    try {
+      if (getLockoutRemainingMs(user.id) > 0) {
+        throttle.refresh();
+        toast.error("Too many failed attempts. Please wait before trying again.");
+        return;
+      }
+
+      const vaultKey = await unlockVault(user, password);
+      if (!vaultKey) {
+        const { wiped } = await recordFailedLogin(user);
+        throttle.refresh();
+        if (wiped) {
+          toast.error("Too many failed attempts. The vault has been erased.");
+          onLogout();
+          return;
+        }
+        toast.error("Incorrect password");
+        return;
+      }
+
+      recordSuccessfulLogin(user.id);
+      saveSessionKey(await toNonExtractableKey(vaultKey));
+      setPassword("");
+      onUnlocked();
+    } catch (error) {
+      console.error("Unlock error:", error);
+      toast.error("An unexpected error occurred. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <div className="w-full max-w-sm">
+        <div className="text-center mb-8 space-y-2">
+          <div className="inline-flex items-center justify-center w-14 h-14 rounded-2xl bg-primary/10 border border-primary/20 mb-4">
+            <Lock className="w-7 h-7 text-primary" />
+          </div>
+          <h1 className="text-2xl font-semibold text-foreground">
+            Vault Locked
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            {user
+              ? `Enter the password for ${user.username} to continue.`
+              : "Enter your password to continue."}
+          </p>
+        </div>
+        <form
+          onSubmit={handleSubmit}
+          className="bg-card rounded-lg border border-border p-6 space-y-4"
+        >
+          <Input
+            type="password"
+            placeholder="Password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+            autoFocus
+          />
+          <LoginThrottleNotice
+            failures={throttle.failures}
+            remainingMs={throttle.remainingMs}
+            wipeAfterFailures={user?.wipeAfterFailures}
+          />
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={isLoading || throttle.isLockedOut}
+          >
+            {isLoading ? "Unlocking..." : "Unlock"}
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            className="w-full text-muted-foreground"
+            onClick={onLogout}
+            disabled={isLoading}
+          >
+            Log out
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import { AlertTriangle } from "lucide-react";
+import { formatLockout } from "@/lib/loginThrottle";
+
+interface LoginThrottleNoticeProps {
+  failures: number;
+  remainingMs: number;
+  wipeAfterFailures?: number;
+}
+
+/**
+ * Explains failed attempts under a password field: the lockout countdown and,
+ * if the vault wipes itself, how many attempts are left.
+ */
+export const LoginThrottleNotice = ({
+  failures,
+  remainingMs,
+  wipeAfterFailures,
+}: LoginThrottleNoticeProps) => {
+  if (failures === 0) return null;
+
+  const attemptsLeft = wipeAfterFailures ? wipeAfterFailures - failures : null;
+
+  return (
+    <div className="rounded-lg border border-destructive/30 bg-destructive/10 px-3 py-2 text-xs text-destructive space-y-1">
+      <p className="flex items-center gap-1.5 font-medium">
+        <AlertTriangle className="w-3.5 h-3.5" />
+        {failures} failed {failures === 1 ? "attempt" : "attempts"}
+      </p>
+      {remainingMs > 0 && (
+        <p>Too many attempts. Try again in {formatLockout(remainingMs)}.</p>
+      )}
+      {attemptsLeft !== null && (
+        <p>
+          This vault will be erased after {attemptsLeft} more failed{" "}
+          {attemptsLeft === 1 ? "attempt" : "attempts"}.
+        </p>
+      )}
+    </div>
+  );
+};
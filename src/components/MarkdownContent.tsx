@@ -0,0 +1,81 @@
+import { useMemo } from "react";
+import ReactMarkdown, { Components, Options } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import hljs from "highlight.js/lib/common";
+import "highlight.js/styles/github-dark.css";
+import { Code2 } from "lucide-react";
+import { CodeSnippet } from "@/lib/storage";
+import { remarkSnippets } from "@/lib/remarkSnippets";
+
+interface MarkdownContentProps {
+  content: string;
+  snippets: Pick<CodeSnippet, "label" | "code" | "language">[];
+  className?: string;
+}
+
+const highlight = (code: string, language: string) => {
+  const known = hljs.getLanguage(language) ? language : "plaintext";
+  return hljs.highlight(code, { language: known, ignoreIllegals: true }).value;
+};
+
+const components: Components = {
+  pre: ({ node, children }) => {
+    const code = node?.children[0];
+    const properties = code?.type === "element" ? code.properties : {};
+    const label = properties.dataSnippet;
+    const language = String(
+      (properties.className as string[] | undefined)?.[0] ?? "",
+    ).replace("language-", "");
+
+    return (
+      <div className="not-prose my-3 rounded-lg border border-border bg-[#0d1117] overflow-hidden">
+        {label && (
+          <div className="flex items-center gap-1.5 px-3 py-1 border-b border-border text-xs font-mono text-primary">
+            <Code2 className="w-3 h-3" />
+            {String(label)}
+            {language && (
+              <span className="text-muted-foreground">· {language}</span>
+            )}
+          </div>
+        )}
+        <pre className="p-3 text-sm overflow-x-auto">{children}</pre>
+      </div>
+    );
+  },
+  code: ({ className, children }) => {
+    const language = className?.match(/language-(\S+)/)?.[1];
+    if (!language) return <code className={className}>{children}</code>;
+    return (
+      <code
+        className={`hljs ${className}`}
+        dangerouslySetInnerHTML={{
+          __html: highlight(String(children).replace(/\n$/, ""), language),
+        }}
+      />
+    );
+  },
+};
+
+/**
+ * Renders note content as Markdown. [label] references to the note's
+ * snippets are shown as highlighted code blocks where they appear. Raw HTML
+ * in the content is not rendered.
+ */
+export const MarkdownContent = ({
+  content,
+  snippets,
+  className = "",
+}: MarkdownContentProps) => {
+  const remarkPlugins = useMemo<Options["remarkPlugins"]>(
+    () => [remarkGfm, [remarkSnippets, { snippets }]],
+    [snippets],
+  );
+
+  return (
+    <div className={`prose prose-sm prose-invert max-w-none ${className}`}>
+      <ReactMarkdown remarkPlugins={remarkPlugins} components={components}>
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+};
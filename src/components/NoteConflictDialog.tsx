@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { DiffLines } from '@/components/DiffLines';
+import { diffSnapshots } from '@/lib/noteHistory';
+import { NoteConflict } from '@/lib/noteConflicts';
+
+export type ConflictResolution = 'mine' | 'theirs' | 'merge';
+
+export function NoteConflictDialog({
+  conflict,
+  onResolve,
+}: {
+  conflict: NoteConflict | null;
+  onResolve: (resolution: ConflictResolution) => Promise<void>;
+}) {
+  const [isResolving, setIsResolving] = useState(false);
+  // Lines only the other tab has are shown as removed, this tab's as added
+  const diff = conflict ? diffSnapshots(conflict.theirs, conflict.mine) : null;
+
+  const handleResolve = async (resolution: ConflictResolution) => {
+    setIsResolving(true);
+    try {
+      await onResolve(resolution);
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  return (
+    // Closing without choosing would leave the two versions diverged
+    <Dialog open={conflict !== null}>
+      <DialogContent
+        className="sm:max-w-3xl"
+        onInteractOutside={(e) => e.preventDefault()}
+        onEscapeKeyDown={(e) => e.preventDefault()}
+      >
+        <DialogHeader>
+          <DialogTitle>This note was changed in another tab</DialogTitle>
+          <DialogDescription>
+            Both tabs edited "{conflict?.theirs.title || 'Untitled'}". Choose which version to keep, or merge
+            them and resolve the marked sections yourself. The version you do not keep stays in the note's history.
+          </DialogDescription>
+        </DialogHeader>
+
+        {conflict && diff && (
+          <ScrollArea className="max-h-[50vh]">
+            <div className="space-y-4 pr-3">
+              <p className="text-xs text-muted-foreground">
+                <span className="text-destructive">- Other tab</span> ·{' '}
+                <span className="text-emerald-500">+ This tab</span>
+              </p>
+
+              {diff.titleChanged && (
+                <div className="space-y-1">
+                  <h3 className="text-sm font-medium">Title</h3>
+                  <DiffLines
+                    changes={[
+                      { value: conflict.theirs.title, removed: true, added: false, count: 1 },
+                      { value: conflict.mine.title, added: true, removed: false, count: 1 },
+                    ]}
+                  />
+                </div>
+              )}
+
+              <div className="space-y-1">
+                <h3 className="text-sm font-medium">Content</h3>
+                <DiffLines changes={diff.content} />
+              </div>
+
+              {diff.snippets
+                .filter((snippet) => snippet.status !== 'unchanged')
+                .map((snippet) => (
+                  <div key={snippet.id} className="space-y-1">
+                    <h3 className="text-sm font-medium">
+                      [{snippet.label}]{' '}
+                      <span className="text-xs text-muted-foreground font-normal">{snippet.language}</span>
+                    </h3>
+                    <DiffLines changes={snippet.changes} />
+                  </div>
+                ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button type="button" variant="outline" onClick={() => handleResolve('theirs')} disabled={isResolving}>
+            Keep other tab's version
+          </Button>
+          <Button type="button" variant="outline" onClick={() => handleResolve('merge')} disabled={isResolving}>
+            Merge both
+          </Button>
+          <Button type="button" onClick={() => handleResolve('mine')} disabled={isResolving}>
+            Keep mine
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,179 @@
+import { useEffect, useState } from "react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { DiffLines } from "@/components/DiffLines";
+import { History, RotateCcw } from "lucide-react";
+import {
+  DecryptedRevision,
+  NoteSnapshot,
+  SnippetChangeStatus,
+  diffSnapshots,
+  loadRevisions,
+} from "@/lib/noteHistory";
+import { toast } from "sonner";
+
+interface NoteHistoryPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  noteId: string;
+  // The version currently in the editor, which revisions are compared against
+  current: NoteSnapshot;
+  encryptionKey: CryptoKey;
+  onRestore: (snapshot: NoteSnapshot) => Promise<void>;
+}
+
+const STATUS_LABELS: Record<SnippetChangeStatus, string> = {
+  added: "Added since this revision",
+  removed: "Removed since this revision",
+  changed: "Changed",
+  unchanged: "Unchanged",
+};
+
+export const NoteHistoryPanel = ({
+  open,
+  onOpenChange,
+  noteId,
+  current,
+  encryptionKey,
+  onRestore,
+}: NoteHistoryPanelProps) => {
+  const [revisions, setRevisions] = useState<DecryptedRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setIsLoading(true);
+    loadRevisions(noteId, encryptionKey)
+      .then((loaded) => {
+        setRevisions(loaded);
+        setSelectedId(loaded[0]?.id ?? null);
+      })
+      .catch((error) => {
+        console.error("Failed to load note history:", error);
+        toast.error("Failed to load note history");
+      })
+      .finally(() => setIsLoading(false));
+  }, [open, noteId, encryptionKey]);
+
+  const selected = revisions.find((r) => r.id === selectedId);
+  // Changes from the selected revision to the current version
+  const diff = selected ? diffSnapshots(selected.snapshot, current) : null;
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    setIsRestoring(true);
+    try {
+      await onRestore(selected.snapshot);
+      onOpenChange(false);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-3xl flex flex-col">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <History className="w-4 h-4" /> Version History
+          </SheetTitle>
+          <SheetDescription>
+            Earlier versions are kept encrypted on this device. Restoring one
+            saves it as the newest version; nothing is discarded.
+          </SheetDescription>
+        </SheetHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No earlier versions yet. A version is kept each time you save changes.
+          </p>
+        ) : (
+          <div className="flex-1 min-h-0 flex gap-4">
+            <ScrollArea className="w-48 shrink-0 border-r border-border pr-2">
+              {revisions.map((revision) => (
+                <button
+                  key={revision.id}
+                  onClick={() => setSelectedId(revision.id)}
+                  className={`w-full text-left px-2 py-1.5 rounded-md text-sm transition-colors ${
+                    revision.id === selectedId
+                      ? "bg-primary/10 text-primary"
+                      : "hover:bg-muted"
+                  }`}
+                >
+                  <div className="truncate">
+                    {revision.snapshot.title || "Untitled"}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {new Date(revision.createdAt).toLocaleString()}
+                  </div>
+                </button>
+              ))}
+            </ScrollArea>
+
+            {selected && diff && (
+              <ScrollArea className="flex-1">
+                <div className="space-y-4 pr-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-xs text-muted-foreground">
+                      Compared with the current version
+                    </p>
+                    <Button
+                      size="sm"
+                      onClick={handleRestore}
+                      disabled={isRestoring}
+                    >
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                      {isRestoring ? "Restoring..." : "Restore this version"}
+                    </Button>
+                  </div>
+
+                  {diff.titleChanged && (
+                    <div className="space-y-1">
+                      <h3 className="text-sm font-medium">Title</h3>
+                      <DiffLines
+                        changes={[
+                          { value: selected.snapshot.title, removed: true, added: false, count: 1 },
+                          { value: current.title, added: true, removed: false, count: 1 },
+                        ]}
+                      />
+                    </div>
+                  )}
+
+                  <div className="space-y-1">
+                    <h3 className="text-sm font-medium">Content</h3>
+                    <DiffLines changes={diff.content} />
+                  </div>
+
+                  {diff.snippets.map((snippet) => (
+                    <div key={snippet.id} className="space-y-1">
+                      <h3 className="text-sm font-medium">
+                        [{snippet.label}]{" "}
+                        <span className="text-xs text-muted-foreground font-normal">
+                          {snippet.language} · {STATUS_LABELS[snippet.status]}
+                        </span>
+                      </h3>
+                      {snippet.status !== "unchanged" && (
+                        <DiffLines changes={snippet.changes} />
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Lock, User } from "lucide-react";
+import { resetPasswordWithRecoveryPhrase } from "@/lib/vault";
+import { isValidRecoveryPhrase } from "@/lib/recovery";
+import { recordSuccessfulLogin } from "@/lib/loginThrottle";
+import { getUser, listVaults, setActiveVault } from "@/lib/storage";
+import { toast } from "sonner";
+
+interface RecoverAccountFormProps {
+  onRecovered: (vaultKey: CryptoKey) => Promise<void>;
+  onCancel: () => void;
+}
+
+export const RecoverAccountForm = ({
+  onRecovered,
+  onCancel,
+}: RecoverAccountFormProps) => {
+  const [vaultName, setVaultName] = useState("");
+  const [recoveryPhrase, setRecoveryPhrase] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isLoading) return;
+
+    if (!isValidRecoveryPhrase(recoveryPhrase)) {
+      toast.error("The recovery phrase must be 24 valid words in order");
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      toast.error("Passwords do not match");
+      return;
+    }
+
+    if (password.length < 8) {
+      toast.error("Password must be at least 8 characters");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const vault = listVaults().find(
+        (v) => v.name.toLowerCase() === vaultName.trim().toLowerCase(),
+      );
+      setActiveVault(vault?.id ?? null);
+      const user = getUser();
+      if (!user) {
+        toast.error("Invalid vault or recovery phrase");
+        return;
+      }
+
+      const vaultKey = await resetPasswordWithRecoveryPhrase(
+        user,
+        recoveryPhrase,
+        password,
+      );
+      if (!vaultKey) {
+        toast.error("Invalid vault or recovery phrase");
+        return;
+      }
+      // The failed attempts with the forgotten password no longer count
+      // towards a lockout or wipe
+      recordSuccessfulLogin(user.id);
+
+      toast.success("Password reset. Welcome back!");
+      await onRecovered(vaultKey);
+    } catch (error) {
+      console.error("Recovery error:", error);
+      toast.error("An unexpected error occurred. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-1.5">
+        <label className="text-xs font-semibold uppercase tracking-wider text-muted-foreground ml-1">
+          Vault
+        </label>
+        <div className="relative group">
+          <User className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground group-focus-within:text-primary transition-colors" />
+          <Input
+            type="text"
+            placeholder="The vault's name"
+            value={vaultName}
+            onChange={(e) => setVaultName(e.target.value)}
+            className="pl-10 bg-black/20 border-white/10 focus:border-primary/50 focus:ring-primary/20 transition-all h-10"
+            required
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1.5">
+        <label className="text-xs font-semibold uppercase tracking-wider text-muted-foreground ml-1">
+          Recovery Phrase
+        </label>
+        <Textarea
+          placeholder="24 words separated by spaces"
+          value={recoveryPhrase}
+          onChange={(e) => setRecoveryPhrase(e.target.value)}
+          className="bg-black/20 border-white/10 focus:border-primary/50 focus:ring-primary/20 transition-all min-h-[96px] font-mono text-xs"
+          autoComplete="off"
+          spellCheck={false}
+          required
+        />
+      </div>
+
+      <div className="space-y-1.5">
+        <label className="text-xs font-semibold uppercase tracking-wider text-muted-foreground ml-1">
+          New Password
+        </label>
+        <div className="relative group">
+          <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground group-focus-within:text-primary transition-colors" />
+          <Input
+            type="password"
+            placeholder="••••••••"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="pl-10 bg-black/20 border-white/10 focus:border-primary/50 focus:ring-primary/20 transition-all h-10"
+            required
+          />
+        </div>
+        <div className="relative group">
+          <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground group-focus-within:text-primary transition-colors" />
+          <Input
+            type="password"
+            placeholder="Repeat password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            className="pl-10 bg-black/20 border-white/10 focus:border-primary/50 focus:ring-primary/20 transition-all h-10"
+            required
+          />
+        </div>
+      </div>
+
+      <Button
+        type="submit"
+        className="w-full h-10 bg-primary hover:bg-primary/90 text-primary-foreground font-semibold rounded-xl transition-all shadow-lg shadow-primary/20"
+        disabled={isLoading}
+      >
+        {isLoading ? "Processing..." : "Reset Password"}
+      </Button>
+      <Button
+        type="button"
+        variant="ghost"
+        className="w-full text-muted-foreground"
+        onClick={onCancel}
+        disabled={isLoading}
+      >
+        Back to login
+      </Button>
+    </form>
+  );
+};
@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { toast } from 'sonner';
+
+export function RecoveryPhraseDialog({
+  open,
+  phrase,
+  onConfirm,
+}: {
+  open: boolean;
+  phrase: string;
+  onConfirm: () => void;
+}) {
+  const [hasSavedPhrase, setHasSavedPhrase] = useState(false);
+  const words = phrase.split(' ');
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(phrase);
+    toast.success('Recovery phrase copied to clipboard');
+  };
+
+  const handleConfirm = () => {
+    setHasSavedPhrase(false);
+    onConfirm();
+  };
+
+  return (
+    // The phrase is shown only once, so the dialog can only be closed by confirming
+    <Dialog open={open}>
+      <DialogContent onInteractOutside={(e) => e.preventDefault()} onEscapeKeyDown={(e) => e.preventDefault()}>
+        <DialogHeader>
+          <DialogTitle>Your Recovery Phrase</DialogTitle>
+          <DialogDescription>
+            Write these 24 words down and keep them somewhere safe. They are the only way to
+            reset your password. Anyone who has them can open your vault.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ol className="grid grid-cols-3 gap-2 py-4">
+          {words.map((word, index) => (
+            <li
+              key={index}
+              className="flex items-center gap-2 rounded-md border border-border bg-card px-2 py-1 text-sm font-mono"
+            >
+              <span className="w-5 text-right text-xs text-muted-foreground">{index + 1}</span>
+              {word}
+            </li>
+          ))}
+        </ol>
+
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="recovery-phrase-saved"
+            checked={hasSavedPhrase}
+            onCheckedChange={(checked) => setHasSavedPhrase(checked === true)}
+          />
+          <label htmlFor="recovery-phrase-saved" className="text-sm text-muted-foreground cursor-pointer">
+            I have stored my recovery phrase safely
+          </label>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={handleCopy}>
+            Copy
+          </Button>
+          <Button type="button" onClick={handleConfirm} disabled={!hasSavedPhrase}>
+            Continue
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,77 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
+import { getActiveVaultId, listVaults, renameVault } from '@/lib/storage';
+
+export function RenameVaultDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const [name, setName] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    const vault = listVaults().find((v) => v.id === getActiveVaultId());
+    setName(vault?.name ?? '');
+  }, [open]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const vaultId = getActiveVaultId();
+    const trimmed = name.trim();
+    if (!vaultId || !trimmed) return;
+
+    const taken = listVaults().some(
+      (v) => v.id !== vaultId && v.name.toLowerCase() === trimmed.toLowerCase(),
+    );
+    if (taken) {
+      toast.error('A vault with this name already exists on this device');
+      return;
+    }
+
+    renameVault(vaultId, trimmed);
+    onOpenChange(false);
+    toast.success('Vault renamed');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Rename Vault</DialogTitle>
+          <DialogDescription>
+            The name is only shown in the vault picker on this device.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            <Input
+              type="text"
+              placeholder="Vault name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit">Rename</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,49 @@
+import { AlertCircle, Check, CloudOff, Loader2 } from "lucide-react";
+import { SaveStatus } from "@/hooks/use-autosave";
+
+const STATUS_DISPLAY: Record<
+  SaveStatus,
+  { icon: typeof Check; label: string; title: string; className: string }
+> = {
+  saved: {
+    icon: Check,
+    label: "Saved",
+    title: "All changes are encrypted and saved",
+    className: "text-muted-foreground",
+  },
+  saving: {
+    icon: Loader2,
+    label: "Saving...",
+    title: "Changes are kept as an encrypted draft until they are saved",
+    className: "text-muted-foreground",
+  },
+  offline: {
+    icon: CloudOff,
+    label: "Offline",
+    title: "Changes are saved on this device",
+    className: "text-muted-foreground",
+  },
+  error: {
+    icon: AlertCircle,
+    label: "Not saved",
+    title: "Saving failed; your edits are kept as a draft. Try saving again.",
+    className: "text-destructive",
+  },
+};
+
+export const SaveStatusIndicator = ({ status }: { status: SaveStatus }) => {
+  const { icon: Icon, label, title, className } = STATUS_DISPLAY[status];
+
+  return (
+    <span
+      className={`hidden sm:inline-flex items-center gap-1 text-xs ${className}`}
+      title={title}
+      role="status"
+    >
+      <Icon
+        className={`w-3.5 h-3.5 ${status === "saving" ? "animate-spin" : ""}`}
+      />
+      {label}
+    </span>
+  );
+};
@@ -0,0 +1,96 @@
+import {
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "@/components/ui/sidebar";
+import { Code2, FileText } from "lucide-react";
+import { NoteMeta } from "@/lib/storage";
+import { MatchRange, SearchResult } from "@/lib/searchIndex";
+
+interface SearchResultsProps {
+  results: SearchResult[];
+  titleIndex: Record<string, NoteMeta>;
+  selectedNoteId: string | null;
+  onSelectNote: (noteId: string) => void;
+}
+
+const Highlighted = ({
+  text,
+  ranges,
+}: {
+  text: string;
+  ranges: MatchRange[];
+}) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  ranges.forEach(([start, end], i) => {
+    if (start > position) parts.push(text.slice(position, start));
+    parts.push(
+      <mark key={i} className="rounded-sm bg-primary/25 text-foreground">
+        {text.slice(start, end)}
+      </mark>,
+    );
+    position = end;
+  });
+  if (position < text.length) parts.push(text.slice(position));
+  return <>{parts}</>;
+};
+
+export const SearchResults = ({
+  results,
+  titleIndex,
+  selectedNoteId,
+  onSelectNote,
+}: SearchResultsProps) => {
+  if (results.length === 0) {
+    return (
+      <p className="px-4 py-2 text-xs text-muted-foreground">No matching notes</p>
+    );
+  }
+
+  return (
+    <SidebarMenu>
+      {results.map((result) => (
+        <SidebarMenuItem key={result.noteId}>
+          <SidebarMenuButton
+            onClick={() => onSelectNote(result.noteId)}
+            isActive={selectedNoteId === result.noteId}
+            className="w-full h-auto flex-col items-start gap-1 py-1.5"
+          >
+            <span className="flex w-full items-center gap-2">
+              <FileText className="w-4 h-4 shrink-0" />
+              <span className="truncate">
+                <Highlighted
+                  text={titleIndex[result.noteId]?.title ?? ""}
+                  ranges={result.titleRanges}
+                />
+              </span>
+            </span>
+            {result.excerpts.map((excerpt, i) => (
+              <span
+                key={i}
+                className="block w-full pl-6 text-xs text-muted-foreground"
+              >
+                {excerpt.kind === "snippet" && (
+                  <span className="mr-1 inline-flex items-center gap-0.5 font-mono text-primary">
+                    <Code2 className="w-3 h-3" />
+                    {excerpt.snippetLabel} · {excerpt.language}
+                  </span>
+                )}
+                <span
+                  className={`line-clamp-2 break-all ${
+                    excerpt.kind === "snippet" ? "font-mono" : ""
+                  }`}
+                >
+                  {excerpt.truncatedStart && "…"}
+                  <Highlighted text={excerpt.text} ranges={excerpt.ranges} />
+                  {excerpt.truncatedEnd && "…"}
+                </span>
+              </span>
+            ))}
+          </SidebarMenuButton>
+        </SidebarMenuItem>
+      ))}
+    </SidebarMenu>
+  );
+};
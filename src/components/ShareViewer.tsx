@@ -4,11 +4,12 @@ import { Input } from "@/components/ui/input";
 import { decryptSecureShare, parseShareUrl } from "@/lib/secureSharing";
 import { toast } from "sonner";
 import { Lock, FileText } from "lucide-react";
+import { MarkdownContent } from "@/components/MarkdownContent";
 
 interface SharedNote {
   title: string;
   content: string;
-  snippets: { id: string; code: string; language: string }[];
+  snippets: { id: string; label?: string; code: string; language: string }[];
 }
 
 export const ShareViewer = () => {
@@ -21,20 +22,11 @@ export const ShareViewer = () => {
   useEffect(() => {
     const decryptFromUrl = async () => {
       try {
-        const params = parseShareUrl(window.location.href);
-        if (!params.encryptedData || !params.iv || !params.key) {
-          throw new Error("Incomplete share link.");
-        }
-
-        const isPasswordProtected = params.key.includes(":");
-        setNeedsPassword(isPasswordProtected);
+        const link = parseShareUrl(window.location.href);
+        setNeedsPassword(link.isPasswordProtected);
 
-        if (!isPasswordProtected) {
-          const decryptedNote = await decryptSecureShare(
-            params.encryptedData,
-            params.iv,
-            params.key,
-          );
+        if (!link.isPasswordProtected) {
+          const decryptedNote = await decryptSecureShare(link);
           setNote(decryptedNote);
         }
       } catch (err: unknown) {
@@ -55,16 +47,8 @@ export const ShareViewer = () => {
     setError(null);
 
     try {
-      const params = parseShareUrl(window.location.href);
-      if (!params.encryptedData || !params.iv || !params.key) {
-        throw new Error("Incomplete share link.");
-      }
-      const decryptedNote = await decryptSecureShare(
-        params.encryptedData,
-        params.iv,
-        params.key,
-        password,
-      );
+      const link = parseShareUrl(window.location.href);
+      const decryptedNote = await decryptSecureShare(link, password);
       setNote(decryptedNote);
       setNeedsPassword(false);
     } catch (err: unknown) {
@@ -150,9 +134,15 @@ export const ShareViewer = () => {
           <div className="bg-card border border-border rounded-lg p-6">
             <h1 className="text-3xl font-bold mb-4">{note.title}</h1>
             {note.content && (
-              <div className="prose prose-invert max-w-none whitespace-pre-wrap mb-6">
-                {note.content}
-              </div>
+              <MarkdownContent
+                content={note.content}
+                // Links shared before snippets had labels used the id
+                snippets={(note.snippets ?? []).map((s) => ({
+                  ...s,
+                  label: s.label ?? s.id,
+                }))}
+                className="mb-6"
+              />
             )}
             {note.snippets && note.snippets.length > 0 && (
               <div className="space-y-4">
@@ -165,6 +155,11 @@ export const ShareViewer = () => {
                     className="bg-background rounded-lg border border-border overflow-hidden"
                   >
                     <p className="text-xs text-muted-foreground px-4 py-2 bg-secondary/30">
+                      {snippet.label && (
+                        <span className="font-mono text-primary mr-2">
+                          [{snippet.label}]
+                        </span>
+                      )}
                       Language: {snippet.language}
                     </p>
                     <pre className="p-4 text-sm overflow-x-auto">
@@ -0,0 +1,213 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Copy, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { SyncConfig } from '@/lib/storage';
+import { SyncError, formatSyncCode } from '@/lib/sync';
+import { WebDavCredentials } from '@/lib/webdav';
+
+type SyncBackend = 'server' | 'webdav';
+
+export function SyncDialog({
+  open,
+  onOpenChange,
+  config,
+  isSyncing,
+  lastSyncedAt,
+  error,
+  onConnect,
+  onConnectWebDav,
+  onSyncNow,
+  onDisconnect,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  config: SyncConfig | null;
+  isSyncing: boolean;
+  lastSyncedAt: number | null;
+  error: string | null;
+  onConnect: (serverUrl: string) => Promise<void>;
+  onConnectWebDav: (credentials: WebDavCredentials) => Promise<void>;
+  onSyncNow: () => Promise<void>;
+  onDisconnect: () => Promise<void>;
+}) {
+  const [backend, setBackend] = useState<SyncBackend>('server');
+  const [serverUrl, setServerUrl] = useState('');
+  const [webDav, setWebDav] = useState<WebDavCredentials>({ folderUrl: '', username: '', password: '' });
+  const [isConnecting, setIsConnecting] = useState(false);
+
+  const handleConnect = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsConnecting(true);
+    try {
+      if (backend === 'webdav') {
+        await onConnectWebDav(webDav);
+        setWebDav({ folderUrl: '', username: '', password: '' });
+        toast.success('Sync is set up. Join the folder from your other devices.');
+      } else {
+        await onConnect(serverUrl);
+        toast.success('Sync is set up. Enter the sync code on your other devices.');
+      }
+    } catch (error) {
+      console.error('Failed to set up sync:', error);
+      toast.error(error instanceof SyncError ? error.message : 'Failed to set up sync');
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
+  const handleCopyCode = async () => {
+    if (!config || config.backend === 'webdav') return;
+    await navigator.clipboard.writeText(formatSyncCode(config));
+    toast.success('Sync code copied to clipboard');
+  };
+
+  const handleDisconnect = async () => {
+    if (!window.confirm('Stop syncing this vault on this device? Nothing is deleted.')) return;
+    await onDisconnect();
+    toast.success('Sync turned off on this device');
+  };
+
+  const syncStatus = (
+    <p className={`text-xs ${error ? 'text-destructive' : 'text-muted-foreground'}`}>
+      {error ?? (lastSyncedAt ? `Last synced ${new Date(lastSyncedAt).toLocaleTimeString()}` : 'Not synced yet')}
+    </p>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Sync Devices</DialogTitle>
+          <DialogDescription>
+            Notes are synced through a sync server or a WebDAV folder as encrypted envelopes. Neither ever
+            sees your password, your keys or the content of your notes.
+          </DialogDescription>
+        </DialogHeader>
+
+        {config?.backend === 'webdav' ? (
+          <div className="grid gap-4 py-4">
+            <div className="space-y-1">
+              <p className="text-xs font-medium text-muted-foreground">WebDAV folder</p>
+              <p className="text-sm break-all">{config.folderUrl}</p>
+              <p className="text-xs text-muted-foreground">Signed in as {config.username}</p>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              On another device, choose "Join a synced vault" on the login screen and enter this folder, the WebDAV
+              username and password, and the vault's password.
+            </p>
+            {syncStatus}
+          </div>
+        ) : config ? (
+          <div className="grid gap-4 py-4">
+            <div className="space-y-1">
+              <p className="text-xs font-medium text-muted-foreground">Server</p>
+              <p className="text-sm break-all">{config.serverUrl}</p>
+            </div>
+            <div className="space-y-1">
+              <p className="text-xs font-medium text-muted-foreground">Sync code</p>
+              <div className="flex gap-2">
+                <Input value={formatSyncCode(config)} readOnly className="font-mono text-xs" />
+                <Button type="button" variant="outline" size="icon" onClick={handleCopyCode} title="Copy sync code">
+                  <Copy className="w-4 h-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                On another device, choose "Join a synced vault" on the login screen and enter the server and this
+                code. Anyone with the code can download the encrypted vault, so share it only with your devices.
+              </p>
+            </div>
+            {syncStatus}
+          </div>
+        ) : (
+          <form id="sync-connect-form" onSubmit={handleConnect} className="grid gap-2 py-4">
+            <ToggleGroup
+              type="single"
+              size="sm"
+              value={backend}
+              onValueChange={(value) => value && setBackend(value as SyncBackend)}
+              className="justify-start"
+            >
+              <ToggleGroupItem value="server" className="text-xs">
+                Sync server
+              </ToggleGroupItem>
+              <ToggleGroupItem value="webdav" className="text-xs">
+                WebDAV folder
+              </ToggleGroupItem>
+            </ToggleGroup>
+            {backend === 'webdav' ? (
+              <>
+                <Input
+                  type="url"
+                  placeholder="https://cloud.example.com/remote.php/dav/files/me/Notes"
+                  value={webDav.folderUrl}
+                  onChange={(e) => setWebDav({ ...webDav, folderUrl: e.target.value })}
+                  required
+                />
+                <Input
+                  type="text"
+                  placeholder="Username"
+                  value={webDav.username}
+                  onChange={(e) => setWebDav({ ...webDav, username: e.target.value })}
+                  autoComplete="off"
+                  required
+                />
+                <Input
+                  type="password"
+                  placeholder="Password or app password"
+                  value={webDav.password}
+                  onChange={(e) => setWebDav({ ...webDav, password: e.target.value })}
+                  autoComplete="new-password"
+                  required
+                />
+                <p className="text-xs text-muted-foreground">
+                  Each note is stored as its own encrypted file in the folder. Use an empty folder, and an app
+                  password if your server offers them; it is kept encrypted under this vault's key.
+                </p>
+              </>
+            ) : (
+              <>
+                <Input
+                  type="url"
+                  placeholder="https://sync.example.com"
+                  value={serverUrl}
+                  onChange={(e) => setServerUrl(e.target.value)}
+                  required
+                />
+                <p className="text-xs text-muted-foreground">
+                  A new sync space is created on the server and this vault is uploaded to it.
+                </p>
+              </>
+            )}
+          </form>
+        )}
+
+        <DialogFooter>
+          {config ? (
+            <>
+              <Button type="button" variant="outline" onClick={handleDisconnect} disabled={isSyncing}>
+                Turn off sync
+              </Button>
+              <Button type="button" onClick={onSyncNow} disabled={isSyncing}>
+                <RefreshCw className={`w-4 h-4 mr-2 ${isSyncing ? 'animate-spin' : ''}`} />
+                {isSyncing ? 'Syncing...' : 'Sync now'}
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" form="sync-connect-form" disabled={isConnecting}>
+                {isConnecting ? 'Connecting...' : 'Set up sync'}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
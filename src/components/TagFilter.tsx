@@ -0,0 +1,84 @@
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Settings2 } from "lucide-react";
+import { TagCount, TagMatchMode } from "@/lib/tags";
+
+interface TagFilterProps {
+  tags: TagCount[];
+  selected: string[];
+  mode: TagMatchMode;
+  onToggle: (tag: string) => void;
+  onModeChange: (mode: TagMatchMode) => void;
+  onClear: () => void;
+  onManage: () => void;
+}
+
+export const TagFilter = ({
+  tags,
+  selected,
+  mode,
+  onToggle,
+  onModeChange,
+  onClear,
+  onManage,
+}: TagFilterProps) => {
+  if (tags.length === 0) return null;
+
+  return (
+    <div className="px-2 pb-2 space-y-1.5">
+      <div className="flex items-center gap-1">
+        <span className="text-xs text-muted-foreground flex-1">Tags</span>
+        {selected.length > 1 && (
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={mode}
+            onValueChange={(value) => value && onModeChange(value as TagMatchMode)}
+          >
+            <ToggleGroupItem value="and" className="h-6 px-2 text-xs" title="Notes with every selected tag">
+              All
+            </ToggleGroupItem>
+            <ToggleGroupItem value="or" className="h-6 px-2 text-xs" title="Notes with any selected tag">
+              Any
+            </ToggleGroupItem>
+          </ToggleGroup>
+        )}
+        {selected.length > 0 && (
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={onClear}>
+            Clear
+          </Button>
+        )}
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          title="Manage tags"
+          onClick={onManage}
+        >
+          <Settings2 className="w-3.5 h-3.5" />
+        </Button>
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {tags.map(({ tag, count }) => {
+          const isSelected = selected.includes(tag);
+          return (
+            <button
+              key={tag}
+              type="button"
+              onClick={() => onToggle(tag)}
+              aria-pressed={isSelected}
+              className={`inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs transition-colors ${
+                isSelected
+                  ? "border-primary bg-primary text-primary-foreground"
+                  : "border-border text-muted-foreground hover:text-foreground"
+              }`}
+            >
+              {tag}
+              <span className="opacity-70">{count}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
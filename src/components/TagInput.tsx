@@ -0,0 +1,67 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Tag, X } from "lucide-react";
+import { normaliseTag } from "@/lib/tags";
+
+interface TagInputProps {
+  tags: string[];
+  suggestions: string[];
+  onChange: (tags: string[]) => void;
+}
+
+// Shared by every TagInput; the list only ever holds tag names
+const SUGGESTIONS_ID = "note-tag-suggestions";
+
+export const TagInput = ({ tags, suggestions, onChange }: TagInputProps) => {
+  const [draft, setDraft] = useState("");
+
+  const addTag = (value: string) => {
+    const tag = normaliseTag(value);
+    setDraft("");
+    if (tag && !tags.includes(tag)) onChange([...tags, tag]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      addTag(draft);
+    } else if (e.key === "Backspace" && !draft && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      <Tag className="w-3.5 h-3.5 text-muted-foreground" />
+      {tags.map((tag) => (
+        <Badge key={tag} variant="secondary" className="gap-1 font-normal">
+          {tag}
+          <button
+            type="button"
+            onClick={() => onChange(tags.filter((t) => t !== tag))}
+            className="text-muted-foreground hover:text-foreground"
+            aria-label={`Remove tag ${tag}`}
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </Badge>
+      ))}
+      <input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => draft && addTag(draft)}
+        list={SUGGESTIONS_ID}
+        placeholder={tags.length === 0 ? "Add tags..." : "Add tag"}
+        className="flex-1 min-w-24 bg-transparent text-xs text-foreground placeholder:text-muted-foreground focus:outline-none"
+      />
+      <datalist id={SUGGESTIONS_ID}>
+        {suggestions
+          .filter((tag) => !tags.includes(tag))
+          .map((tag) => (
+            <option key={tag} value={tag} />
+          ))}
+      </datalist>
+    </div>
+  );
+};
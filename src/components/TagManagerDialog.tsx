@@ -0,0 +1,139 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Check, Pencil, Trash2, X } from 'lucide-react';
+import { TagCount, normaliseTag } from '@/lib/tags';
+
+export function TagManagerDialog({
+  open,
+  onOpenChange,
+  tags,
+  onRename,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tags: TagCount[];
+  onRename: (from: string, to: string | null) => Promise<void>;
+}) {
+  const [editing, setEditing] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) setEditing(null);
+  }, [open]);
+
+  const target = normaliseTag(name);
+  const mergesInto = editing && target !== editing && tags.some((t) => t.tag === target);
+
+  const apply = async (from: string, to: string | null) => {
+    setIsLoading(true);
+    try {
+      await onRename(from, to);
+      setEditing(null);
+    } catch (error) {
+      console.error('Tag update failed:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing || !target) return;
+    if (target === editing) {
+      setEditing(null);
+      return;
+    }
+    apply(editing, target);
+  };
+
+  const handleDelete = (tag: string, count: number) => {
+    const notes = count === 1 ? '1 note' : `${count} notes`;
+    if (window.confirm(`Remove the tag "${tag}" from ${notes}?`)) {
+      apply(tag, null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Manage Tags</DialogTitle>
+          <DialogDescription>
+            Changes apply to every note in this vault. Renaming a tag to one that already exists merges the two.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-80 overflow-y-auto space-y-1 py-2">
+          {tags.length === 0 && (
+            <p className="text-sm text-muted-foreground">No tags yet.</p>
+          )}
+          {tags.map(({ tag, count }) =>
+            editing === tag ? (
+              <form key={tag} onSubmit={handleSubmit} className="space-y-1">
+                <div className="flex items-center gap-1">
+                  <Input
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    className="h-8 text-sm"
+                    autoFocus
+                    required
+                  />
+                  <Button type="submit" size="icon" className="h-8 w-8" disabled={isLoading} title="Save">
+                    <Check className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => setEditing(null)}
+                    disabled={isLoading}
+                    title="Cancel"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+                {mergesInto && (
+                  <p className="text-xs text-muted-foreground">
+                    "{tag}" will be merged into "{target}".
+                  </p>
+                )}
+              </form>
+            ) : (
+              <div key={tag} className="flex items-center gap-1">
+                <span className="flex-1 truncate text-sm">{tag}</span>
+                <span className="text-xs text-muted-foreground w-8 text-right">{count}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => {
+                    setEditing(tag);
+                    setName(tag);
+                  }}
+                  disabled={isLoading}
+                  title="Rename or merge"
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                  onClick={() => handleDelete(tag, count)}
+                  disabled={isLoading}
+                  title="Remove from all notes"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </Button>
+              </div>
+            ),
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
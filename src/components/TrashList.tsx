@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { SidebarMenu, SidebarMenuItem } from "@/components/ui/sidebar";
+import { FileText, RotateCcw, Trash2 } from "lucide-react";
+import { Note, NoteMeta } from "@/lib/storage";
+import { getPurgeTime } from "@/lib/trash";
+
+// How long trashed notes are kept; 0 keeps them until deleted by hand
+const RETENTION_OPTIONS = [
+  { value: 7, label: "7 days" },
+  { value: 30, label: "30 days" },
+  { value: 90, label: "90 days" },
+  { value: 0, label: "Forever" },
+];
+
+interface TrashListProps {
+  notes: Note[];
+  titleIndex: Record<string, NoteMeta>;
+  retentionDays: number;
+  onRetentionChange: (days: number) => void;
+  onRestore: (note: Note) => void;
+  onDeleteForever: (note: Note) => void;
+}
+
+export const TrashList = ({
+  notes,
+  titleIndex,
+  retentionDays,
+  onRetentionChange,
+  onRestore,
+  onDeleteForever,
+}: TrashListProps) => {
+  // The note awaiting confirmation before it is deleted for good
+  const [pendingDelete, setPendingDelete] = useState<Note | null>(null);
+
+  const describePurge = (meta: NoteMeta | undefined) => {
+    const purgeAt = meta ? getPurgeTime(meta, retentionDays) : null;
+    if (purgeAt === null) return "Kept until deleted";
+    const days = Math.max(0, Math.ceil((purgeAt - Date.now()) / 86400000));
+    return days === 0 ? "Deleted today" : `Deleted in ${days} ${days === 1 ? "day" : "days"}`;
+  };
+
+  return (
+    <>
+      <div className="px-2 pb-2 space-y-1">
+        <label className="text-xs text-muted-foreground">Keep trashed notes for</label>
+        <Select
+          value={String(retentionDays)}
+          onValueChange={(value) => onRetentionChange(Number(value))}
+        >
+          <SelectTrigger className="h-8 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RETENTION_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={String(option.value)}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {notes.length === 0 ? (
+        <p className="px-4 py-2 text-xs text-muted-foreground">Trash is empty</p>
+      ) : (
+        <SidebarMenu>
+          {notes.map((note) => (
+            <SidebarMenuItem key={note.id}>
+              <div className="flex items-center gap-1 px-2 py-1">
+                <FileText className="w-4 h-4 shrink-0 text-muted-foreground" />
+                <div className="flex-1 min-w-0">
+                  <div className="truncate text-sm">
+                    {titleIndex[note.id]?.title}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {describePurge(titleIndex[note.id])}
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  title="Restore"
+                  onClick={() => onRestore(note)}
+                >
+                  <RotateCcw className="w-3.5 h-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                  title="Delete forever"
+                  onClick={() => setPendingDelete(note)}
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </Button>
+              </div>
+            </SidebarMenuItem>
+          ))}
+        </SidebarMenu>
+      )}
+
+      <AlertDialog
+        open={pendingDelete !== null}
+        onOpenChange={(open) => {
+          if (!open) setPendingDelete(null);
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this note forever?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete ? titleIndex[pendingDelete.id]?.title : ""}" and its
+              version history will be permanently removed from this device.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => {
+                if (pendingDelete) onDeleteForever(pendingDelete);
+              }}
+            >
+              Delete forever
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
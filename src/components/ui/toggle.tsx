@@ -40,4 +40,4 @@ const Toggle = React.forwardRef<
 
 Toggle.displayName = TogglePrimitive.Root.displayName;
 
-export { Toggle };
+export { Toggle, toggleVariants };
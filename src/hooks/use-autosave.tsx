@@ -0,0 +1,53 @@
+import * as React from "react";
+import { useOnlineStatus } from "@/hooks/use-online-status";
+
+export type SaveStatus = "saved" | "saving" | "offline" | "error";
+
+const AUTOSAVE_DELAY_MS = 2000;
+
+/**
+ * Debounces saves: every call to schedule() restarts the delay, and save runs
+ * once edits pause. Returns the status to show in the UI; unsaved edits count
+ * as saving, since a save is already on its way.
+ * @param isDirty Whether there are edits that have not been saved.
+ * @param save Stores the edits; it should do nothing if they are already saved.
+ */
+export function useAutosave(
+  isDirty: boolean,
+  save: () => Promise<void>,
+  delayMs = AUTOSAVE_DELAY_MS,
+) {
+  const saveRef = React.useRef(save);
+  saveRef.current = save;
+  const timer = React.useRef<number>();
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [hasFailed, setHasFailed] = React.useState(false);
+  const isOnline = useOnlineStatus();
+
+  const run = React.useCallback(async () => {
+    setIsSaving(true);
+    try {
+      await saveRef.current();
+      setHasFailed(false);
+    } catch (error) {
+      console.error("Autosave failed:", error);
+      setHasFailed(true);
+    } finally {
+      setIsSaving(false);
+    }
+  }, []);
+
+  const schedule = React.useCallback(() => {
+    window.clearTimeout(timer.current);
+    timer.current = window.setTimeout(run, delayMs);
+  }, [run, delayMs]);
+
+  React.useEffect(() => () => window.clearTimeout(timer.current), []);
+
+  let status: SaveStatus = "saved";
+  if (hasFailed) status = "error";
+  else if (isDirty || isSaving) status = "saving";
+  else if (!isOnline) status = "offline";
+
+  return { status, schedule, clearError: () => setHasFailed(false) };
+}
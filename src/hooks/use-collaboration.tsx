@@ -0,0 +1,107 @@
+import * as React from "react";
+import { CodeSnippet, CollabLink, NoteContent } from "@/lib/storage";
+import {
+  CollabPeer,
+  CollabSession,
+  CollabStatus,
+  startCollabSession,
+} from "@/lib/collab";
+
+/**
+ * Keeps the open note in its live session while it has one: edits in the
+ * editor are shared as they are made, and collaborators' edits and cursors
+ * come back.
+ * @param noteId The open note, or null.
+ * @param link The note's session, or undefined when it is not shared.
+ * @param vaultKey The vault key, which encrypts the stored document.
+ * @param content The editor's note content.
+ * @param snippets The editor's snippets.
+ * @param onRemoteChange Receives the note after collaborators changed it.
+ */
+export function useCollaboration(
+  noteId: string | null,
+  link: CollabLink | undefined,
+  vaultKey: CryptoKey | null,
+  content: string,
+  snippets: CodeSnippet[],
+  onRemoteChange: (content: NoteContent) => void,
+) {
+  const [status, setStatus] = React.useState<CollabStatus | null>(null);
+  const [peers, setPeers] = React.useState<CollabPeer[]>([]);
+  const session = React.useRef<CollabSession | null>(null);
+  const onRemoteChangeRef = React.useRef(onRemoteChange);
+  onRemoteChangeRef.current = onRemoteChange;
+  const editorState = React.useMemo<NoteContent>(
+    () => ({
+      content,
+      snippets: snippets.map(({ id, label, code, language }) => ({
+        id,
+        label,
+        code,
+        language,
+      })),
+    }),
+    [content, snippets],
+  );
+  const latestState = React.useRef(editorState);
+  latestState.current = editorState;
+
+  const relayUrl = link?.relayUrl;
+  const sharedKey = link?.key;
+  const name = link?.name;
+  React.useEffect(() => {
+    if (!noteId || !relayUrl || !sharedKey || !name || !vaultKey) return;
+
+    let isCancelled = false;
+    startCollabSession({
+      noteId,
+      link: { relayUrl, key: sharedKey, name },
+      vaultKey,
+      initial: latestState.current,
+      onChange: (next) => onRemoteChangeRef.current(next),
+      onStatus: setStatus,
+      onPeers: setPeers,
+    })
+      .then((started) => {
+        if (isCancelled) {
+          started.stop();
+          return;
+        }
+        session.current = started;
+        // Edits made while the session was starting
+        started.update(latestState.current);
+      })
+      .catch((error) => {
+        console.error("Failed to start the live session:", error);
+        if (!isCancelled) setStatus("offline");
+      });
+
+    return () => {
+      isCancelled = true;
+      session.current?.stop();
+      session.current = null;
+      setStatus(null);
+      setPeers([]);
+    };
+  }, [noteId, relayUrl, sharedKey, name, vaultKey]);
+
+  React.useEffect(() => {
+    session.current?.update(editorState);
+  }, [editorState]);
+
+  // Tell the others before the page goes away, not when the relay notices
+  React.useEffect(() => {
+    const handlePageHide = () => session.current?.stop();
+    window.addEventListener("pagehide", handlePageHide);
+    return () => window.removeEventListener("pagehide", handlePageHide);
+  }, []);
+
+  const setSelection = React.useCallback(
+    (field: string, anchor: number, head: number) => {
+      session.current?.setSelection(field, anchor, head);
+    },
+    [],
+  );
+
+  return { status, peers, setSelection };
+}
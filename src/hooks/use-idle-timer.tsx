@@ -0,0 +1,41 @@
+import * as React from "react";
+
+const ACTIVITY_EVENTS = ["keydown", "mousemove", "mousedown", "wheel", "touchstart"];
+const CHECK_INTERVAL_MS = 5000;
+
+/**
+ * Calls onIdle once when there has been no keyboard or mouse activity for
+ * timeoutMs. Elapsed time is measured from timestamps, so throttled timers in
+ * background tabs still lock on time. A timeout of 0 disables the timer.
+ */
+export function useIdleTimer(timeoutMs: number, onIdle: () => void) {
+  const onIdleRef = React.useRef(onIdle);
+  onIdleRef.current = onIdle;
+
+  React.useEffect(() => {
+    if (timeoutMs <= 0) return;
+
+    let lastActivity = Date.now();
+    let fired = false;
+    const onActivity = () => {
+      lastActivity = Date.now();
+    };
+
+    const interval = window.setInterval(() => {
+      if (!fired && Date.now() - lastActivity >= timeoutMs) {
+        fired = true;
+        onIdleRef.current();
+      }
+    }, CHECK_INTERVAL_MS);
+
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, onActivity, { passive: true }),
+    );
+    return () => {
+      window.clearInterval(interval);
+      ACTIVITY_EVENTS.forEach((event) =>
+        window.removeEventListener(event, onActivity),
+      );
+    };
+  }, [timeoutMs]);
+}
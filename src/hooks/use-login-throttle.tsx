@@ -0,0 +1,37 @@
+import * as React from "react";
+import { getLoginAttempts } from "@/lib/storage";
+
+const TICK_MS = 1000;
+
+/**
+ * Tracks the failed login attempts of a vault and ticks down its lockout.
+ * Call refresh after recording an attempt so the countdown starts.
+ */
+export function useLoginThrottle(vaultId: string | null) {
+  const [attempts, setAttempts] = React.useState(() =>
+    vaultId ? getLoginAttempts(vaultId) : { failures: 0, lockedUntil: 0 },
+  );
+  const [now, setNow] = React.useState(Date.now);
+
+  const refresh = React.useCallback(() => {
+    setAttempts(
+      vaultId ? getLoginAttempts(vaultId) : { failures: 0, lockedUntil: 0 },
+    );
+    setNow(Date.now());
+  }, [vaultId]);
+
+  React.useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const remainingMs = Math.max(0, attempts.lockedUntil - now);
+  const isLockedOut = remainingMs > 0;
+
+  React.useEffect(() => {
+    if (!isLockedOut) return;
+    const interval = window.setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => window.clearInterval(interval);
+  }, [isLockedOut]);
+
+  return { failures: attempts.failures, remainingMs, isLockedOut, refresh };
+}
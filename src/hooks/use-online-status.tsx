@@ -0,0 +1,20 @@
+import * as React from "react";
+
+/**
+ * Tracks whether the browser believes it has a network connection.
+ */
+export function useOnlineStatus() {
+  const [isOnline, setIsOnline] = React.useState(() => navigator.onLine);
+
+  React.useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener("online", update);
+    window.addEventListener("offline", update);
+    return () => {
+      window.removeEventListener("online", update);
+      window.removeEventListener("offline", update);
+    };
+  }, []);
+
+  return isOnline;
+}
@@ -0,0 +1,84 @@
+import * as React from "react";
+import { clearSyncConfig, getSyncConfig } from "@/lib/storage";
+import {
+  SyncError,
+  connectSync,
+  connectWebDavSync,
+  syncVault,
+} from "@/lib/sync";
+import { WebDavCredentials } from "@/lib/webdav";
+import { VaultChange } from "@/lib/tabSync";
+import { useOnlineStatus } from "@/hooks/use-online-status";
+
+const SYNC_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Syncs the active vault with its sync server or WebDAV folder, if it has
+ * one: on unlock, when the connection comes back, and then every minute.
+ * @param encryptionKey The vault key; nothing syncs while it is null.
+ * @param onChanges Receives the local changes each sync made.
+ */
+export function useSync(
+  encryptionKey: CryptoKey | null,
+  onChanges: (changes: VaultChange[]) => void,
+) {
+  const onChangesRef = React.useRef(onChanges);
+  onChangesRef.current = onChanges;
+  const [config, setConfig] = React.useState(getSyncConfig);
+  const [isSyncing, setIsSyncing] = React.useState(false);
+  const [lastSyncedAt, setLastSyncedAt] = React.useState<number | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const isOnline = useOnlineStatus();
+
+  const syncNow = React.useCallback(async () => {
+    if (!encryptionKey || !getSyncConfig()) return;
+    setIsSyncing(true);
+    try {
+      const result = await syncVault(encryptionKey);
+      onChangesRef.current(result.changes);
+      setLastSyncedAt(Date.now());
+      setError(null);
+    } catch (e) {
+      console.error("Sync failed:", e);
+      setError(e instanceof SyncError ? e.message : "Sync failed.");
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [encryptionKey]);
+
+  const target =
+    config && (config.backend === "webdav" ? config.folderUrl : config.spaceId);
+  React.useEffect(() => {
+    if (!target || !isOnline) return;
+    syncNow();
+    const interval = window.setInterval(syncNow, SYNC_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, [target, isOnline, syncNow]);
+
+  const connect = async (serverUrl: string) => {
+    setConfig(await connectSync(serverUrl));
+  };
+
+  const connectWebDav = async (credentials: WebDavCredentials) => {
+    if (!encryptionKey) return;
+    setConfig(await connectWebDavSync(credentials, encryptionKey));
+  };
+
+  const disconnect = async () => {
+    await clearSyncConfig();
+    setConfig(null);
+    setLastSyncedAt(null);
+    setError(null);
+  };
+
+  return {
+    config,
+    isSyncing,
+    lastSyncedAt,
+    error,
+    syncNow,
+    connect,
+    connectWebDav,
+    disconnect,
+  };
+}
@@ -0,0 +1,90 @@
+import { EventSource } from "eventsource";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  CollabSession,
+  CollabStatus,
+  createCollabKey,
+  createDocument,
+  startCollabSession,
+} from "./collab";
+import { CollabLink, NoteContent, addVault } from "./storage";
+import { createVault } from "./vault";
+import { RunningServer, startServer } from "@/test/servers";
+
+describe("live collaboration through the relay", () => {
+  let relay: RunningServer;
+  let vaultKey: CryptoKey;
+  const sessions: CollabSession[] = [];
+
+  /**
+   * Opens a note's session and keeps track of what its editor would show.
+   */
+  const openNote = async (
+    noteId: string,
+    link: CollabLink,
+    initial: NoteContent,
+  ) => {
+    const editor = { content: initial, status: "connecting" as CollabStatus };
+    const session = await startCollabSession({
+      noteId,
+      link,
+      vaultKey,
+      initial,
+      onChange: (content) => {
+        editor.content = content;
+      },
+      onStatus: (status) => {
+        editor.status = status;
+      },
+      onPeers: () => {},
+    });
+    sessions.push(session);
+    return { session, editor };
+  };
+
+  beforeAll(async () => {
+    vi.stubGlobal("EventSource", EventSource);
+    relay = await startServer("server/collab-relay.js");
+    const created = await createVault("alice", "correct horse");
+    addVault("alice", created.user);
+    vaultKey = created.vaultKey;
+  });
+
+  afterAll(async () => {
+    for (const session of sessions) session.stop();
+    // Let the goodbyes reach the relay before it stops
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    await relay?.stop();
+  });
+
+  it("keeps what a joined note typed before the document arrived", async () => {
+    const owner: CollabLink = {
+      relayUrl: relay.url,
+      key: createCollabKey(),
+      name: "Alice",
+    };
+    const shared = { content: "Hello", snippets: [] };
+    await createDocument("owned", shared, vaultKey);
+
+    const guest = await openNote(
+      "joined",
+      { ...owner, name: "Bob" },
+      { content: "", snippets: [] },
+    );
+    await vi.waitFor(() => expect(guest.editor.status).toBe("waiting"));
+    const snippet = {
+      id: "s1",
+      label: "Query",
+      language: "sql",
+      code: "select 1;",
+    };
+    guest.session.update({ content: "Hi. ", snippets: [snippet] });
+
+    const host = await openNote("owned", owner, shared);
+
+    const merged = { content: "Hi. Hello", snippets: [snippet] };
+    await vi.waitFor(() => expect(guest.editor.content).toEqual(merged));
+    expect(guest.editor.status).toBe("live");
+    await vi.waitFor(() => expect(host.editor.content).toEqual(merged));
+  });
+});
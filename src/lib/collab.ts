@@ -0,0 +1,743 @@
+import * as Y from "yjs";
+import {
+  ENVELOPE_VERSION,
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+  encodeEnvelope,
+  openEnvelopeBytes,
+  parseEnvelope,
+  sealEnvelope,
+} from "./encryption";
+import {
+  CodeSnippet,
+  CollabLink,
+  Note,
+  NoteContent,
+  NoteMeta,
+  deleteCollabDoc,
+  generateId,
+  getCollabDoc,
+  saveCollabDoc,
+  saveNote,
+} from "./storage";
+import { encryptNoteField } from "./noteCrypto";
+import { findTextChange } from "./textChange";
+
+// A note edited together is a Yjs document: the content as one shared text,
+// and each snippet as a map of its label, language, position and code. Every
+// update and cursor position is encrypted under the note's shared key before
+// it reaches the relay, which only passes the envelopes on.
+
+export const DEFAULT_RELAY_URL = "http://localhost:8788";
+
+// How many cursor colours there are; see the collab-* classes in index.css
+export const PRESENCE_COLORS = 6;
+
+// Collaborators resend their cursor this often, and are dropped when nothing
+// was heard from them for longer than the timeout
+const PRESENCE_INTERVAL_MS = 15 * 1000;
+const PRESENCE_TIMEOUT_MS = 45 * 1000;
+// The document is stored this long after the last change
+const PERSIST_DELAY_MS = 1000;
+
+// Transaction origins, telling this client's edits from received ones
+const LOCAL_ORIGIN = "local";
+const REMOTE_ORIGIN = "remote";
+
+type RelayMessageType = "hello" | "update" | "presence" | "bye";
+
+interface RelayMessage {
+  from: string;
+  type: RelayMessageType;
+  // The encrypted body, as an encoded envelope; "bye" has none
+  data?: string;
+}
+
+// connecting: the relay has not answered yet
+// waiting: connected, but no collaborator has sent the note yet
+// live: edits are exchanged
+// offline: the relay cannot be reached; edits are sent once it can
+export type CollabStatus = "connecting" | "waiting" | "live" | "offline";
+
+export interface CollabPeer {
+  clientId: string;
+  name: string;
+  // Index into the cursor colours
+  color: number;
+  // "content" for the note's text, or the id of the snippet being edited;
+  // null until the collaborator places a cursor
+  cursor: { field: string; anchor: number; head: number } | null;
+}
+
+// A collaborator's cursor as it travels: positions relative to the shared
+// text, so they stay put while others edit
+interface PresenceCursor {
+  field: string;
+  anchor: unknown;
+  head: unknown;
+}
+
+interface PeerState {
+  name: string;
+  cursor: PresenceCursor | null;
+  seenAt: number;
+}
+
+export interface CollabSession {
+  // Shares the editor's new state as edits to the document
+  update: (next: NoteContent) => void;
+  // Shares where this client's cursor or selection is
+  setSelection: (field: string, anchor: number, head: number) => void;
+  stop: () => void;
+}
+
+export interface CollabSessionOptions {
+  noteId: string;
+  link: CollabLink;
+  vaultKey: CryptoKey;
+  // What the editor shows when the session starts
+  initial: NoteContent;
+  // Receives the note after collaborators changed it
+  onChange: (content: NoteContent) => void;
+  onStatus: (status: CollabStatus) => void;
+  onPeers: (peers: CollabPeer[]) => void;
+}
+
+/**
+ * Thrown when a collaboration invite or relay address is not usable.
+ */
+export class CollabError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CollabError";
+  }
+}
+
+const toBase64Url = (bytes: ArrayBuffer | Uint8Array): string =>
+  arrayBufferToBase64(bytes)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const fromBase64Url = (value: string): ArrayBuffer =>
+  base64ToArrayBuffer(value.replace(/-/g, "+").replace(/_/g, "/"));
+
+const toArrayBuffer = (bytes: Uint8Array): ArrayBuffer =>
+  bytes.buffer.slice(
+    bytes.byteOffset,
+    bytes.byteOffset + bytes.byteLength,
+  ) as ArrayBuffer;
+
+/**
+ * Checks a relay address and strips trailing slashes.
+ * @throws CollabError if it is not an http(s) URL.
+ */
+export const normaliseRelayUrl = (relayUrl: string): string => {
+  const trimmed = relayUrl.trim().replace(/\/+$/, "");
+  try {
+    const { protocol } = new URL(trimmed);
+    if (protocol === "http:" || protocol === "https:") return trimmed;
+  } catch {
+    // Reported below
+  }
+  throw new CollabError("Enter the relay's http(s) address.");
+};
+
+/**
+ * Generates a new shared key for a note.
+ */
+export const createCollabKey = (): string =>
+  toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+
+/**
+ * Builds the code that invites someone into a note's session. It holds the
+ * shared key, so it must only be given to collaborators.
+ */
+export const formatInviteCode = (link: Pick<CollabLink, "relayUrl" | "key">) =>
+  `${link.relayUrl}#${link.key}`;
+
+export const parseInviteCode = (
+  code: string,
+): Pick<CollabLink, "relayUrl" | "key"> | null => {
+  const trimmed = code.trim();
+  const separator = trimmed.lastIndexOf("#");
+  const key = trimmed.slice(separator + 1);
+  if (separator === -1 || !/^[A-Za-z0-9_-]{43}$/.test(key)) return null;
+  try {
+    return { relayUrl: normaliseRelayUrl(trimmed.slice(0, separator)), key };
+  } catch {
+    return null;
+  }
+};
+
+const importSharedKey = (key: string): Promise<CryptoKey> =>
+  crypto.subtle.importKey("raw", fromBase64Url(key), { name: "AES-GCM" }, false, [
+    "encrypt",
+    "decrypt",
+  ]);
+
+/**
+ * Derives the relay room of a note from its shared key, so the relay can
+ * group the collaborators without learning the key.
+ */
+const roomIdFor = async (key: string): Promise<string> =>
+  toBase64Url(
+    await crypto.subtle.digest(
+      "SHA-256",
+      new TextEncoder().encode(`zks-note|collab|room|${key}`),
+    ),
+  );
+
+/**
+ * Builds the context label of a relayed message, so the relay cannot pass one
+ * off as another kind or as someone else's.
+ */
+const messageAad = (roomId: string, from: string, type: RelayMessageType) =>
+  `zks-note|collab|${roomId}|${from}|${type}`;
+
+/**
+ * Builds the context label that ties a stored document to its note.
+ */
+const documentAad = (noteId: string, version: number) =>
+  `zks-note|${noteId}|collab-doc|v${version}`;
+
+const contentText = (doc: Y.Doc) => doc.getText("content");
+
+const snippetMaps = (doc: Y.Doc) => doc.getMap<Y.Map<unknown>>("snippets");
+
+const readSnippet = (
+  id: string,
+  shared: Y.Map<unknown>,
+): (CodeSnippet & { order: number }) | null => {
+  const code = shared.get("code");
+  if (!(code instanceof Y.Text)) return null;
+  return {
+    id,
+    label: String(shared.get("label") ?? ""),
+    language: String(shared.get("language") ?? "plaintext"),
+    code: code.toString(),
+    order: Number(shared.get("order") ?? 0),
+  };
+};
+
+/**
+ * Reads a note's content out of its document, with the snippets in the order
+ * they were added.
+ */
+export const readDocument = (doc: Y.Doc): NoteContent => {
+  const snippets = [...snippetMaps(doc).entries()]
+    .map(([id, shared]) => readSnippet(id, shared))
+    .filter((snippet) => snippet !== null)
+    .sort((a, b) => a.order - b.order || a.id.localeCompare(b.id))
+    .map(({ order: _order, ...snippet }) => snippet);
+  return { content: contentText(doc).toString(), snippets };
+};
+
+const applyTextChange = (text: Y.Text, previous: string, next: string) => {
+  const change = findTextChange(previous, next);
+  if (!change) return;
+  // The shared text may have moved on; edits past its end land at the end
+  const index = Math.min(change.index, text.length);
+  const removed = Math.min(change.removed, text.length - index);
+  if (removed > 0) text.delete(index, removed);
+  if (change.inserted) text.insert(index, change.inserted);
+};
+
+/**
+ * Turns the difference between two editor states into edits to the document.
+ * Working from the edit rather than from the document keeps collaborators'
+ * concurrent edits, which the previous state does not contain yet.
+ * @param doc The note's document.
+ * @param previous The editor state the document last matched.
+ * @param next The editor's new state.
+ */
+const applyEdits = (doc: Y.Doc, previous: NoteContent, next: NoteContent) => {
+  doc.transact(() => {
+    applyTextChange(contentText(doc), previous.content, next.content);
+
+    const shared = snippetMaps(doc);
+    const nextIds = new Set(next.snippets.map((s) => s.id));
+    for (const snippet of previous.snippets) {
+      if (!nextIds.has(snippet.id)) shared.delete(snippet.id);
+    }
+
+    let order = Math.max(
+      0,
+      ...[...shared.values()].map((s) => Number(s.get("order") ?? 0)),
+    );
+    for (const snippet of next.snippets) {
+      const existing = shared.get(snippet.id);
+      const before =
+        previous.snippets.find((s) => s.id === snippet.id) ??
+        (existing && readSnippet(snippet.id, existing));
+
+      if (!existing) {
+        // Removed by a collaborator while this client still showed it
+        if (before) continue;
+        const code = new Y.Text();
+        code.insert(0, snippet.code);
+        const created = new Y.Map<unknown>();
+        created.set("label", snippet.label);
+        created.set("language", snippet.language);
+        created.set("order", ++order);
+        created.set("code", code);
+        shared.set(snippet.id, created);
+        continue;
+      }
+
+      if (snippet.label !== before?.label) existing.set("label", snippet.label);
+      if (snippet.language !== before?.language) {
+        existing.set("language", snippet.language);
+      }
+      const code = existing.get("code");
+      if (code instanceof Y.Text) {
+        applyTextChange(code, before?.code ?? code.toString(), snippet.code);
+      }
+    }
+  }, LOCAL_ORIGIN);
+};
+
+/**
+ * Stores a note's document encrypted under the vault key.
+ * @param noteId The shared note.
+ * @param state The document, as a Yjs update.
+ * @param key The vault key.
+ */
+const saveDocumentState = async (
+  noteId: string,
+  state: Uint8Array,
+  key: CryptoKey,
+): Promise<void> => {
+  await saveCollabDoc({
+    id: noteId,
+    encryptedState: await sealEnvelope(toArrayBuffer(state), key, {
+      aad: documentAad(noteId, ENVELOPE_VERSION),
+    }),
+  });
+};
+
+const loadDocumentState = async (
+  noteId: string,
+  key: CryptoKey,
+): Promise<Uint8Array | null> => {
+  const stored = await getCollabDoc(noteId);
+  if (!stored) return null;
+  const envelope = parseEnvelope(stored.encryptedState);
+  return new Uint8Array(
+    await openEnvelopeBytes(envelope, key, documentAad(noteId, envelope.v)),
+  );
+};
+
+/**
+ * Creates the document of a note that is about to be shared, from its
+ * current content. Collaborators who join start without one and receive it.
+ * @param noteId The note being shared.
+ * @param content The note's current content.
+ * @param key The vault key.
+ */
+export const createDocument = async (
+  noteId: string,
+  content: NoteContent,
+  key: CryptoKey,
+): Promise<void> => {
+  const doc = new Y.Doc();
+  applyEdits(doc, { content: "", snippets: [] }, content);
+  await saveDocumentState(noteId, Y.encodeStateAsUpdate(doc), key);
+  doc.destroy();
+};
+
+/**
+ * Shares a note in a new live session. The session lives in the note's
+ * encrypted metadata, so the note rejoins it whenever it is opened.
+ * @param note The stored note.
+ * @param meta Its decrypted metadata.
+ * @param content The note's current content, which collaborators receive.
+ * @param link The relay and the name to show; the shared key is generated.
+ * @param key The vault key.
+ * @returns The updated note and metadata.
+ */
+export const shareNote = async (
+  note: Note,
+  meta: NoteMeta,
+  content: NoteContent,
+  link: Pick<CollabLink, "relayUrl" | "name">,
+  key: CryptoKey,
+): Promise<{ note: Note; meta: NoteMeta }> => {
+  await createDocument(note.id, content, key);
+  const updatedMeta: NoteMeta = {
+    ...meta,
+    collab: {
+      relayUrl: normaliseRelayUrl(link.relayUrl),
+      key: createCollabKey(),
+      name: link.name,
+    },
+  };
+  const updatedNote = await saveNote({
+    ...note,
+    encryptedMeta: await encryptNoteField(note.id, "meta", updatedMeta, key),
+  });
+  return { note: updatedNote, meta: updatedMeta };
+};
+
+/**
+ * Takes a note out of its live session on this device. The note keeps its
+ * content; the others carry on without it.
+ * @param note The stored note.
+ * @param meta Its decrypted metadata.
+ * @param key The vault key.
+ * @returns The updated note and metadata.
+ */
+export const stopSharingNote = async (
+  note: Note,
+  meta: NoteMeta,
+  key: CryptoKey,
+): Promise<{ note: Note; meta: NoteMeta }> => {
+  const { collab: _previous, ...updatedMeta } = meta;
+  const updatedNote = await saveNote({
+    ...note,
+    encryptedMeta: await encryptNoteField(note.id, "meta", updatedMeta, key),
+  });
+  await deleteCollabDoc(note.id);
+  return { note: updatedNote, meta: updatedMeta };
+};
+
+/**
+ * Creates a note that joins someone else's session. It starts empty and
+ * receives the content from the collaborators once it is opened.
+ * @param invite The relay and shared key, from an invite code.
+ * @param name The name to show to the others.
+ * @param key The vault key.
+ * @returns The new note and its metadata.
+ */
+export const joinSharedNote = async (
+  invite: Pick<CollabLink, "relayUrl" | "key">,
+  name: string,
+  key: CryptoKey,
+): Promise<{ note: Note; meta: NoteMeta }> => {
+  const id = generateId();
+  const content: NoteContent = { content: "", snippets: [] };
+  const meta: NoteMeta = {
+    title: "Shared Note",
+    language: "plaintext",
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    collab: { ...invite, name },
+  };
+  const note = await saveNote({
+    id,
+    encryptedContent: await encryptNoteField(id, "content", content, key),
+    encryptedMeta: await encryptNoteField(id, "meta", meta, key),
+  });
+  return { note, meta };
+};
+
+/**
+ * Connects to a relay room. Server-sent events bring the others' messages in;
+ * each message out is a POST.
+ */
+const connectRelay = (
+  relayUrl: string,
+  roomId: string,
+  clientId: string,
+  handlers: {
+    onOpen: () => void;
+    onMessage: (message: RelayMessage) => void;
+    onError: () => void;
+  },
+) => {
+  const roomUrl = `${relayUrl}/v1/rooms/${roomId}`;
+  const events = new EventSource(
+    `${roomUrl}/events?client=${encodeURIComponent(clientId)}`,
+  );
+  events.onopen = handlers.onOpen;
+  events.onerror = handlers.onError;
+  events.onmessage = (event: MessageEvent<string>) => {
+    try {
+      handlers.onMessage(JSON.parse(event.data));
+    } catch (e) {
+      console.error("Failed to parse a message from the relay", e);
+    }
+  };
+
+  return {
+    send: async (message: RelayMessage): Promise<void> => {
+      const response = await fetch(`${roomUrl}/messages`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(message),
+        // Lets the goodbye go out while the page unloads
+        keepalive: message.type === "bye",
+      });
+      if (!response.ok) {
+        throw new Error(`The relay answered with status ${response.status}.`);
+      }
+    },
+    close: () => events.close(),
+  };
+};
+
+const colorFor = (clientId: string): number => {
+  let hash = 0;
+  for (const char of clientId) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  return Math.abs(hash) % PRESENCE_COLORS;
+};
+
+/**
+ * Joins a note's live session. Edits go out to the other collaborators as
+ * they are made and theirs come in, merged by Yjs so nobody's edits are lost.
+ * The document is kept encrypted on this device, so edits made offline merge
+ * when the session resumes.
+ * @returns The session, once the document is loaded and the relay is being
+ * contacted.
+ */
+export const startCollabSession = async ({
+  noteId,
+  link,
+  vaultKey,
+  initial,
+  onChange,
+  onStatus,
+  onPeers,
+}: CollabSessionOptions): Promise<CollabSession> => {
+  const sharedKey = await importSharedKey(link.key);
+  const roomId = await roomIdFor(link.key);
+  const clientId = toBase64Url(crypto.getRandomValues(new Uint8Array(12)));
+  const doc = new Y.Doc();
+  const peers = new Map<string, PeerState>();
+  let isStopped = false;
+
+  // Without a stored document this client waits for a collaborator's copy;
+  // seeding its own would duplicate the text when the two merge
+  const stored = await loadDocumentState(noteId, vaultKey);
+  let hasDocument = stored !== null;
+  // The editor state the document last matched
+  let shadow = initial;
+  if (stored) {
+    Y.applyUpdate(doc, stored, REMOTE_ORIGIN);
+    // Edits made while the session was closed become edits to the document
+    applyEdits(doc, readDocument(doc), initial);
+  }
+
+  const textFor = (field: string): Y.Text | null => {
+    if (field === "content") return contentText(doc);
+    const code = snippetMaps(doc).get(field)?.get("code");
+    return code instanceof Y.Text ? code : null;
+  };
+
+  const resolvePosition = (text: Y.Text, position: unknown): number | null => {
+    try {
+      const absolute = Y.createAbsolutePositionFromRelativePosition(
+        Y.createRelativePositionFromJSON(position),
+        doc,
+      );
+      return absolute?.type === text ? absolute.index : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const emitPeers = () => {
+    if (isStopped) return;
+    onPeers(
+      [...peers].map(([peerId, peer]) => {
+        const text = peer.cursor && textFor(peer.cursor.field);
+        const anchor = text && resolvePosition(text, peer.cursor?.anchor);
+        const head = text && resolvePosition(text, peer.cursor?.head);
+        return {
+          clientId: peerId,
+          name: peer.name,
+          color: colorFor(peerId),
+          cursor:
+            peer.cursor && anchor != null && head != null
+              ? { field: peer.cursor.field, anchor, head }
+              : null,
+        };
+      }),
+    );
+  };
+
+  const setStatus = (status: CollabStatus) => {
+    if (!isStopped) onStatus(status);
+  };
+
+  // Messages go out one at a time, so updates arrive in the order they were
+  // made even though each is encrypted first
+  let outbox: Promise<void> = Promise.resolve();
+  const send = (type: RelayMessageType, body?: Uint8Array | string) => {
+    outbox = outbox
+      .then(async () => {
+        const data =
+          body === undefined
+            ? undefined
+            : encodeEnvelope(
+                await sealEnvelope(
+                  typeof body === "string" ? body : toArrayBuffer(body),
+                  sharedKey,
+                  { aad: messageAad(roomId, clientId, type) },
+                ),
+              );
+        await relay.send({ from: clientId, type, data });
+      })
+      .catch((error) => console.error("Failed to send to the relay:", error));
+  };
+
+  let selection: PresenceCursor | null = null;
+  let isPresenceQueued = false;
+  // Cursor moves that pile up while a send is running go out as one
+  const sendPresence = () => {
+    if (isPresenceQueued) return;
+    isPresenceQueued = true;
+    outbox.then(() => {
+      isPresenceQueued = false;
+      if (!isStopped) {
+        send("presence", JSON.stringify({ name: link.name, cursor: selection }));
+      }
+    });
+  };
+
+  let persistTimer: number | undefined;
+  const persist = () => {
+    window.clearTimeout(persistTimer);
+    persistTimer = undefined;
+    saveDocumentState(noteId, Y.encodeStateAsUpdate(doc), vaultKey).catch(
+      (error) => console.error("Failed to store the shared document:", error),
+    );
+  };
+
+  const schedulePersist = () => {
+    window.clearTimeout(persistTimer);
+    persistTimer = window.setTimeout(persist, PERSIST_DELAY_MS);
+  };
+
+  doc.on("update", (update: Uint8Array, origin: unknown) => {
+    if (isStopped) return;
+    if (origin === LOCAL_ORIGIN) send("update", update);
+    if (origin === REMOTE_ORIGIN && hasDocument) {
+      shadow = readDocument(doc);
+      onChange(shadow);
+    }
+    emitPeers();
+    if (hasDocument) schedulePersist();
+  });
+
+  /**
+   * Takes over the first copy of the document a collaborator sends. This
+   * client's note started out empty, so everything the editor shows by now
+   * was typed while waiting; it is replayed on top as local edits.
+   */
+  const adoptDocument = (update: Uint8Array) => {
+    Y.applyUpdate(doc, update, REMOTE_ORIGIN);
+    hasDocument = true;
+    setStatus("live");
+    applyEdits(doc, { content: "", snippets: [] }, shadow);
+    shadow = readDocument(doc);
+    onChange(shadow);
+    schedulePersist();
+  };
+
+  const receive = async (message: RelayMessage) => {
+    if (isStopped || message.from === clientId) return;
+    if (message.type === "bye") {
+      peers.delete(message.from);
+      emitPeers();
+      return;
+    }
+    if (!message.data) return;
+
+    let body: Uint8Array;
+    try {
+      const envelope = parseEnvelope(message.data);
+      body = new Uint8Array(
+        await openEnvelopeBytes(
+          envelope,
+          sharedKey,
+          messageAad(roomId, message.from, message.type),
+        ),
+      );
+    } catch (error) {
+      console.error("Ignored a relayed message that failed to decrypt", error);
+      return;
+    }
+
+    if (message.type === "hello") {
+      // A collaborator joined: send what they are missing, and where we are
+      if (hasDocument) send("update", Y.encodeStateAsUpdate(doc, body));
+      sendPresence();
+    } else if (message.type === "update") {
+      if (hasDocument) Y.applyUpdate(doc, body, REMOTE_ORIGIN);
+      else adoptDocument(body);
+    } else if (message.type === "presence") {
+      const presence = JSON.parse(new TextDecoder().decode(body));
+      peers.set(message.from, {
+        name: String(presence.name ?? "").slice(0, 60) || "Anonymous",
+        cursor: presence.cursor ?? null,
+        seenAt: Date.now(),
+      });
+      emitPeers();
+    }
+  };
+
+  let inbox: Promise<void> = Promise.resolve();
+  const relay = connectRelay(link.relayUrl, roomId, clientId, {
+    onOpen: () => {
+      setStatus(hasDocument ? "live" : "waiting");
+      // Ask for what others have, and offer everything this client has, which
+      // covers edits made while the relay could not be reached
+      send("hello", Y.encodeStateVector(doc));
+      if (hasDocument) send("update", Y.encodeStateAsUpdate(doc));
+      sendPresence();
+    },
+    onMessage: (message) => {
+      inbox = inbox
+        .then(() => receive(message))
+        .catch((error) =>
+          console.error("Failed to apply a relayed message:", error),
+        );
+    },
+    onError: () => setStatus("offline"),
+  });
+
+  const heartbeat = window.setInterval(() => {
+    sendPresence();
+    const cutoff = Date.now() - PRESENCE_TIMEOUT_MS;
+    for (const [peerId, peer] of peers) {
+      if (peer.seenAt < cutoff) peers.delete(peerId);
+    }
+    emitPeers();
+  }, PRESENCE_INTERVAL_MS);
+
+  setStatus("connecting");
+
+  return {
+    update: (next) => {
+      if (isStopped) return;
+      if (hasDocument) applyEdits(doc, shadow, next);
+      shadow = next;
+    },
+    setSelection: (field, anchor, head) => {
+      const text = textFor(field);
+      if (isStopped || !hasDocument || !text) return;
+      selection = {
+        field,
+        anchor: Y.relativePositionToJSON(
+          Y.createRelativePositionFromTypeIndex(text, Math.min(anchor, text.length)),
+        ),
+        head: Y.relativePositionToJSON(
+          Y.createRelativePositionFromTypeIndex(text, Math.min(head, text.length)),
+        ),
+      };
+      sendPresence();
+    },
+    stop: () => {
+      if (isStopped) return;
+      if (persistTimer !== undefined) persist();
+      send("bye");
+      isStopped = true;
+      window.clearInterval(heartbeat);
+      relay.close();
+      // The goodbye and any pending update still go out before the document
+      // is released
+      outbox.then(() => doc.destroy());
+    },
+  };
+};
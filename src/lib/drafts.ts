@@ -0,0 +1,133 @@
+import {
+  ENVELOPE_VERSION,
+  openEnvelope,
+  parseEnvelope,
+  sealEnvelope,
+} from "./encryption";
+import {
+  Note,
+  NoteContent,
+  NoteDraft,
+  NoteMeta,
+  deleteDraft,
+  getDrafts,
+  saveDraft,
+} from "./storage";
+import { NoteSnapshot, saveNoteVersion, snapshotsEqual } from "./noteHistory";
+import { decryptNoteField } from "./noteCrypto";
+import { migrateSnippets } from "./snippets";
+
+/**
+ * Builds the context label that ties a draft blob to its note.
+ */
+const draftAad = (noteId: string, version: number) =>
+  `zks-note|${noteId}|draft|v${version}`;
+
+// Journal writes run one after another, so a slow encryption can never let
+// an older draft land after a newer one or after the draft was discarded
+let journal: Promise<void> = Promise.resolve();
+
+const enqueue = (task: () => Promise<void>): Promise<void> => {
+  const run = journal.then(task);
+  journal = run.catch(() => {});
+  return run;
+};
+
+/**
+ * Journals the unsaved state of a note, replacing its previous draft.
+ * @param noteId The note being edited.
+ * @param snapshot The editor's current title and content.
+ * @param key The vault key.
+ */
+export const writeDraft = (
+  noteId: string,
+  snapshot: NoteSnapshot,
+  key: CryptoKey,
+): Promise<void> => {
+  return enqueue(async () => {
+    await saveDraft({
+      id: noteId,
+      savedAt: Date.now(),
+      encryptedSnapshot: await sealEnvelope(JSON.stringify(snapshot), key, {
+        aad: draftAad(noteId, ENVELOPE_VERSION),
+      }),
+    });
+  });
+};
+
+/**
+ * Removes a note's draft once its edits are saved.
+ */
+export const discardDraft = (noteId: string): Promise<void> => {
+  return enqueue(() => deleteDraft(noteId));
+};
+
+const decryptDraft = async (
+  draft: NoteDraft,
+  key: CryptoKey,
+): Promise<NoteSnapshot> => {
+  const envelope = parseEnvelope(draft.encryptedSnapshot);
+  return JSON.parse(
+    await openEnvelope(envelope, key, draftAad(draft.id, envelope.v)),
+  );
+};
+
+/**
+ * Saves the drafts left behind by a crash or closed tab into their notes.
+ * The version each draft replaces stays in the note's history. Drafts of
+ * deleted notes, and drafts that cannot be decrypted, are discarded.
+ * @param notes The stored notes.
+ * @param index Decrypted note metadata by id.
+ * @param key The vault key.
+ * @returns The notes and metadata with recovered edits applied, and how many
+ * notes were recovered.
+ */
+export const replayDrafts = async (
+  notes: Note[],
+  index: Record<string, NoteMeta>,
+  key: CryptoKey,
+): Promise<{
+  notes: Note[];
+  index: Record<string, NoteMeta>;
+  recovered: number;
+}> => {
+  const updatedNotes = [...notes];
+  const updatedIndex = { ...index };
+  let recovered = 0;
+
+  for (const draft of await getDrafts()) {
+    const position = updatedNotes.findIndex((n) => n.id === draft.id);
+    try {
+      if (position !== -1 && updatedIndex[draft.id]) {
+        const note = updatedNotes[position];
+        const snapshot = migrateSnippets(await decryptDraft(draft, key));
+        const stored: NoteSnapshot = {
+          title: updatedIndex[note.id].title,
+          ...(await decryptNoteField<NoteContent>(
+            note.id,
+            "content",
+            note.encryptedContent,
+            key,
+          )),
+        };
+        // A crash between saving and discarding leaves a draft already saved
+        if (!snapshotsEqual(stored, snapshot)) {
+          const saved = await saveNoteVersion(
+            note,
+            updatedIndex[draft.id],
+            snapshot,
+            key,
+          );
+          updatedNotes[position] = saved.note;
+          updatedIndex[draft.id] = saved.meta;
+          recovered++;
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to recover the draft of note ${draft.id}`, error);
+    }
+    await discardDraft(draft.id);
+  }
+
+  return { notes: updatedNotes, index: updatedIndex, recovered };
+};
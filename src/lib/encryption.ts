@@ -1,4 +1,5 @@
 // src/lib/encryption.ts
+import { argon2id } from "hash-wasm";
 
 // Helper functions for string/buffer conversions
 export const stringToArrayBuffer = (str: string): ArrayBuffer => {
@@ -13,7 +14,12 @@ export const arrayBufferToBase64 = (
   buffer: ArrayBuffer | Uint8Array,
 ): string => {
   const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
-  return window.btoa(String.fromCharCode(...bytes));
+  // Convert in chunks; spreading a large buffer overflows the call stack
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return window.btoa(binary);
 };
 
 export const base64ToArrayBuffer = (base64: string): ArrayBuffer => {
@@ -26,17 +32,62 @@ export const base64ToArrayBuffer = (base64: string): ArrayBuffer => {
   return bytes.buffer;
 };
 
+/**
+ * Compares two strings in time that depends only on their lengths, not on
+ * where they first differ. Use it for verifiers and other secret values.
+ * @returns True if the strings are identical.
+ */
+export const timingSafeEqual = (a: string, b: string): boolean => {
+  const aBytes = new TextEncoder().encode(a);
+  const bBytes = new TextEncoder().encode(b);
+
+  let diff = aBytes.length ^ bBytes.length;
+  for (let i = 0; i < aBytes.length; i++) {
+    diff |= aBytes[i] ^ (bBytes[i] ?? 0);
+  }
+  return diff === 0;
+};
+
+/**
+ * Thrown when ciphertext cannot be decrypted.
+ */
+export class DecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DecryptionError";
+  }
+}
+
+const PBKDF2_ITERATIONS = 250000;
+
+const DECRYPTION_FAILED_MESSAGE =
+  "Failed to decrypt data. The key may be incorrect or the data may have been tampered with.";
+
+/**
+ * Thrown when ciphertext fails to authenticate against the additional data
+ * it was expected to be bound to, e.g. a note blob moved onto another note.
+ */
+export class IntegrityError extends DecryptionError {
+  constructor(message: string) {
+    super(message);
+    this.name = "IntegrityError";
+  }
+}
+
 /**
  * Derives an encryption key from a password and salt using PBKDF2.
  * @param password The user's password.
  * @param salt A random salt (should be stored and reused for the same password).
  * @param iterations The number of iterations (higher is more secure).
+ * @param extractable Whether the key may be exported; only legacy keys that
+ * are about to be wrapped or compared need this.
  * @returns A CryptoKey object for use with AES-GCM.
  */
 export const deriveKey = async (
   password: string,
   salt: BufferSource,
-  iterations = 250000,
+  iterations = PBKDF2_ITERATIONS,
+  extractable = false,
 ): Promise<CryptoKey> => {
   const saltU8 =
     salt instanceof Uint8Array ? salt : new Uint8Array(salt as ArrayBuffer);
@@ -58,7 +109,262 @@ export const deriveKey = async (
     },
     baseKey,
     { name: "AES-GCM", length: 256 },
-    true,
+    extractable,
+    ["encrypt", "decrypt"],
+  );
+};
+
+// HKDF "info" labels that keep every key derived from the master key in its own domain
+const VERIFIER_INFO = "zks-note/verifier/v1";
+const KEK_INFO = "zks-note/kek/v1";
+const RECOVERY_KEK_INFO = "zks-note/recovery-kek/v1";
+
+// Password KDF settings recorded on each account so the cost can be raised later
+export type KdfParams =
+  | { name: "PBKDF2-SHA256"; iterations: number }
+  | {
+      name: "Argon2id";
+      memoryKiB: number;
+      iterations: number;
+      parallelism: number;
+    };
+
+// The KDF for new accounts; older accounts are upgraded to it on login
+export const DEFAULT_KDF: Extract<KdfParams, { name: "Argon2id" }> = {
+  name: "Argon2id",
+  memoryKiB: 65536,
+  iterations: 3,
+  parallelism: 1,
+};
+
+// What accounts created before KDF parameters were stored used
+export const LEGACY_KDF: KdfParams = {
+  name: "PBKDF2-SHA256",
+  iterations: PBKDF2_ITERATIONS,
+};
+
+/**
+ * Checks whether an account's KDF is weaker than DEFAULT_KDF.
+ * @param kdf The KDF parameters stored on the account.
+ */
+export const needsKdfUpgrade = (kdf: KdfParams): boolean => {
+  return (
+    kdf.name !== "Argon2id" ||
+    kdf.memoryKiB < DEFAULT_KDF.memoryKiB ||
+    kdf.iterations < DEFAULT_KDF.iterations
+  );
+};
+
+const toBytes = (source: BufferSource): Uint8Array => {
+  return source instanceof ArrayBuffer
+    ? new Uint8Array(source)
+    : new Uint8Array(source.buffer, source.byteOffset, source.byteLength);
+};
+
+/**
+ * Stretches a password into a master key with the account's KDF.
+ * The master key is never used directly; it only feeds HKDF so the
+ * stored verifier and the key-encryption key cannot be derived from each other.
+ * @param password The user's password.
+ * @param salt The per-account salt.
+ * @param kdf The KDF and cost parameters to use.
+ * @returns A non-extractable HKDF base key.
+ */
+export const deriveMasterKey = async (
+  password: string,
+  salt: BufferSource,
+  kdf: KdfParams = LEGACY_KDF,
+): Promise<CryptoKey> => {
+  let masterBits: BufferSource;
+
+  if (kdf.name === "Argon2id") {
+    // Argon2id runs in the WASM module bundled with hash-wasm
+    const hash = await argon2id({
+      password,
+      salt: toBytes(salt),
+      memorySize: kdf.memoryKiB,
+      iterations: kdf.iterations,
+      parallelism: kdf.parallelism,
+      hashLength: 32,
+      outputType: "binary",
+    });
+    masterBits = new Uint8Array(hash);
+  } else {
+    const baseKey = await crypto.subtle.importKey(
+      "raw",
+      stringToArrayBuffer(password),
+      { name: "PBKDF2" },
+      false,
+      ["deriveBits"],
+    );
+
+    masterBits = await crypto.subtle.deriveBits(
+      {
+        name: "PBKDF2",
+        salt,
+        iterations: kdf.iterations,
+        hash: "SHA-256",
+      },
+      baseKey,
+      256,
+    );
+  }
+
+  return crypto.subtle.importKey("raw", masterBits, { name: "HKDF" }, false, [
+    "deriveBits",
+    "deriveKey",
+  ]);
+};
+
+/**
+ * Derives the password verifier that is stored with the user record.
+ * @param masterKey The HKDF master key from deriveMasterKey.
+ * @returns The base64-encoded verifier.
+ */
+export const deriveVerifier = async (masterKey: CryptoKey): Promise<string> => {
+  const bits = await crypto.subtle.deriveBits(
+    {
+      name: "HKDF",
+      hash: "SHA-256",
+      salt: new Uint8Array(0),
+      info: stringToArrayBuffer(VERIFIER_INFO),
+    },
+    masterKey,
+    256,
+  );
+  return arrayBufferToBase64(bits);
+};
+
+/**
+ * Derives the key-encryption key (KEK) that wraps the vault key.
+ * @param masterKey The HKDF master key from deriveMasterKey.
+ * @returns A non-extractable AES-GCM key used only to encrypt the vault key.
+ */
+export const deriveKeyEncryptionKey = async (
+  masterKey: CryptoKey,
+): Promise<CryptoKey> => {
+  return crypto.subtle.deriveKey(
+    {
+      name: "HKDF",
+      hash: "SHA-256",
+      salt: new Uint8Array(0),
+      info: stringToArrayBuffer(KEK_INFO),
+    },
+    masterKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+};
+
+/**
+ * Derives the key that wraps the vault key for account recovery.
+ * The recovery phrase already carries 256 bits of entropy, so HKDF is
+ * enough and no password stretching is needed.
+ * @param entropy The entropy encoded by the recovery phrase.
+ * @returns A non-extractable AES-GCM key used only to encrypt the vault key.
+ */
+export const deriveRecoveryKey = async (
+  entropy: Uint8Array,
+): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey(
+    "raw",
+    new Uint8Array(entropy),
+    { name: "HKDF" },
+    false,
+    ["deriveKey"],
+  );
+
+  return crypto.subtle.deriveKey(
+    {
+      name: "HKDF",
+      hash: "SHA-256",
+      salt: new Uint8Array(0),
+      info: stringToArrayBuffer(RECOVERY_KEK_INFO),
+    },
+    baseKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+};
+
+/**
+ * Generates a random vault key that encrypts note content.
+ * It is extractable only so that it can be wrapped by a KEK.
+ * @returns A new AES-GCM key.
+ */
+export const generateVaultKey = async (): Promise<CryptoKey> => {
+  return crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, [
+    "encrypt",
+    "decrypt",
+  ]);
+};
+
+/**
+ * Wraps a key with AES-GCM so it can be persisted.
+ * @param key The key to wrap.
+ * @param wrappingKey The KEK.
+ * @param aad The context label to bind the wrapped key to.
+ * @returns The wrapped key as an envelope.
+ */
+export const wrapKey = async (
+  key: CryptoKey,
+  wrappingKey: CryptoKey,
+  aad: string,
+): Promise<CipherEnvelope> => {
+  return sealEnvelope(
+    await crypto.subtle.exportKey("raw", key),
+    wrappingKey,
+    { aad },
+  );
+};
+
+/**
+ * Unwraps a key previously wrapped with wrapKey.
+ * @param wrapped The wrapped key, in any format parseEnvelope accepts.
+ * @param wrappingKey The KEK.
+ * @param aad The context label the wrapped key is expected to be bound to.
+ * @param extractable Whether the key may be wrapped again; keys that are only
+ * used to encrypt and decrypt should stay non-extractable.
+ * @returns The AES-GCM key.
+ */
+export const unwrapKey = async (
+  wrapped: unknown,
+  wrappingKey: CryptoKey,
+  aad: string,
+  extractable = false,
+): Promise<CryptoKey> => {
+  const rawKey = await openEnvelopeBytes(
+    parseEnvelope(wrapped),
+    wrappingKey,
+    aad,
+  );
+
+  return crypto.subtle.importKey(
+    "raw",
+    rawKey,
+    { name: "AES-GCM" },
+    extractable,
+    ["encrypt", "decrypt"],
+  );
+};
+
+/**
+ * Returns a copy of an AES-GCM key that can no longer be exported, for keys
+ * that outlive the operation that needed to wrap them.
+ * @param key The key to lock down.
+ * @returns The same key material as a non-extractable key.
+ */
+export const toNonExtractableKey = async (
+  key: CryptoKey,
+): Promise<CryptoKey> => {
+  if (!key.extractable) return key;
+  return crypto.subtle.importKey(
+    "raw",
+    await crypto.subtle.exportKey("raw", key),
+    { name: "AES-GCM" },
+    false,
     ["encrypt", "decrypt"],
   );
 };
@@ -73,25 +379,29 @@ export const generateSalt = (length = 16): Uint8Array => {
 };
 
 /**
- * Encrypts data using AES-GCM.
- * @param data The string data to encrypt.
+ * Encrypts bytes using AES-GCM.
+ * @param data The bytes to encrypt.
  * @param key The CryptoKey to use for encryption.
+ * @param additionalData Optional data the ciphertext is bound to (AAD).
  * @returns An object containing the base64-encoded encrypted data and the iv.
  */
-export const encryptData = async (
-  data: string,
+export const encryptBytes = async (
+  data: ArrayBuffer,
   key: CryptoKey,
+  additionalData?: string,
 ): Promise<{ encryptedData: string; iv: string }> => {
   const iv = window.crypto.getRandomValues(new Uint8Array(12)); // 96-bit IV for AES-GCM
-  const encodedData = stringToArrayBuffer(data);
 
   const encryptedBuffer = await window.crypto.subtle.encrypt(
     {
       name: "AES-GCM",
       iv: iv,
+      ...(additionalData !== undefined && {
+        additionalData: stringToArrayBuffer(additionalData),
+      }),
     },
     key,
-    encodedData,
+    data,
   );
 
   return {
@@ -101,42 +411,87 @@ export const encryptData = async (
 };
 
 /**
- * Decrypts data using AES-GCM.
+ * Encrypts data using AES-GCM.
+ * @param data The string data to encrypt.
+ * @param key The CryptoKey to use for encryption.
+ * @param additionalData Optional data the ciphertext is bound to (AAD).
+ * @returns An object containing the base64-encoded encrypted data and the iv.
+ */
+export const encryptData = async (
+  data: string,
+  key: CryptoKey,
+  additionalData?: string,
+): Promise<{ encryptedData: string; iv: string }> => {
+  return encryptBytes(stringToArrayBuffer(data), key, additionalData);
+};
+
+/**
+ * Decrypts bytes using AES-GCM.
  * @param encryptedData The base64-encoded encrypted data.
  * @param key The CryptoKey to use for decryption.
  * @param iv The base64-encoded initialization vector.
- * @returns The decrypted string data.
+ * @param additionalData The AAD used at encryption time, if any.
+ * @returns The decrypted bytes.
+ * @throws IntegrityError if additionalData was given and does not authenticate.
+ * AES-GCM cannot tell this apart from a wrong key, so callers should only pass
+ * AAD with a key that is already known to be correct.
  */
-export const decryptData = async (
+export const decryptBytes = async (
   encryptedData: string,
   key: CryptoKey,
   iv: string,
-): Promise<string> => {
+  additionalData?: string,
+): Promise<ArrayBuffer> => {
   try {
     const encryptedBuffer = base64ToArrayBuffer(encryptedData);
     const ivBuffer = new Uint8Array(base64ToArrayBuffer(iv));
 
-    const decryptedBuffer = await window.crypto.subtle.decrypt(
+    return await window.crypto.subtle.decrypt(
       {
         name: "AES-GCM",
         iv: ivBuffer,
+        ...(additionalData !== undefined && {
+          additionalData: stringToArrayBuffer(additionalData),
+        }),
       },
       key,
       encryptedBuffer,
     );
-
-    return arrayBufferToString(decryptedBuffer);
   } catch (error) {
     console.error("Decryption error:", error);
-    throw new Error(
-      "Failed to decrypt data. The key may be incorrect or the data may have been tampered with.",
-    );
+    if (additionalData !== undefined) {
+      throw new IntegrityError(
+        "Encrypted data does not belong here. It may have been moved or tampered with.",
+      );
+    }
+    throw new DecryptionError(DECRYPTION_FAILED_MESSAGE);
   }
 };
 
 /**
- * Hashes a password for storage comparison (not for encryption).
- * Uses PBKDF2, returning a hash and the salt used.
+ * Decrypts data using AES-GCM.
+ * @param encryptedData The base64-encoded encrypted data.
+ * @param key The CryptoKey to use for decryption.
+ * @param iv The base64-encoded initialization vector.
+ * @param additionalData The AAD used at encryption time, if any.
+ * @returns The decrypted string data.
+ * @throws IntegrityError if additionalData was given and does not authenticate.
+ */
+export const decryptData = async (
+  encryptedData: string,
+  key: CryptoKey,
+  iv: string,
+  additionalData?: string,
+): Promise<string> => {
+  return arrayBufferToString(
+    await decryptBytes(encryptedData, key, iv, additionalData),
+  );
+};
+
+/**
+ * Legacy password hash from before the vault key hierarchy.
+ * It is the exported raw encryption key, so it is only used to recognise
+ * old accounts during migration and must never be stored again.
  * @param password The password to hash.
  * @param salt An optional salt. A new one is generated if not provided.
  * @returns The base64-encoded hash and salt.
@@ -148,7 +503,7 @@ export const hashPassword = async (
   const saltToUse = salt || generateSalt();
   const safeSalt = new Uint8Array(saltToUse).buffer;
 
-  const key = await deriveKey(password, safeSalt);
+  const key = await deriveKey(password, safeSalt, PBKDF2_ITERATIONS, true);
   const rawKey = await crypto.subtle.exportKey("raw", key);
 
   return {
@@ -157,6 +512,321 @@ export const hashPassword = async (
   };
 };
 
+// The current envelope version. Older versions are still parsed:
+// 1 = unbound legacy blobs (notes, .snote exports, share links),
+// 2 = note blobs bound to an AAD label that was not recorded.
+export const ENVELOPE_VERSION = 3;
+const SUPPORTED_ENVELOPE_VERSIONS = [1, 2, 3];
+const ENVELOPE_ALG = "AES-GCM-256";
+// Iteration count every pre-envelope password-based blob was created with
+const LEGACY_PBKDF2_ITERATIONS = 250000;
+
+export type EnvelopeKdf = "none" | "PBKDF2-SHA256";
+
+/**
+ * The single format for every encrypted blob the app stores or transmits.
+ */
+export interface CipherEnvelope {
+  v: number;
+  alg: typeof ENVELOPE_ALG;
+  // How the key was derived; "none" when it is not derived from a password
+  kdf: EnvelopeKdf;
+  kdfParams?: { iterations: number };
+  // Base64 salt for password-derived keys
+  salt?: string;
+  iv: string;
+  // The context label the ciphertext is bound to
+  aad?: string;
+  data: string;
+}
+
+/**
+ * Thrown when encrypted data is not in a recognised envelope format.
+ */
+export class EnvelopeFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EnvelopeFormatError";
+  }
+}
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+const validateEnvelope = (raw: Record<string, unknown>): CipherEnvelope => {
+  if (!SUPPORTED_ENVELOPE_VERSIONS.includes(raw.v as number)) {
+    throw new EnvelopeFormatError(
+      `Unsupported envelope version "${String(raw.v)}". It may have been created by a newer version of ZKS Note.`,
+    );
+  }
+  if (raw.alg !== ENVELOPE_ALG) {
+    throw new EnvelopeFormatError(
+      `Unsupported encryption algorithm "${String(raw.alg)}".`,
+    );
+  }
+  if (raw.kdf !== "none" && raw.kdf !== "PBKDF2-SHA256") {
+    throw new EnvelopeFormatError(
+      `Unsupported key derivation function "${String(raw.kdf)}".`,
+    );
+  }
+  if (!isString(raw.iv) || !isString(raw.data)) {
+    throw new EnvelopeFormatError("Encrypted data is missing its IV or ciphertext.");
+  }
+  if (raw.aad !== undefined && !isString(raw.aad)) {
+    throw new EnvelopeFormatError("Envelope AAD must be a string.");
+  }
+
+  const kdfParams = raw.kdfParams as { iterations?: unknown } | undefined;
+  if (
+    raw.kdf !== "none" &&
+    (!isString(raw.salt) || typeof kdfParams?.iterations !== "number")
+  ) {
+    throw new EnvelopeFormatError("Envelope is missing its salt or KDF parameters.");
+  }
+
+  return {
+    v: raw.v as number,
+    alg: ENVELOPE_ALG,
+    kdf: raw.kdf,
+    ...(raw.kdf !== "none" && {
+      kdfParams: { iterations: kdfParams.iterations as number },
+      salt: raw.salt as string,
+    }),
+    iv: raw.iv,
+    ...(raw.aad !== undefined && { aad: raw.aad as string }),
+    data: raw.data,
+  };
+};
+
+const parseEnvelopeString = (value: string): unknown => {
+  const trimmed = value.trim();
+  if (trimmed.startsWith("{")) {
+    try {
+      return JSON.parse(trimmed);
+    } catch (error) {
+      throw new EnvelopeFormatError("Encrypted data is not valid JSON.");
+    }
+  }
+
+  // Password-protected share keys from before envelopes: salt:iv:ciphertext
+  const parts = trimmed.split(":");
+  if (parts.length === 3) {
+    const [salt, iv, data] = parts;
+    return {
+      v: 1,
+      alg: ENVELOPE_ALG,
+      kdf: "PBKDF2-SHA256",
+      kdfParams: { iterations: LEGACY_PBKDF2_ITERATIONS },
+      salt,
+      iv,
+      data,
+    };
+  }
+
+  try {
+    return JSON.parse(arrayBufferToString(base64ToArrayBuffer(trimmed)));
+  } catch (error) {
+    throw new EnvelopeFormatError("Unrecognised encrypted data format.");
+  }
+};
+
+/**
+ * Parses any encrypted blob the app has ever produced into a CipherEnvelope.
+ * Accepts envelope objects, their JSON or base64 (encodeEnvelope) encodings,
+ * and the legacy note, .snote export and share-key formats.
+ * @param input The stored or received encrypted data.
+ * @returns The normalised envelope.
+ * @throws EnvelopeFormatError for unknown versions or malformed input.
+ */
+export const parseEnvelope = (input: unknown): CipherEnvelope => {
+  const value = isString(input) ? parseEnvelopeString(input) : input;
+  if (!value || typeof value !== "object") {
+    throw new EnvelopeFormatError("Encrypted data is missing or malformed.");
+  }
+  const raw = value as Record<string, unknown>;
+
+  if (raw.alg !== undefined) {
+    return validateEnvelope(raw);
+  }
+
+  // .snote exports from before envelopes
+  if (raw.version !== undefined) {
+    if (raw.version !== "2.0-export" || !Array.isArray(raw.salt)) {
+      throw new EnvelopeFormatError(
+        `Unsupported export version "${String(raw.version)}".`,
+      );
+    }
+    return validateEnvelope({
+      v: 1,
+      alg: ENVELOPE_ALG,
+      kdf: "PBKDF2-SHA256",
+      kdfParams: { iterations: LEGACY_PBKDF2_ITERATIONS },
+      salt: arrayBufferToBase64(Uint8Array.from(raw.salt as number[])),
+      iv: raw.iv,
+      data: raw.encryptedData,
+    });
+  }
+
+  // Note and wrapped-key blobs from before envelopes: { iv, data, v? }
+  return validateEnvelope({
+    v: raw.v ?? 1,
+    alg: ENVELOPE_ALG,
+    kdf: "none",
+    iv: raw.iv,
+    data: raw.data,
+  });
+};
+
+/**
+ * Encodes an envelope as base64 JSON for URLs and other text channels.
+ */
+export const encodeEnvelope = (envelope: CipherEnvelope): string => {
+  return arrayBufferToBase64(stringToArrayBuffer(JSON.stringify(envelope)));
+};
+
+/**
+ * The AES-GCM additional data for an envelope. Current envelopes bind their
+ * whole header, so the recorded AAD, KDF and parameters cannot be altered.
+ */
+const envelopeAad = (
+  envelope: Omit<CipherEnvelope, "iv" | "data">,
+  expectedAad?: string,
+): string | undefined => {
+  if (envelope.v === 1) return undefined;
+  // Version 2 blobs did not record the label they were bound to
+  if (envelope.v === 2) return expectedAad;
+  return JSON.stringify([
+    envelope.v,
+    envelope.alg,
+    envelope.kdf,
+    envelope.kdfParams?.iterations ?? null,
+    envelope.salt ?? null,
+    envelope.aad ?? null,
+  ]);
+};
+
+/**
+ * Encrypts data into a current-version envelope.
+ * @param plaintext The string or bytes to encrypt.
+ * @param key The CryptoKey to use for encryption.
+ * @param options The context label to bind to, and the KDF details if the key
+ * was derived from a password.
+ */
+export const sealEnvelope = async (
+  plaintext: string | ArrayBuffer,
+  key: CryptoKey,
+  options: {
+    aad?: string;
+    kdf?: { salt: string; iterations: number };
+  } = {},
+): Promise<CipherEnvelope> => {
+  const header: Omit<CipherEnvelope, "iv" | "data"> = {
+    v: ENVELOPE_VERSION,
+    alg: ENVELOPE_ALG,
+    kdf: options.kdf ? "PBKDF2-SHA256" : "none",
+    ...(options.kdf && {
+      kdfParams: { iterations: options.kdf.iterations },
+      salt: options.kdf.salt,
+    }),
+    ...(options.aad !== undefined && { aad: options.aad }),
+  };
+  const bytes = isString(plaintext) ? stringToArrayBuffer(plaintext) : plaintext;
+  const { encryptedData, iv } = await encryptBytes(
+    bytes,
+    key,
+    envelopeAad(header),
+  );
+
+  return { ...header, iv, data: encryptedData };
+};
+
+/**
+ * Encrypts data into an envelope under a key derived from a password.
+ * @param plaintext The string or bytes to encrypt.
+ * @param password The password to derive the key from.
+ * @param aad Optional context label to bind to.
+ */
+export const sealEnvelopeWithPassword = async (
+  plaintext: string | ArrayBuffer,
+  password: string,
+  aad?: string,
+): Promise<CipherEnvelope> => {
+  const salt = generateSalt();
+  const iterations = PBKDF2_ITERATIONS;
+  const key = await deriveKey(password, salt as BufferSource, iterations);
+
+  return sealEnvelope(plaintext, key, {
+    aad,
+    kdf: { salt: arrayBufferToBase64(salt), iterations },
+  });
+};
+
+/**
+ * Derives the key for a password-based envelope from its recorded KDF.
+ * @throws EnvelopeFormatError if the envelope is not password-based.
+ */
+export const deriveEnvelopeKey = async (
+  password: string,
+  envelope: CipherEnvelope,
+): Promise<CryptoKey> => {
+  if (envelope.kdf === "none") {
+    throw new EnvelopeFormatError("This data is not protected by a password.");
+  }
+  return deriveKey(
+    password,
+    base64ToArrayBuffer(envelope.salt),
+    envelope.kdfParams.iterations,
+  );
+};
+
+/**
+ * Decrypts an envelope to bytes.
+ * @param envelope The parsed envelope.
+ * @param key The CryptoKey to use for decryption.
+ * @param expectedAad The context label the caller expects the data to be bound
+ * to. When given, a mismatch raises IntegrityError; otherwise failures raise
+ * DecryptionError.
+ */
+export const openEnvelopeBytes = async (
+  envelope: CipherEnvelope,
+  key: CryptoKey,
+  expectedAad?: string,
+): Promise<ArrayBuffer> => {
+  if (
+    envelope.v >= 3 &&
+    expectedAad !== undefined &&
+    envelope.aad !== expectedAad
+  ) {
+    throw new IntegrityError(
+      "Encrypted data does not belong here. It may have been moved or tampered with.",
+    );
+  }
+
+  try {
+    return await decryptBytes(
+      envelope.data,
+      key,
+      envelope.iv,
+      envelopeAad(envelope, expectedAad),
+    );
+  } catch (error) {
+    if (error instanceof IntegrityError && expectedAad === undefined) {
+      throw new DecryptionError(DECRYPTION_FAILED_MESSAGE);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Decrypts an envelope to a string. See openEnvelopeBytes.
+ */
+export const openEnvelope = async (
+  envelope: CipherEnvelope,
+  key: CryptoKey,
+  expectedAad?: string,
+): Promise<string> => {
+  return arrayBufferToString(await openEnvelopeBytes(envelope, key, expectedAad));
+};
+
 /**
  * Generates a secure random token for share links.
  * @param length The desired length of the token.
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { generateVaultKey } from "./encryption";
+import { buildFolderExport } from "./folders";
+import { encryptNoteField } from "./noteCrypto";
+import { FolderMeta, Note, NoteMeta } from "./storage";
+
+describe("folder exports", () => {
+  it("follows folders whose parents loop only once", async () => {
+    const key = await generateVaultKey();
+    // Moved into each other on two devices at once
+    const folderIndex: Record<string, FolderMeta> = {
+      a: { name: "Work", parentId: "b", createdAt: 1 },
+      b: { name: "Archive", parentId: "a", createdAt: 2 },
+    };
+    const notes: Note[] = [];
+    const noteIndex: Record<string, NoteMeta> = {};
+    for (const [id, folderId] of [
+      ["n1", "a"],
+      ["n2", "b"],
+    ]) {
+      notes.push({
+        id,
+        encryptedContent: await encryptNoteField(
+          id,
+          "content",
+          { content: `in ${folderId}`, snippets: [] },
+          key,
+        ),
+      });
+      noteIndex[id] = {
+        title: id,
+        language: "plaintext",
+        createdAt: 1,
+        updatedAt: 1,
+        folderId,
+      };
+    }
+
+    const exported = await buildFolderExport(
+      "a",
+      folderIndex,
+      notes,
+      noteIndex,
+      key,
+    );
+
+    expect(exported).toEqual({
+      name: "Work",
+      notes: [{ title: "n1", createdAt: 1, content: "in a", snippets: [] }],
+      folders: [
+        {
+          name: "Archive",
+          notes: [{ title: "n2", createdAt: 1, content: "in b", snippets: [] }],
+          folders: [],
+        },
+      ],
+    });
+  });
+});
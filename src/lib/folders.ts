@@ -0,0 +1,336 @@
+import {
+  ENVELOPE_VERSION,
+  CipherEnvelope,
+  openEnvelope,
+  parseEnvelope,
+  sealEnvelope,
+} from "./encryption";
+import {
+  Folder,
+  FolderMeta,
+  Note,
+  NoteContent,
+  NoteMeta,
+  deleteFolder,
+  generateId,
+  getFolders,
+  saveFolder,
+  saveNote,
+} from "./storage";
+import { decryptNoteField, encryptNoteField } from "./noteCrypto";
+import { isTrashed } from "./trash";
+import { normaliseTags } from "./tags";
+import { migrateSnippets } from "./snippets";
+
+// A note inside a folder export
+export interface ExportedNote extends NoteContent {
+  title: string;
+  createdAt: number;
+  tags?: string[];
+}
+
+// A folder and everything below it, as written into a folder export
+export interface FolderExport {
+  name: string;
+  notes: ExportedNote[];
+  folders: FolderExport[];
+}
+
+/**
+ * Builds the context label that ties a folder blob to its folder.
+ */
+const folderAad = (folderId: string, version: number) =>
+  `zks-note|${folderId}|folder|v${version}`;
+
+const encryptFolderMeta = (
+  folderId: string,
+  meta: FolderMeta,
+  key: CryptoKey,
+): Promise<CipherEnvelope> => {
+  return sealEnvelope(JSON.stringify(meta), key, {
+    aad: folderAad(folderId, ENVELOPE_VERSION),
+  });
+};
+
+const decryptFolderMeta = async (
+  folder: Folder,
+  key: CryptoKey,
+): Promise<FolderMeta> => {
+  const envelope = parseEnvelope(folder.encryptedMeta);
+  return JSON.parse(
+    await openEnvelope(envelope, key, folderAad(folder.id, envelope.v)),
+  );
+};
+
+/**
+ * Loads every folder and decrypts it into an in-memory index. Like the note
+ * title index, it only lives as long as the unlocked session.
+ * @param key The vault key.
+ * @returns Decrypted folder metadata by folder id.
+ */
+export const loadFolderIndex = async (
+  key: CryptoKey,
+): Promise<Record<string, FolderMeta>> => {
+  const index: Record<string, FolderMeta> = {};
+  for (const folder of await getFolders()) {
+    try {
+      index[folder.id] = await decryptFolderMeta(folder, key);
+    } catch (error) {
+      console.error(`Failed to read folder ${folder.id}`, error);
+      // Keep the folder at the top level so its contents stay reachable
+      index[folder.id] = {
+        name: "Unreadable folder",
+        parentId: null,
+        createdAt: 0,
+      };
+    }
+  }
+  return index;
+};
+
+/**
+ * Re-encrypts and stores a folder's metadata.
+ * @param folderId The folder to update.
+ * @param meta The new metadata.
+ * @param key The vault key.
+ */
+export const updateFolder = async (
+  folderId: string,
+  meta: FolderMeta,
+  key: CryptoKey,
+): Promise<void> => {
+  await saveFolder({
+    id: folderId,
+    encryptedMeta: await encryptFolderMeta(folderId, meta, key),
+  });
+};
+
+/**
+ * Creates an empty folder.
+ * @param name The folder name.
+ * @param parentId The enclosing folder, or null for the top level.
+ * @param key The vault key.
+ * @returns The new folder's id and metadata.
+ */
+export const createFolder = async (
+  name: string,
+  parentId: string | null,
+  key: CryptoKey,
+): Promise<{ id: string; meta: FolderMeta }> => {
+  const id = generateId();
+  const meta: FolderMeta = { name, parentId, createdAt: Date.now() };
+  await updateFolder(id, meta, key);
+  return { id, meta };
+};
+
+/**
+ * Checks whether a folder is the given ancestor or lies somewhere below it.
+ * Stops on cycles, which a tampered index could contain.
+ */
+export const isFolderWithin = (
+  index: Record<string, FolderMeta>,
+  folderId: string | null,
+  ancestorId: string,
+): boolean => {
+  const seen = new Set<string>();
+  while (folderId && !seen.has(folderId)) {
+    if (folderId === ancestorId) return true;
+    seen.add(folderId);
+    folderId = index[folderId]?.parentId ?? null;
+  }
+  return false;
+};
+
+/**
+ * Moves a folder under another folder, or to the top level.
+ * @returns The updated metadata, or null if the move would put the folder
+ * inside itself.
+ */
+export const moveFolder = async (
+  folderId: string,
+  parentId: string | null,
+  index: Record<string, FolderMeta>,
+  key: CryptoKey,
+): Promise<FolderMeta | null> => {
+  if (isFolderWithin(index, parentId, folderId)) return null;
+
+  const meta: FolderMeta = { ...index[folderId], parentId };
+  await updateFolder(folderId, meta, key);
+  return meta;
+};
+
+/**
+ * Moves a folder to the top level if its parents lead back to it. A synced
+ * folder can end up that way when two devices moved folders into each other.
+ * @param folderId The folder that was just stored.
+ * @param key The vault key.
+ * @returns Whether the folder was moved.
+ */
+export const breakFolderCycle = async (
+  folderId: string,
+  key: CryptoKey,
+): Promise<boolean> => {
+  const index = await loadFolderIndex(key);
+  const meta = index[folderId];
+  if (!meta?.parentId || !isFolderWithin(index, meta.parentId, folderId)) {
+    return false;
+  }
+  await updateFolder(folderId, { ...meta, parentId: null }, key);
+  return true;
+};
+
+/**
+ * Moves a note into a folder, or to the top level.
+ * @returns The updated note and metadata.
+ */
+export const moveNoteToFolder = async (
+  note: Note,
+  meta: NoteMeta,
+  folderId: string | null,
+  key: CryptoKey,
+): Promise<{ note: Note; meta: NoteMeta }> => {
+  const { folderId: _previous, ...rest } = meta;
+  const updatedMeta: NoteMeta = folderId ? { ...rest, folderId } : rest;
+  const updatedNote = await saveNote({
+    ...note,
+    encryptedMeta: await encryptNoteField(note.id, "meta", updatedMeta, key),
+  });
+  return { note: updatedNote, meta: updatedMeta };
+};
+
+/**
+ * Deletes a folder. Its notes and subfolders move up into its parent, so
+ * nothing inside it is lost.
+ * @param folderId The folder to delete.
+ * @param folderIndex Decrypted folder metadata by id.
+ * @param notes The stored notes.
+ * @param noteIndex Decrypted note metadata by id.
+ * @param key The vault key.
+ */
+export const removeFolder = async (
+  folderId: string,
+  folderIndex: Record<string, FolderMeta>,
+  notes: Note[],
+  noteIndex: Record<string, NoteMeta>,
+  key: CryptoKey,
+): Promise<void> => {
+  const parentId = folderIndex[folderId]?.parentId ?? null;
+
+  for (const [id, meta] of Object.entries(folderIndex)) {
+    if (meta.parentId === folderId) {
+      await updateFolder(id, { ...meta, parentId }, key);
+    }
+  }
+  for (const note of notes) {
+    const meta = noteIndex[note.id];
+    if (meta?.folderId === folderId) {
+      await moveNoteToFolder(note, meta, parentId, key);
+    }
+  }
+
+  await deleteFolder(folderId);
+};
+
+/**
+ * Collects a folder, its subfolders and their notes for export. Trashed
+ * notes are left out.
+ * @param folderId The folder to export.
+ * @param folderIndex Decrypted folder metadata by id.
+ * @param notes The stored notes.
+ * @param noteIndex Decrypted note metadata by id.
+ * @param key The vault key.
+ * @param visited The folders exported so far, so a parent cycle is only
+ * followed once.
+ */
+export const buildFolderExport = async (
+  folderId: string,
+  folderIndex: Record<string, FolderMeta>,
+  notes: Note[],
+  noteIndex: Record<string, NoteMeta>,
+  key: CryptoKey,
+  visited = new Set<string>(),
+): Promise<FolderExport> => {
+  visited.add(folderId);
+  const exportedNotes: ExportedNote[] = [];
+  for (const note of notes) {
+    const meta = noteIndex[note.id];
+    if (meta?.folderId !== folderId || isTrashed(meta)) continue;
+
+    const content = await decryptNoteField<NoteContent>(
+      note.id,
+      "content",
+      note.encryptedContent,
+      key,
+    );
+    exportedNotes.push({
+      title: meta.title,
+      createdAt: meta.createdAt,
+      ...(meta.tags && { tags: meta.tags }),
+      content: content.content,
+      snippets: content.snippets,
+    });
+  }
+
+  const subfolders: FolderExport[] = [];
+  for (const [id, meta] of Object.entries(folderIndex)) {
+    if (meta.parentId === folderId && !visited.has(id)) {
+      subfolders.push(
+        await buildFolderExport(id, folderIndex, notes, noteIndex, key, visited),
+      );
+    }
+  }
+
+  return {
+    name: folderIndex[folderId]?.name ?? "Folder",
+    notes: exportedNotes,
+    folders: subfolders,
+  };
+};
+
+/**
+ * Recreates an exported folder tree with new ids.
+ * @param data The decrypted folder export.
+ * @param parentId Where to place the imported folder; null for the top level.
+ * @param key The vault key.
+ * @returns The number of notes imported.
+ */
+export const importFolderExport = async (
+  data: FolderExport,
+  parentId: string | null,
+  key: CryptoKey,
+): Promise<number> => {
+  const { id: folderId } = await createFolder(
+    data.name || "Imported Folder",
+    parentId,
+    key,
+  );
+
+  let count = 0;
+  for (const exported of data.notes ?? []) {
+    const id = generateId();
+    const content: NoteContent = migrateSnippets({
+      content: exported.content || "",
+      snippets: exported.snippets || [],
+    });
+    const tags = normaliseTags(exported.tags ?? []);
+    const meta: NoteMeta = {
+      title: exported.title || "Imported Note",
+      language: "plaintext",
+      createdAt: exported.createdAt || Date.now(),
+      updatedAt: Date.now(),
+      folderId,
+      ...(tags.length > 0 && { tags }),
+    };
+    await saveNote({
+      id,
+      encryptedContent: await encryptNoteField(id, "content", content, key),
+      encryptedMeta: await encryptNoteField(id, "meta", meta, key),
+    });
+    count++;
+  }
+
+  for (const subfolder of data.folders ?? []) {
+    count += await importFolderExport(subfolder, folderId, key);
+  }
+  return count;
+};
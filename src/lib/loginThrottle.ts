@@ -0,0 +1,75 @@
+import {
+  LoginAttempts,
+  User,
+  clearLoginAttempts,
+  deleteVault,
+  getLoginAttempts,
+  saveLoginAttempts,
+} from "./storage";
+
+// Failures allowed before any delay is imposed
+const FREE_ATTEMPTS = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 15 * 60 * 1000;
+
+/**
+ * How long to refuse attempts after a number of consecutive failures.
+ * The delay doubles with every failure past FREE_ATTEMPTS, up to MAX_DELAY_MS.
+ * @param failures The number of consecutive failed attempts.
+ * @returns The lockout duration in milliseconds.
+ */
+export const lockoutDelayMs = (failures: number): number => {
+  if (failures < FREE_ATTEMPTS) return 0;
+  return Math.min(BASE_DELAY_MS * 2 ** (failures - FREE_ATTEMPTS), MAX_DELAY_MS);
+};
+
+/**
+ * Gets how much longer a vault refuses login attempts.
+ * @param vaultId The vault being unlocked.
+ * @returns The remaining lockout in milliseconds, or 0 if attempts are allowed.
+ */
+export const getLockoutRemainingMs = (vaultId: string): number => {
+  return Math.max(0, getLoginAttempts(vaultId).lockedUntil - Date.now());
+};
+
+/**
+ * Counts a wrong password and starts the next lockout. If the vault owner
+ * enabled wiping and the limit is reached, the vault is deleted.
+ * @param user The user record of the vault that was attempted.
+ * @returns The updated attempts, and whether the vault was wiped.
+ */
+export const recordFailedLogin = async (
+  user: User,
+): Promise<{ attempts: LoginAttempts; wiped: boolean }> => {
+  const failures = getLoginAttempts(user.id).failures + 1;
+  const attempts: LoginAttempts = {
+    failures,
+    lockedUntil: Date.now() + lockoutDelayMs(failures),
+  };
+
+  if (user.wipeAfterFailures && failures >= user.wipeAfterFailures) {
+    await deleteVault(user.id);
+    return { attempts, wiped: true };
+  }
+
+  saveLoginAttempts(user.id, attempts);
+  return { attempts, wiped: false };
+};
+
+/**
+ * Resets the failure count after a successful login.
+ * @param vaultId The vault that was unlocked.
+ */
+export const recordSuccessfulLogin = (vaultId: string): void => {
+  clearLoginAttempts(vaultId);
+};
+
+/**
+ * Formats a lockout as m:ss for the countdown.
+ */
+export const formatLockout = (ms: number): string => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, "0")}`;
+};
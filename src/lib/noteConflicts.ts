@@ -0,0 +1,122 @@
+import { diffLines } from "diff";
+import { Note, NoteContent, NoteMeta } from "./storage";
+import { NoteSnapshot } from "./noteHistory";
+import { decryptNoteField } from "./noteCrypto";
+import {
+  migrateSnippets,
+  nextSnippetLabel,
+  renameSnippetReferences,
+} from "./snippets";
+
+// Marks the two sides of a conflicting block in merged content
+const THEIRS_MARKER = "<<<<<<< Other tab";
+const SEPARATOR = "=======";
+const MINE_MARKER = ">>>>>>> This tab";
+
+// A note another tab saved while this tab had unsaved edits to it
+export interface NoteConflict {
+  // The note as the other tab stored it
+  note: Note;
+  meta: NoteMeta;
+  theirs: NoteSnapshot;
+  // The edits in this tab
+  mine: NoteSnapshot;
+}
+
+/**
+ * Decrypts a stored note into its metadata and the snapshot of its title and
+ * content.
+ * @param note The stored note.
+ * @param key The vault key.
+ */
+export const loadStoredVersion = async (
+  note: Note,
+  key: CryptoKey,
+): Promise<{ meta: NoteMeta; snapshot: NoteSnapshot }> => {
+  const meta = await decryptNoteField<NoteMeta>(
+    note.id,
+    "meta",
+    note.encryptedMeta,
+    key,
+  );
+  const content = migrateSnippets(
+    await decryptNoteField<NoteContent>(
+      note.id,
+      "content",
+      note.encryptedContent,
+      key,
+    ),
+  );
+  return { meta, snapshot: { title: meta.title, ...content } };
+};
+
+const ensureTrailingNewline = (value: string) =>
+  value === "" || value.endsWith("\n") ? value : `${value}\n`;
+
+/**
+ * Combines two lines-of-text versions. Lines both share are kept once; where
+ * they differ, both sides are kept between conflict markers for the user to
+ * resolve.
+ */
+const mergeText = (theirs: string, mine: string): string => {
+  if (theirs === mine) return mine;
+
+  let merged = "";
+  let theirBlock = "";
+  let myBlock = "";
+  const flush = () => {
+    if (!theirBlock && !myBlock) return;
+    merged +=
+      `${THEIRS_MARKER}\n${ensureTrailingNewline(theirBlock)}` +
+      `${SEPARATOR}\n${ensureTrailingNewline(myBlock)}${MINE_MARKER}\n`;
+    theirBlock = "";
+    myBlock = "";
+  };
+
+  for (const change of diffLines(theirs, mine)) {
+    if (change.removed) {
+      theirBlock += change.value;
+    } else if (change.added) {
+      myBlock += change.value;
+    } else {
+      flush();
+      merged += change.value;
+    }
+  }
+  flush();
+  return merged;
+};
+
+/**
+ * Merges the edits of two tabs into one version to finish by hand. The
+ * content keeps both sides of every difference between conflict markers; the
+ * title is this tab's. Snippets from both are kept, matched by id, with this
+ * tab's code where both have the same snippet. A snippet only the other tab
+ * has is relabelled if this tab uses its label for another snippet.
+ * @param theirs The version the other tab saved.
+ * @param mine The edits in this tab.
+ */
+export const mergeSnapshots = (
+  theirs: NoteSnapshot,
+  mine: NoteSnapshot,
+): NoteSnapshot => {
+  const snippets = [...mine.snippets];
+  let theirContent = theirs.content;
+
+  for (const snippet of theirs.snippets) {
+    if (snippets.some((s) => s.id === snippet.id)) continue;
+    if (snippets.some((s) => s.label === snippet.label)) {
+      const label = nextSnippetLabel([...snippets, ...theirs.snippets]);
+      theirContent = renameSnippetReferences(theirContent, snippet.label, label);
+      snippets.push({ ...snippet, label });
+    } else {
+      snippets.push(snippet);
+    }
+  }
+
+  return {
+    title: mine.title,
+    content: mergeText(theirContent, mine.content),
+    snippets,
+  };
+};
@@ -0,0 +1,169 @@
+import {
+  ENVELOPE_VERSION,
+  CipherEnvelope,
+  openEnvelope,
+  parseEnvelope,
+  sealEnvelope,
+} from "./encryption";
+import { Note, NoteMeta, getNotes, saveNote } from "./storage";
+
+type NoteField = "content" | "meta";
+
+/**
+ * Builds the context label that ties a note blob to its note, its field and
+ * its envelope version.
+ */
+const noteAad = (noteId: string, field: NoteField, version: number) =>
+  `zks-note|${noteId}|${field}|v${version}`;
+
+/**
+ * Encrypts one field of a note, bound to the note's id.
+ * @param noteId The id of the note that owns the value.
+ * @param field Which note field the value is stored in.
+ * @param value The JSON-serialisable value to encrypt.
+ * @param key The vault key.
+ */
+export const encryptNoteField = async (
+  noteId: string,
+  field: NoteField,
+  value: unknown,
+  key: CryptoKey,
+): Promise<CipherEnvelope> => {
+  return sealEnvelope(JSON.stringify(value), key, {
+    aad: noteAad(noteId, field, ENVELOPE_VERSION),
+  });
+};
+
+/**
+ * Decrypts one field of a note. Legacy blobs from before AAD binding are
+ * decrypted without it.
+ * @throws IntegrityError if the blob was not encrypted for this note and field.
+ */
+export const decryptNoteField = async <T>(
+  noteId: string,
+  field: NoteField,
+  blob: unknown,
+  key: CryptoKey,
+): Promise<T> => {
+  const envelope = parseEnvelope(blob);
+  return JSON.parse(
+    await openEnvelope(envelope, key, noteAad(noteId, field, envelope.v)),
+  );
+};
+
+/**
+ * Decrypts a stored note in any format, filling in legacy plaintext metadata.
+ */
+const readNote = async (
+  note: Note,
+  key: CryptoKey,
+): Promise<{ meta: NoteMeta; content: unknown }> => {
+  const meta: NoteMeta = note.encryptedMeta
+    ? await decryptNoteField<NoteMeta>(note.id, "meta", note.encryptedMeta, key)
+    : {
+        title: note.title ?? "Untitled Note",
+        language: note.language ?? "plaintext",
+        createdAt: note.createdAt ?? Date.now(),
+        updatedAt: note.updatedAt ?? Date.now(),
+      };
+  const content = await decryptNoteField<unknown>(
+    note.id,
+    "content",
+    note.encryptedContent,
+    key,
+  );
+  return { meta, content };
+};
+
+const sealNote = async (
+  note: Note,
+  { meta, content }: { meta: NoteMeta; content: unknown },
+  key: CryptoKey,
+): Promise<Note> => {
+  return saveNote({
+    id: note.id,
+    encryptedContent: await encryptNoteField(note.id, "content", content, key),
+    encryptedMeta: await encryptNoteField(note.id, "meta", meta, key),
+    revision: note.revision,
+  });
+};
+
+/**
+ * Brings a stored note up to the current format: legacy plaintext metadata is
+ * encrypted into encryptedMeta, and older blobs are re-sealed as current
+ * envelopes. Notes that are already current are returned unchanged.
+ */
+const migrateNote = async (note: Note, key: CryptoKey): Promise<Note> => {
+  const isCurrent =
+    note.encryptedMeta?.v === ENVELOPE_VERSION &&
+    note.encryptedContent.v === ENVELOPE_VERSION;
+  if (isCurrent) return note;
+
+  return sealNote(note, await readNote(note, key), key);
+};
+
+/**
+ * Re-encrypts every note from one key to another, in the current format.
+ * Notes that already open under the new key are left alone, so an interrupted
+ * run can simply be repeated.
+ * @param from The key the notes are encrypted under.
+ * @param to The key to encrypt them under.
+ */
+export const reencryptNotes = async (
+  from: CryptoKey,
+  to: CryptoKey,
+): Promise<void> => {
+  for (const note of await getNotes()) {
+    let fields;
+    try {
+      fields = await readNote(note, from);
+    } catch (error) {
+      const isDone = await readNote(note, to).then(
+        () => true,
+        () => false,
+      );
+      // A note that opens under neither key was unreadable before, too
+      if (!isDone) console.error(`Failed to re-encrypt note ${note.id}`, error);
+      continue;
+    }
+    await sealNote(note, fields, to);
+  }
+};
+
+/**
+ * Loads every note and decrypts its metadata into an in-memory title index.
+ * The index only lives as long as the unlocked session and is never persisted.
+ * @param key The vault key.
+ * @returns The stored notes and their decrypted metadata by note id.
+ */
+export const loadNoteIndex = async (
+  key: CryptoKey,
+): Promise<{ notes: Note[]; index: Record<string, NoteMeta> }> => {
+  const notes: Note[] = [];
+  const index: Record<string, NoteMeta> = {};
+
+  for (const stored of await getNotes()) {
+    try {
+      const note = await migrateNote(stored, key);
+      index[note.id] = await decryptNoteField<NoteMeta>(
+        note.id,
+        "meta",
+        note.encryptedMeta,
+        key,
+      );
+      notes.push(note);
+    } catch (error) {
+      console.error(`Failed to read metadata for note ${stored.id}`, error);
+      // Keep the note listed so it can still be deleted
+      index[stored.id] = {
+        title: "Unreadable note",
+        language: "plaintext",
+        createdAt: 0,
+        updatedAt: 0,
+      };
+      notes.push(stored);
+    }
+  }
+
+  return { notes, index };
+};
@@ -0,0 +1,252 @@
+import { Change, diffLines } from "diff";
+import {
+  ENVELOPE_VERSION,
+  openEnvelope,
+  parseEnvelope,
+  sealEnvelope,
+} from "./encryption";
+import {
+  CodeSnippet,
+  Note,
+  NoteContent,
+  NoteMeta,
+  NoteRevision,
+  generateId,
+  getNoteHistory,
+  saveNote,
+  saveNoteHistory,
+} from "./storage";
+import { decryptNoteField, encryptNoteField } from "./noteCrypto";
+import { migrateSnippets } from "./snippets";
+
+// Everything a revision restores: the title and the note content
+export interface NoteSnapshot extends NoteContent {
+  title: string;
+}
+
+// A revision with its snapshot decrypted, for display
+export interface DecryptedRevision {
+  id: string;
+  createdAt: number;
+  snapshot: NoteSnapshot;
+}
+
+export type SnippetChangeStatus = "added" | "removed" | "changed" | "unchanged";
+
+export interface SnippetDiff {
+  id: string;
+  label: string;
+  language: string;
+  status: SnippetChangeStatus;
+  changes: Change[];
+}
+
+export interface SnapshotDiff {
+  titleChanged: boolean;
+  content: Change[];
+  snippets: SnippetDiff[];
+}
+
+// Bounds on one note's history; the oldest revisions are dropped first
+const MAX_REVISIONS = 50;
+const MAX_HISTORY_BYTES = 1024 * 1024;
+
+/**
+ * Builds the context label that ties a revision blob to its note and revision.
+ */
+const revisionAad = (noteId: string, revisionId: string, version: number) =>
+  `zks-note|${noteId}|revision|${revisionId}|v${version}`;
+
+const revisionSize = (revision: NoteRevision) =>
+  JSON.stringify(revision).length;
+
+/**
+ * Drops the oldest revisions until the history fits both bounds. The newest
+ * revision is always kept, even if it alone exceeds the byte budget.
+ */
+const pruneRevisions = (revisions: NoteRevision[]): NoteRevision[] => {
+  const kept = revisions.slice(-MAX_REVISIONS);
+  let total = kept.reduce((sum, r) => sum + revisionSize(r), 0);
+  while (kept.length > 1 && total > MAX_HISTORY_BYTES) {
+    total -= revisionSize(kept.shift()!);
+  }
+  return kept;
+};
+
+/**
+ * Checks whether two snapshots hold the same title, content and snippets.
+ */
+export const snapshotsEqual = (a: NoteSnapshot, b: NoteSnapshot): boolean => {
+  return JSON.stringify(a) === JSON.stringify(b);
+};
+
+/**
+ * Adds a version of a note to its encrypted history.
+ * @param noteId The note the snapshot belongs to.
+ * @param snapshot The version to keep.
+ * @param key The vault key.
+ * @param minIntervalMs Skip the revision if the newest one is younger than
+ * this, so frequent autosaves keep one version per interval.
+ */
+export const recordRevision = async (
+  noteId: string,
+  snapshot: NoteSnapshot,
+  key: CryptoKey,
+  minIntervalMs = 0,
+): Promise<void> => {
+  const history = await getNoteHistory(noteId);
+  const newest = history.revisions[history.revisions.length - 1];
+  if (newest && Date.now() - newest.createdAt < minIntervalMs) return;
+
+  const id = generateId();
+  const revision: NoteRevision = {
+    id,
+    createdAt: Date.now(),
+    encryptedSnapshot: await sealEnvelope(JSON.stringify(snapshot), key, {
+      aad: revisionAad(noteId, id, ENVELOPE_VERSION),
+    }),
+  };
+
+  await saveNoteHistory({
+    ...history,
+    revisions: pruneRevisions([...history.revisions, revision]),
+  });
+};
+
+/**
+ * Stores a new version of a note. The version it replaces is kept in the
+ * note's history first, unless nothing changed.
+ * @param note The stored note.
+ * @param meta Its decrypted metadata.
+ * @param snapshot The new title and content.
+ * @param key The vault key.
+ * @param minIntervalMs Passed on to recordRevision.
+ * @returns The updated note and metadata.
+ */
+export const saveNoteVersion = async (
+  note: Note,
+  meta: NoteMeta,
+  snapshot: NoteSnapshot,
+  key: CryptoKey,
+  minIntervalMs = 0,
+): Promise<{ note: Note; meta: NoteMeta }> => {
+  try {
+    const previous: NoteSnapshot = {
+      title: meta.title,
+      ...(await decryptNoteField<NoteContent>(
+        note.id,
+        "content",
+        note.encryptedContent,
+        key,
+      )),
+    };
+    if (!snapshotsEqual(previous, snapshot)) {
+      await recordRevision(note.id, previous, key, minIntervalMs);
+    }
+  } catch (error) {
+    console.error("Failed to record the previous version:", error);
+  }
+
+  const content: NoteContent = {
+    content: snapshot.content,
+    snippets: snapshot.snippets,
+  };
+  const updatedMeta: NoteMeta = {
+    ...meta,
+    title: snapshot.title,
+    updatedAt: Date.now(),
+  };
+  const updatedNote = await saveNote({
+    ...note,
+    encryptedContent: await encryptNoteField(note.id, "content", content, key),
+    encryptedMeta: await encryptNoteField(note.id, "meta", updatedMeta, key),
+  });
+  return { note: updatedNote, meta: updatedMeta };
+};
+
+/**
+ * Loads and decrypts a note's revisions, newest first. Revisions that fail to
+ * decrypt are skipped.
+ * @param noteId The note whose history to load.
+ * @param key The vault key.
+ */
+export const loadRevisions = async (
+  noteId: string,
+  key: CryptoKey,
+): Promise<DecryptedRevision[]> => {
+  const { revisions } = await getNoteHistory(noteId);
+  const decrypted: DecryptedRevision[] = [];
+
+  for (const revision of [...revisions].reverse()) {
+    try {
+      const envelope = parseEnvelope(revision.encryptedSnapshot);
+      const snapshot: NoteSnapshot = JSON.parse(
+        await openEnvelope(
+          envelope,
+          key,
+          revisionAad(noteId, revision.id, envelope.v),
+        ),
+      );
+      decrypted.push({ id: revision.id, createdAt: revision.createdAt, snapshot });
+    } catch (error) {
+      console.error(`Failed to decrypt revision ${revision.id}`, error);
+    }
+  }
+
+  return decrypted;
+};
+
+const diffSnippet = (
+  id: string,
+  from: CodeSnippet | undefined,
+  to: CodeSnippet | undefined,
+): SnippetDiff => {
+  const changes = diffLines(from?.code ?? "", to?.code ?? "");
+  let status: SnippetChangeStatus;
+  if (!from) {
+    status = "added";
+  } else if (!to) {
+    status = "removed";
+  } else if (from.language !== to.language || changes.some((c) => c.added || c.removed)) {
+    status = "changed";
+  } else {
+    status = "unchanged";
+  }
+  const snippet = (to ?? from)!;
+  return {
+    id,
+    label: snippet.label,
+    language: snippet.language,
+    status,
+    changes,
+  };
+};
+
+/**
+ * Compares two versions of a note line by line: the content, and each
+ * snippet matched by id. Versions saved before snippets had unique ids are
+ * matched to the newer version by label.
+ * @param older The older version.
+ * @param newer The newer version.
+ */
+export const diffSnapshots = (
+  older: NoteSnapshot,
+  newer: NoteSnapshot,
+): SnapshotDiff => {
+  const to = migrateSnippets(newer);
+  const from = migrateSnippets(older, to.snippets);
+  const fromSnippets = new Map(from.snippets.map((s) => [s.id, s]));
+  const toSnippets = new Map(to.snippets.map((s) => [s.id, s]));
+  const ids = [
+    ...to.snippets.map((s) => s.id),
+    ...from.snippets.map((s) => s.id).filter((id) => !toSnippets.has(id)),
+  ];
+
+  return {
+    titleChanged: from.title !== to.title,
+    content: diffLines(from.content, to.content),
+    snippets: ids.map((id) =>
+      diffSnippet(id, fromSnippets.get(id), toSnippets.get(id)),
+    ),
+  };
+};
@@ -0,0 +1,60 @@
+import {
+  generateMnemonic,
+  mnemonicToEntropy,
+  validateMnemonic,
+} from "@scure/bip39";
+import { wordlist } from "@scure/bip39/wordlists/english.js";
+import { deriveRecoveryKey } from "./encryption";
+
+// 256 bits of entropy encode to 24 BIP39 words
+const RECOVERY_PHRASE_STRENGTH = 256;
+
+/**
+ * Thrown when a recovery phrase is not a valid 24-word BIP39 phrase.
+ */
+export class RecoveryPhraseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RecoveryPhraseError";
+  }
+}
+
+/**
+ * Normalises user input: lower case, single spaces, no stray whitespace.
+ */
+export const normaliseRecoveryPhrase = (phrase: string): string => {
+  return phrase.trim().toLowerCase().split(/\s+/).join(" ");
+};
+
+/**
+ * Generates a new 24-word recovery phrase.
+ */
+export const generateRecoveryPhrase = (): string => {
+  return generateMnemonic(wordlist, RECOVERY_PHRASE_STRENGTH);
+};
+
+/**
+ * Checks the words and checksum of a recovery phrase.
+ * @param phrase The phrase as entered by the user.
+ */
+export const isValidRecoveryPhrase = (phrase: string): boolean => {
+  const normalised = normaliseRecoveryPhrase(phrase);
+  return (
+    normalised.split(" ").length === 24 && validateMnemonic(normalised, wordlist)
+  );
+};
+
+/**
+ * Derives the recovery key-encryption key from a recovery phrase.
+ * @param phrase The phrase as entered by the user.
+ * @throws RecoveryPhraseError if the phrase is not valid.
+ */
+export const recoveryPhraseToKey = async (phrase: string): Promise<CryptoKey> => {
+  if (!isValidRecoveryPhrase(phrase)) {
+    throw new RecoveryPhraseError(
+      "The recovery phrase must be 24 valid words in the original order.",
+    );
+  }
+  const entropy = mnemonicToEntropy(normaliseRecoveryPhrase(phrase), wordlist);
+  return deriveRecoveryKey(entropy);
+};
@@ -0,0 +1,77 @@
+import type { Code, Paragraph, Parent, PhrasingContent, Root, RootContent } from "mdast";
+import { CodeSnippet } from "./storage";
+import { SNIPPET_REFERENCE } from "./snippets";
+
+export interface RemarkSnippetsOptions {
+  snippets: Pick<CodeSnippet, "label" | "code" | "language">[];
+}
+
+const isBlank = (nodes: PhrasingContent[]) =>
+  nodes.every((node) => node.type === "text" && !node.value.trim());
+
+const toCodeBlock = (
+  snippet: RemarkSnippetsOptions["snippets"][number],
+): Code => ({
+  type: "code",
+  lang: snippet.language,
+  value: snippet.code,
+  // Ends up on the <code>, so the renderer can label the block
+  data: { hProperties: { dataSnippet: snippet.label } },
+});
+
+/**
+ * Splits a paragraph around the snippet references it contains, putting the
+ * snippet's code block between the text before and after each one.
+ */
+const splitParagraph = (
+  paragraph: Paragraph,
+  snippets: Map<string, RemarkSnippetsOptions["snippets"][number]>,
+): RootContent[] => {
+  const blocks: RootContent[] = [];
+  let current: PhrasingContent[] = [];
+  const flush = () => {
+    if (!isBlank(current)) blocks.push({ type: "paragraph", children: current });
+    current = [];
+  };
+
+  for (const child of paragraph.children) {
+    if (child.type !== "text") {
+      current.push(child);
+      continue;
+    }
+    // split() keeps the captured label at every odd index
+    child.value.split(SNIPPET_REFERENCE).forEach((part, i) => {
+      const snippet = i % 2 === 1 ? snippets.get(part) : undefined;
+      if (snippet) {
+        flush();
+        blocks.push(toCodeBlock(snippet));
+      } else if (part) {
+        current.push({ type: "text", value: i % 2 === 1 ? `[${part}]` : part });
+      }
+    });
+  }
+  flush();
+
+  // Leave paragraphs without references untouched
+  return blocks.length === 1 && blocks[0].type === "paragraph" ? [paragraph] : blocks;
+};
+
+/**
+ * remark plugin that renders [label] references to a note's snippets as
+ * code blocks in place. References to unknown labels stay as text.
+ */
+export const remarkSnippets = ({ snippets }: RemarkSnippetsOptions) => {
+  const byLabel = new Map(snippets.map((snippet) => [snippet.label, snippet]));
+
+  const transform = (parent: Parent) => {
+    parent.children = parent.children.flatMap((child) => {
+      if (child.type === "paragraph") return splitParagraph(child, byLabel);
+      if ("children" in child) transform(child);
+      return [child];
+    }) as Parent["children"];
+  };
+
+  return (tree: Root) => {
+    if (byLabel.size > 0) transform(tree);
+  };
+};
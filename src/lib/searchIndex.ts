@@ -0,0 +1,329 @@
+import { Note, NoteContent, NoteMeta } from "./storage";
+import { decryptNoteField } from "./noteCrypto";
+import { NoteSnapshot } from "./noteHistory";
+
+export type SearchFieldKind = "title" | "content" | "snippet";
+
+// A [start, end) character range to highlight
+export type MatchRange = [number, number];
+
+// A piece of matching text, cut down to the part worth showing
+export interface SearchExcerpt {
+  kind: SearchFieldKind;
+  snippetLabel?: string;
+  language?: string;
+  text: string;
+  ranges: MatchRange[];
+  // Whether text was cut at the start or end
+  truncatedStart: boolean;
+  truncatedEnd: boolean;
+}
+
+export interface SearchResult {
+  noteId: string;
+  score: number;
+  titleRanges: MatchRange[];
+  excerpts: SearchExcerpt[];
+}
+
+export interface SearchOptions {
+  // Only search snippet code in this language; titles and text are skipped
+  language?: string;
+}
+
+export interface SearchIndex {
+  update: (noteId: string, snapshot: NoteSnapshot) => void;
+  remove: (noteId: string) => void;
+  clear: () => void;
+  search: (query: string, options?: SearchOptions) => SearchResult[];
+}
+
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+interface IndexedField {
+  kind: SearchFieldKind;
+  snippetLabel?: string;
+  language?: string;
+  text: string;
+  tokens: Token[];
+}
+
+// One parsed query term: a word, a prefix (word*) or a "quoted phrase"
+interface QueryTerm {
+  terms: string[];
+  prefix: boolean;
+}
+
+const EXCERPT_BEFORE = 40;
+const EXCERPT_LENGTH = 160;
+const MAX_EXCERPTS = 3;
+const TITLE_WEIGHT = 3;
+
+const TOKEN_PATTERN = /[\p{L}\p{N}_]+/gu;
+
+const tokenize = (text: string): Token[] => {
+  return [...text.matchAll(TOKEN_PATTERN)].map((match) => ({
+    term: match[0].toLowerCase(),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+};
+
+/**
+ * Splits a query into words, prefixes and phrases. A word that contains
+ * punctuation, like foo.bar, is treated as the phrase "foo bar". The last
+ * bare word also matches as a prefix so results follow the typing.
+ */
+const parseQuery = (query: string): QueryTerm[] => {
+  const parsed: QueryTerm[] = [];
+  const pattern = /"([^"]*)"?|(\S+)/g;
+  let match: RegExpExecArray | null;
+  let lastBare = -1;
+
+  while ((match = pattern.exec(query)) !== null) {
+    const phrase = match[1];
+    const word = match[2];
+    const prefix = word !== undefined && word.endsWith("*");
+    const terms = tokenize(phrase ?? word).map((token) => token.term);
+    if (terms.length === 0) continue;
+    if (word !== undefined && !prefix) lastBare = parsed.length;
+    parsed.push({ terms, prefix });
+  }
+
+  const endsWithSpace = /\s$/.test(query);
+  if (lastBare === parsed.length - 1 && lastBare >= 0 && !endsWithSpace) {
+    parsed[lastBare].prefix = true;
+  }
+  return parsed;
+};
+
+const termMatches = (token: string, term: string, prefix: boolean) =>
+  prefix ? token.startsWith(term) : token === term;
+
+/**
+ * Finds every place a query term occurs in a field. For phrases only the last
+ * word may be a prefix.
+ */
+const findTerm = (field: IndexedField, query: QueryTerm): MatchRange[] => {
+  const { tokens } = field;
+  const { terms, prefix } = query;
+  const ranges: MatchRange[] = [];
+
+  for (let i = 0; i + terms.length <= tokens.length; i++) {
+    const matches = terms.every((term, j) =>
+      termMatches(tokens[i + j].term, term, prefix && j === terms.length - 1),
+    );
+    if (matches) {
+      ranges.push([tokens[i].start, tokens[i + terms.length - 1].end]);
+    }
+  }
+  return ranges;
+};
+
+const mergeRanges = (ranges: MatchRange[]): MatchRange[] => {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: MatchRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+  }
+  return merged;
+};
+
+/**
+ * Cuts a field down to the text around its first match. Snippet code is cut
+ * to the matching line, which reads better than an arbitrary window.
+ */
+const buildExcerpt = (
+  field: IndexedField,
+  ranges: MatchRange[],
+): SearchExcerpt => {
+  const [firstStart, firstEnd] = ranges[0];
+  let start: number;
+  let end: number;
+
+  if (field.kind === "snippet") {
+    const lineStart = field.text.lastIndexOf("\n", firstStart - 1) + 1;
+    start = Math.max(lineStart, firstStart - EXCERPT_BEFORE);
+    const lineEnd = field.text.indexOf("\n", firstEnd);
+    end = lineEnd === -1 ? field.text.length : lineEnd;
+    end = Math.min(end, start + EXCERPT_LENGTH);
+  } else {
+    start = Math.max(0, firstStart - EXCERPT_BEFORE);
+    end = Math.min(field.text.length, start + EXCERPT_LENGTH);
+  }
+
+  return {
+    kind: field.kind,
+    snippetLabel: field.snippetLabel,
+    language: field.language,
+    text: field.text.slice(start, end),
+    ranges: ranges
+      .filter(([s, e]) => e > s && s >= start && e <= end)
+      .map(([s, e]) => [s - start, e - start]),
+    truncatedStart: start > 0,
+    truncatedEnd: end < field.text.length,
+  };
+};
+
+/**
+ * Creates an empty in-memory search index over decrypted notes. The index is
+ * plaintext, so it is never written to storage; it lives as long as the
+ * unlocked session and should be cleared on lock.
+ */
+export const createSearchIndex = (): SearchIndex => {
+  const documents = new Map<string, IndexedField[]>();
+  // Every term and the notes containing it, to narrow down candidates
+  const postings = new Map<string, Set<string>>();
+
+  const remove = (noteId: string) => {
+    const fields = documents.get(noteId);
+    if (!fields) return;
+    for (const field of fields) {
+      for (const { term } of field.tokens) {
+        const notes = postings.get(term);
+        notes?.delete(noteId);
+        if (notes?.size === 0) postings.delete(term);
+      }
+    }
+    documents.delete(noteId);
+  };
+
+  const update = (noteId: string, snapshot: NoteSnapshot) => {
+    remove(noteId);
+
+    const fields: IndexedField[] = [
+      { kind: "title" as const, text: snapshot.title },
+      { kind: "content" as const, text: snapshot.content },
+      ...snapshot.snippets.map((snippet) => ({
+        kind: "snippet" as const,
+        snippetLabel: snippet.label,
+        language: snippet.language,
+        text: snippet.code,
+      })),
+    ].map((field) => ({ ...field, tokens: tokenize(field.text) }));
+
+    for (const field of fields) {
+      for (const { term } of field.tokens) {
+        if (!postings.has(term)) postings.set(term, new Set());
+        postings.get(term)?.add(noteId);
+      }
+    }
+    documents.set(noteId, fields);
+  };
+
+  const clear = () => {
+    documents.clear();
+    postings.clear();
+  };
+
+  // Notes containing a term's first word; a cheap filter before scanning
+  const candidatesFor = (query: QueryTerm): Set<string> => {
+    const [first] = query.terms;
+    const exact = !query.prefix || query.terms.length > 1;
+    if (exact) return postings.get(first) ?? new Set();
+
+    const notes = new Set<string>();
+    for (const [term, ids] of postings) {
+      if (term.startsWith(first)) ids.forEach((id) => notes.add(id));
+    }
+    return notes;
+  };
+
+  const search = (query: string, options: SearchOptions = {}) => {
+    const terms = parseQuery(query);
+    const language = options.language?.toLowerCase();
+    if (terms.length === 0 && !language) return [];
+
+    let candidates = [...documents.keys()];
+    for (const term of terms) {
+      const ids = candidatesFor(term);
+      candidates = candidates.filter((id) => ids.has(id));
+    }
+
+    const results: SearchResult[] = [];
+    for (const noteId of candidates) {
+      const fields = (documents.get(noteId) ?? []).filter(
+        (field) =>
+          !language ||
+          (field.kind === "snippet" && field.language?.toLowerCase() === language),
+      );
+      if (fields.length === 0) continue;
+
+      // Every term has to occur somewhere among the searched fields
+      const found = fields.map((field) =>
+        terms.map((term) => findTerm(field, term)),
+      );
+      const allFound = terms.every((_, t) =>
+        found.some((perTerm) => perTerm[t].length > 0),
+      );
+      if (!allFound) continue;
+
+      let score = 0;
+      let titleRanges: MatchRange[] = [];
+      const excerpts: SearchExcerpt[] = [];
+      fields.forEach((field, f) => {
+        const ranges = mergeRanges(found[f].flat());
+        if (field.kind === "title") {
+          titleRanges = ranges;
+          score += ranges.length * TITLE_WEIGHT;
+        } else if (ranges.length > 0 || terms.length === 0) {
+          score += ranges.length;
+          if (excerpts.length < MAX_EXCERPTS && field.text) {
+            excerpts.push(
+              ranges.length > 0
+                ? buildExcerpt(field, ranges)
+                : buildExcerpt(field, [[0, 0]]),
+            );
+          }
+        }
+      });
+      results.push({ noteId, score, titleRanges, excerpts });
+    }
+
+    return results.sort((a, b) => b.score - a.score);
+  };
+
+  return { update, remove, clear, search };
+};
+
+/**
+ * Decrypts every note's content and adds it to a search index. Notes that
+ * cannot be decrypted are left out.
+ * @param searchIndex The index to fill.
+ * @param notes The stored notes.
+ * @param titleIndex Decrypted note metadata by id.
+ * @param key The vault key.
+ */
+export const indexNotes = async (
+  searchIndex: SearchIndex,
+  notes: Note[],
+  titleIndex: Record<string, NoteMeta>,
+  key: CryptoKey,
+): Promise<void> => {
+  for (const note of notes) {
+    try {
+      const content = await decryptNoteField<NoteContent>(
+        note.id,
+        "content",
+        note.encryptedContent,
+        key,
+      );
+      searchIndex.update(note.id, {
+        title: titleIndex[note.id]?.title ?? "",
+        content: content.content || "",
+        snippets: content.snippets || [],
+      });
+    } catch (error) {
+      console.error(`Failed to index note ${note.id}`, error);
+    }
+  }
+};
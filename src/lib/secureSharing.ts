@@ -1,13 +1,21 @@
 import {
-  deriveKey,
-  encryptData,
-  decryptData,
-  generateSalt,
-  generateToken,
+  CipherEnvelope,
+  EnvelopeFormatError,
   arrayBufferToBase64,
   base64ToArrayBuffer,
+  deriveEnvelopeKey,
+  encodeEnvelope,
+  openEnvelope,
+  openEnvelopeBytes,
+  parseEnvelope,
+  sealEnvelope,
+  sealEnvelopeWithPassword,
 } from "./encryption";
 
+// Context labels share ciphertexts are bound to
+const SHARE_PAYLOAD_AAD = "zks-note|share|payload";
+const SHARE_KEY_AAD = "zks-note|share|key";
+
 interface SecureShareOptions {
   expiresInDays?: number;
   password?: string;
@@ -17,7 +25,15 @@ interface SecureShareOptions {
 export interface SharePayload {
   title: string;
   content: string;
-  snippets: { id: string; code: string; language: string }[];
+  snippets: { id: string; label?: string; code: string; language: string }[];
+}
+
+// A share link parsed from its URL. The key is either the raw base64 data key
+// or, for password-protected links, the data key sealed under the password.
+export interface ParsedShareLink {
+  payload: CipherEnvelope;
+  key: string | CipherEnvelope;
+  isPasswordProtected: boolean;
 }
 
 /**
@@ -32,11 +48,15 @@ export const createSecureShareLink = async (
 ): Promise<{ link: string; key: string }> => {
   const { expiresInDays = 7, password } = options;
 
-  // 1. Generate a new, random key to encrypt the main data.
-  const dataKey = await window.crypto.subtle.generateKey(
-    { name: "AES-GCM", length: 256 },
-    true,
-    ["encrypt", "decrypt"],
+  // 1. Generate a new, random key to encrypt the main data. The raw bytes go
+  // into the link, so the CryptoKey itself never needs to be exportable.
+  const rawDataKey = window.crypto.getRandomValues(new Uint8Array(32));
+  const dataKey = await window.crypto.subtle.importKey(
+    "raw",
+    rawDataKey,
+    { name: "AES-GCM" },
+    false,
+    ["encrypt"],
   );
 
   // 2. Prepare the data payload.
@@ -48,112 +68,85 @@ export const createSecureShareLink = async (
   };
 
   // 3. Encrypt the payload with the data key.
-  const { encryptedData, iv } = await encryptData(
-    JSON.stringify(payload),
-    dataKey,
-  );
+  const payloadEnvelope = await sealEnvelope(JSON.stringify(payload), dataKey, {
+    aad: SHARE_PAYLOAD_AAD,
+  });
 
   // 4. Prepare the key for the URL.
-  let keyForUrl: string;
+  const params = new URLSearchParams();
+  params.set("v", "3"); // Version parameter
+  params.set("e", encodeEnvelope(payloadEnvelope));
 
+  let keyForUrl: string;
   if (password) {
-    // If password protected, encrypt the data key with a key derived from the password.
-    const salt = generateSalt();
-    const passwordKey = await deriveKey(password, salt);
-
-    // Export the raw data key to be encrypted.
-    const rawDataKey = await window.crypto.subtle.exportKey("raw", dataKey);
-
-    // Encrypt the raw data key. We need a temporary encryption function for ArrayBuffers.
-    const keyIv = window.crypto.getRandomValues(new Uint8Array(12));
-    const encryptedKeyBuffer = await window.crypto.subtle.encrypt(
-      { name: "AES-GCM", iv: keyIv },
-      passwordKey,
-      rawDataKey,
+    // If password protected, seal the data key under a key derived from the password.
+    keyForUrl = encodeEnvelope(
+      await sealEnvelopeWithPassword(rawDataKey.buffer, password, SHARE_KEY_AAD),
     );
-
-    // Format for URL: base64(salt):base64(iv):base64(encryptedKey)
-    keyForUrl = [
-      arrayBufferToBase64(salt),
-      arrayBufferToBase64(keyIv),
-      arrayBufferToBase64(encryptedKeyBuffer),
-    ].join(":");
+    params.set("w", keyForUrl);
   } else {
-    // If not password protected, simply export the raw key and encode it.
-    const rawDataKey = await window.crypto.subtle.exportKey("raw", dataKey);
+    // If not password protected, simply encode the raw key.
     keyForUrl = arrayBufferToBase64(rawDataKey);
+    params.set("k", keyForUrl);
   }
 
   // 5. Build the final URL.
-  const params = new URLSearchParams();
-  params.set("v", "2"); // Version parameter
-  params.set("d", encryptedData);
-  params.set("i", iv);
-  params.set("k", keyForUrl);
-
   return {
     link: `${window.location.origin}/share#${params.toString()}`,
     key: keyForUrl, // This is the exported key, possibly encrypted.
   };
 };
 
+class ShareExpiredError extends Error {
+  constructor() {
+    super("This link has expired.");
+    this.name = "ShareExpiredError";
+  }
+}
+
 /**
  * Decrypts data from a secure share link.
- * @param encryptedData The base64-encoded encrypted data.
- * @param iv The base64-encoded IV for the data.
- * @param keyMaterial The key, either raw (base64) or encrypted (salt:iv:key).
- * @param password An optional password if the link is password-protected.
+ * @param link The share link, as returned by parseShareUrl.
+ * @param password The password if the link is password-protected.
  * @returns A promise that resolves to the original shared data.
  */
 export const decryptSecureShare = async (
-  encryptedData: string,
-  iv: string,
-  keyMaterial: string,
+  link: ParsedShareLink,
   password?: string,
 ): Promise<SharePayload> => {
   try {
-    let dataKey: CryptoKey;
+    let rawDataKey: ArrayBuffer;
 
-    if (password) {
-      // If password protected, decrypt the keyMaterial to get the data key.
-      const [saltB64, keyIvB64, encryptedKeyB64] = keyMaterial.split(":");
-      if (!saltB64 || !keyIvB64 || !encryptedKeyB64) {
-        throw new Error("Invalid password-protected key format.");
+    if (typeof link.key === "string") {
+      // If not password protected, the key is the raw data key.
+      rawDataKey = base64ToArrayBuffer(link.key);
+    } else {
+      // If password protected, open the sealed data key with the password.
+      if (!password) {
+        throw new Error("This link is password protected.");
       }
-
-      const salt = base64ToArrayBuffer(saltB64);
-      const keyIv = base64ToArrayBuffer(keyIvB64);
-      const encryptedKey = base64ToArrayBuffer(encryptedKeyB64);
-
-      const passwordKey = await deriveKey(password, salt);
-
-      const rawDataKey = await window.crypto.subtle.decrypt(
-        { name: "AES-GCM", iv: keyIv },
+      const passwordKey = await deriveEnvelopeKey(password, link.key);
+      rawDataKey = await openEnvelopeBytes(
+        link.key,
         passwordKey,
-        encryptedKey,
-      );
-
-      dataKey = await window.crypto.subtle.importKey(
-        "raw",
-        rawDataKey,
-        { name: "AES-GCM" },
-        true,
-        ["encrypt", "decrypt"],
-      );
-    } else {
-      // If not password protected, the keyMaterial is the raw data key.
-      const rawDataKey = base64ToArrayBuffer(keyMaterial);
-      dataKey = await window.crypto.subtle.importKey(
-        "raw",
-        rawDataKey,
-        { name: "AES-GCM" },
-        true,
-        ["encrypt", "decrypt"],
+        SHARE_KEY_AAD,
       );
     }
 
+    const dataKey = await window.crypto.subtle.importKey(
+      "raw",
+      rawDataKey,
+      { name: "AES-GCM" },
+      false,
+      ["decrypt"],
+    );
+
     // Decrypt the main payload.
-    const decrypted = await decryptData(encryptedData, dataKey, iv);
+    const decrypted = await openEnvelope(
+      link.payload,
+      dataKey,
+      SHARE_PAYLOAD_AAD,
+    );
     const { version, expiresAt, data } = JSON.parse(decrypted);
 
     // Check version and expiration.
@@ -164,33 +157,64 @@ export const decryptSecureShare = async (
     }
 
     if (expiresAt && Date.now() > new Date(expiresAt).getTime()) {
-      throw new Error("This link has expired.");
+      throw new ShareExpiredError();
     }
 
     return data;
   } catch (error) {
     console.error("Decryption failed:", error);
+    if (error instanceof ShareExpiredError) throw error;
     throw new Error("Failed to decrypt. Invalid password or corrupted data.");
   }
 };
 
+/**
+ * Checks whether a URL hash carries a share link.
+ * @param hash The URL hash, with or without the leading "#".
+ */
+export const isShareHash = (hash: string): boolean => {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  return params.has("e") || params.has("d");
+};
+
 /**
  * Helper function to parse the share URL hash.
+ * Links from before envelopes (v=2) carry the payload as d/i and the key as k.
  * @param url The full share URL.
- * @returns An object containing the URL parameters.
+ * @returns The parsed share link.
+ * @throws EnvelopeFormatError for unknown link versions or malformed data.
  */
-export const parseShareUrl = (url: string) => {
+export const parseShareUrl = (url: string): ParsedShareLink => {
+  let params: URLSearchParams;
   try {
-    const hash = new URL(url).hash.substring(1);
-    const params = new URLSearchParams(hash);
-
-    return {
-      version: params.get("v"),
-      encryptedData: params.get("d"),
-      iv: params.get("i"),
-      key: params.get("k"),
-    };
+    params = new URLSearchParams(new URL(url).hash.substring(1));
   } catch (error) {
     throw new Error("Invalid share URL");
   }
+
+  const version = params.get("v");
+  let payload: CipherEnvelope;
+  let key: string | CipherEnvelope;
+
+  if (version === "2") {
+    const k = params.get("k");
+    if (!k) throw new EnvelopeFormatError("Incomplete share link.");
+    payload = parseEnvelope({ iv: params.get("i"), data: params.get("d") });
+    key = k.includes(":") ? parseEnvelope(k) : k;
+  } else if (version === "3") {
+    const e = params.get("e");
+    const w = params.get("w");
+    const k = params.get("k");
+    if (!e || (!w && !k)) {
+      throw new EnvelopeFormatError("Incomplete share link.");
+    }
+    payload = parseEnvelope(e);
+    key = w ? parseEnvelope(w) : k;
+  } else {
+    throw new EnvelopeFormatError(
+      `Unsupported share link version "${version ?? "none"}".`,
+    );
+  }
+
+  return { payload, key, isPasswordProtected: typeof key !== "string" };
 };
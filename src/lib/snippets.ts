@@ -0,0 +1,169 @@
+import { CodeSnippet, Note, NoteContent, generateId, saveNote } from "./storage";
+import { decryptNoteField, encryptNoteField } from "./noteCrypto";
+
+// What a snippet label may contain, so [label] references stay unambiguous
+const LABEL_PATTERN = /^[A-Za-z0-9_-]{1,40}$/;
+
+// A [label] reference in note content
+export const SNIPPET_REFERENCE = /\[([A-Za-z0-9_-]{1,40})\]/g;
+
+const DEFAULT_LABEL = /^code(\d+)$/;
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Checks that a label can be used in a [label] reference.
+ */
+export const isValidSnippetLabel = (label: string): boolean => {
+  return LABEL_PATTERN.test(label);
+};
+
+/**
+ * Picks the next default label, one above the highest codeN in the note.
+ */
+export const nextSnippetLabel = (snippets: Pick<CodeSnippet, "label">[]) => {
+  const highest = snippets.reduce((max, snippet) => {
+    const match = snippet.label?.match(DEFAULT_LABEL);
+    return match ? Math.max(max, Number(match[1])) : max;
+  }, 0);
+  return `code${highest + 1}`;
+};
+
+/**
+ * Creates an empty snippet with a unique id and the next free label.
+ * @param snippets The snippets already in the note.
+ * @param language The snippet language.
+ */
+export const createSnippet = (
+  snippets: CodeSnippet[],
+  language: string,
+): CodeSnippet => {
+  return {
+    id: generateId(),
+    label: nextSnippetLabel(snippets),
+    code: "",
+    language,
+  };
+};
+
+/**
+ * Checks whether content was written before snippets had labels. Those
+ * snippets used their codeN label as id, which could repeat.
+ */
+export const needsSnippetMigration = (content: NoteContent): boolean => {
+  return (content.snippets ?? []).some((snippet) => !snippet.label);
+};
+
+/**
+ * Gives every snippet a unique id and a label. Older snippets keep their id
+ * as label; where a note held the same id twice, the later snippet gets a new
+ * label and references keep pointing at the first.
+ * @param content The note content.
+ * @param known Current snippets to take ids from, matched by label. Used to
+ * line up older versions of a note with the current one.
+ * @returns The migrated content, or the same object if nothing changed.
+ */
+export const migrateSnippets = <T extends NoteContent>(
+  content: T,
+  known: CodeSnippet[] = [],
+): T => {
+  if (!needsSnippetMigration(content)) return content;
+
+  // New labels go above every existing one, so none is taken twice
+  const taken = [
+    ...content.snippets.map((s) => ({ label: s.label || s.id })),
+    ...known,
+  ];
+  const labels = new Set<string>();
+  const snippets: CodeSnippet[] = [];
+  for (const snippet of content.snippets) {
+    let label = snippet.label || snippet.id;
+    if (!isValidSnippetLabel(label) || labels.has(label)) {
+      label = nextSnippetLabel([...taken, ...snippets]);
+    }
+    labels.add(label);
+
+    const id = snippet.label
+      ? snippet.id
+      : (known.find((k) => k.label === label)?.id ?? generateId());
+    snippets.push({ id, label, code: snippet.code, language: snippet.language });
+  }
+  return { ...content, snippets };
+};
+
+/**
+ * Rewrites [from] references in note content to [to].
+ */
+export const renameSnippetReferences = (
+  content: string,
+  from: string,
+  to: string,
+): string => {
+  return content.replace(
+    new RegExp(`\\[${escapeRegExp(from)}\\]`, "g"),
+    `[${to}]`,
+  );
+};
+
+/**
+ * Removes [label] references to a deleted snippet from note content.
+ * @returns The new content and how many references were removed.
+ */
+export const removeSnippetReferences = (
+  content: string,
+  label: string,
+): { content: string; removed: number } => {
+  let removed = 0;
+  const updated = content.replace(
+    new RegExp(`\\[${escapeRegExp(label)}\\]`, "g"),
+    () => {
+      removed++;
+      return "";
+    },
+  );
+  return { content: updated, removed };
+};
+
+/**
+ * Migrates the snippets of every stored note that still uses the old
+ * codeN ids. Run once per unlock; notes that are already current are only
+ * decrypted, not rewritten.
+ * @param notes The stored notes.
+ * @param key The vault key.
+ * @returns The notes, with migrated ones replaced.
+ */
+export const migrateSnippetIds = async (
+  notes: Note[],
+  key: CryptoKey,
+): Promise<Note[]> => {
+  const result: Note[] = [];
+  for (const note of notes) {
+    try {
+      const content = await decryptNoteField<NoteContent>(
+        note.id,
+        "content",
+        note.encryptedContent,
+        key,
+      );
+      if (!needsSnippetMigration(content)) {
+        result.push(note);
+        continue;
+      }
+      const migrated = await saveNote({
+        ...note,
+        encryptedContent: await encryptNoteField(
+          note.id,
+          "content",
+          migrateSnippets(content),
+          key,
+        ),
+      });
+      result.push(migrated);
+    } catch (error) {
+      console.error(`Failed to migrate snippets of note ${note.id}`, error);
+      result.push(note);
+    }
+  }
+  return result;
+};
@@ -1,61 +1,525 @@
-export interface Note {
-  id: string;
+import {
+  DEVICE_DB_NAME,
+  StorageAdapter,
+  createIndexedDBAdapter,
+  createLocalStorageAdapter,
+  deleteIndexedDB,
+  isIndexedDBAvailable,
+} from "./storageAdapter";
+import { CipherEnvelope, KdfParams } from "./encryption";
+import { announceChange } from "./tabSync";
+
+// Note metadata, stored only inside Note.encryptedMeta
+export interface NoteMeta {
   title: string;
-  // The encrypted content is an object containing the ciphertext and IV
-  encryptedContent: {
-    iv: string;
-    data: string;
-  };
   language: string;
   createdAt: number;
   updatedAt: number;
+  // When the note was moved to the trash; absent for notes that are not
+  deletedAt?: number;
+  // The folder holding the note; absent for notes at the top level
+  folderId?: string;
+  // Normalised tags (see tags.ts); absent when the note has none
+  tags?: string[];
+  // The live editing session the note is shared in; absent when it is not
+  collab?: CollabLink;
+}
+
+// Where a note is edited together with others (see collab.ts). Whoever holds
+// the key can read and write the note's session, so it is only ever stored
+// inside encrypted metadata and passed on in invite codes.
+export interface CollabLink {
+  relayUrl: string;
+  // The note's shared key: 32 random bytes, base64url encoded
+  key: string;
+  // The name shown to the other collaborators
+  name: string;
+}
+
+// Folder metadata, stored only inside Folder.encryptedMeta
+export interface FolderMeta {
+  name: string;
+  // The enclosing folder; null for top-level folders
+  parentId: string | null;
+  createdAt: number;
+}
+
+// A folder. Its name and place in the tree are encrypted like note metadata.
+export interface Folder {
+  id: string;
+  encryptedMeta: CipherEnvelope;
+}
+
+export interface Note {
+  id: string;
+  // Older records hold pre-envelope { iv, data } blobs; parseEnvelope reads both
+  encryptedContent: CipherEnvelope;
+  // The encrypted NoteMeta, under the same key as the content
+  encryptedMeta?: CipherEnvelope;
+  // Counts the saves of this note, so a save based on an outdated copy is
+  // caught; absent on notes not saved since it was introduced
+  revision?: number;
+  // Plaintext metadata from before encryptedMeta existed; removed on migration
+  title?: string;
+  language?: string;
+  createdAt?: number;
+  updatedAt?: number;
+}
+
+export interface CodeSnippet {
+  // Unique across notes; never shown
+  id: string;
+  // What [label] references in the note content point at (see snippets.ts)
+  label: string;
+  code: string;
+  language: string;
+}
+
+// The decrypted content of a note, stored inside Note.encryptedContent
+export interface NoteContent {
+  content: string;
+  snippets: CodeSnippet[];
+}
+
+// One earlier version of a note. The snapshot is a NoteSnapshot (see
+// noteHistory.ts) encrypted under the vault key.
+export interface NoteRevision {
+  id: string;
+  createdAt: number;
+  encryptedSnapshot: CipherEnvelope;
+}
+
+// The revisions of one note, oldest first, stored under the note's id
+export interface NoteHistory {
+  id: string;
+  revisions: NoteRevision[];
+}
+
+// Unsaved edits to a note, journalled so they survive a crash. The snapshot
+// is a NoteSnapshot encrypted under the vault key; see drafts.ts.
+export interface NoteDraft {
+  // The id of the note being edited
+  id: string;
+  savedAt: number;
+  encryptedSnapshot: CipherEnvelope;
+}
+
+// The collaborative document of a shared note: its Yjs state, encrypted under
+// the vault key, so edits merge cleanly after a reload
+export interface CollabDoc {
+  // The id of the shared note
+  id: string;
+  encryptedState: CipherEnvelope;
+}
+
+interface SyncProgress {
+  // Identifies this device in revision vectors
+  deviceId: string;
+  // The sequence number up to which records have been pulled
+  lastSeq: number;
+}
+
+// Syncing through a sync server (see sync.ts). The token only grants access
+// to the vault's encrypted records on that server. Configurations saved
+// before WebDAV was supported have no backend.
+export interface ServerSyncConfig extends SyncProgress {
+  backend?: "server";
+  serverUrl: string;
+  spaceId: string;
+  token: string;
+}
+
+// Syncing through a folder on a WebDAV server (see webdav.ts). The password
+// usually opens the whole account, so it is kept encrypted under the vault key.
+export interface WebDavSyncConfig extends SyncProgress {
+  backend: "webdav";
+  folderUrl: string;
+  username: string;
+  encryptedPassword: CipherEnvelope;
+}
+
+// Where and how a vault syncs
+export type SyncConfig = ServerSyncConfig | WebDavSyncConfig;
+
+// What this device last exchanged with the sync server for one record
+export interface SyncState {
+  // "<kind>:<record id>"
+  id: string;
+  vector: Record<string, number>;
+  // SHA-256 of the payload at that point; null for a deleted record
+  fingerprint: string | null;
 }
 
 export interface User {
   id: string;
   username: string;
+  // Verifier derived from the master key; legacy accounts store the raw key here
   passwordHash: string;
   // Salt is stored as a base64 string
   salt: string;
+  // The vault key wrapped by the password-derived KEK (absent on legacy accounts)
+  wrappedKey?: CipherEnvelope;
+  // The password KDF and its cost; accounts without it use LEGACY_KDF
+  kdf?: KdfParams;
+  // The vault key wrapped by the recovery phrase key (absent until one is set up)
+  recoveryKey?: CipherEnvelope;
+  // Counts changes to the verifier, salt, KDF and wrapped keys; absent means 0
+  keyVersion?: number;
+  // A migrated legacy account's old key, wrapped under the vault key until its
+  // notes are re-encrypted under the vault key
+  legacyKey?: CipherEnvelope;
+  // Failed logins after which the vault is deleted; absent or 0 never wipes
+  wipeAfterFailures?: number;
+}
+
+// Failed password attempts against a vault, kept across reloads
+export interface LoginAttempts {
+  failures: number;
+  // Epoch milliseconds before which no further attempt is accepted
+  lockedUntil: number;
+}
+
+// A vault on this device. The registry is plaintext so the login screen can
+// list vaults; everything inside a vault is namespaced by its id.
+export interface VaultInfo {
+  // The same as the vault owner's User.id
+  id: string;
+  name: string;
+  createdAt: number;
 }
 
 // In-memory store for the session's CryptoKey for better security
 let sessionKey: CryptoKey | null = null;
+// The vault whose user record and notes the storage functions operate on
+let activeVaultId: string | null = null;
 
+const VAULTS_KEY = "zks_vaults";
+// Per-vault keys are suffixed with ":<vaultId>"; unsuffixed keys predate vaults
 const NOTES_KEY = "zks_notes";
+const NOTE_HISTORY_KEY = "zks_note_history";
+const FOLDERS_KEY = "zks_folders";
+const DRAFTS_KEY = "zks_drafts";
+const COLLAB_DOCS_KEY = "zks_collab_docs";
+const SYNC_STATE_KEY = "zks_sync_state";
+const SYNC_CONFIG_KEY = "zks_sync_config";
 const USER_KEY = "zks_user";
+const SETTINGS_KEY = "zks_settings";
+const LOGIN_ATTEMPTS_KEY = "zks_login_attempts";
 
-export const getNotes = (): Note[] => {
+const vaultKey = (key: string, vaultId: string) => `${key}:${vaultId}`;
+const vaultDbName = (vaultId: string) => `${DEVICE_DB_NAME}:${vaultId}`;
+
+const requireActiveVault = (): string => {
+  if (!activeVaultId) {
+    throw new Error("No vault is selected.");
+  }
+  return activeVaultId;
+};
+
+// Non-secret preferences, stored in plaintext
+export interface Settings {
+  // Minutes of inactivity before the vault locks; 0 disables auto-lock
+  autoLockMinutes: number;
+  // Days a trashed note is kept before it is purged; 0 keeps it until emptied
+  trashRetentionDays: number;
+}
+
+/**
+ * Thrown when a note is saved from a copy that is no longer the stored one,
+ * because another tab saved it in the meantime.
+ */
+export class NoteConflictError extends Error {
+  // The note as it is stored now
+  readonly stored: Note;
+
+  constructor(stored: Note) {
+    super("The note was changed in another tab.");
+    this.name = "NoteConflictError";
+    this.stored = stored;
+  }
+}
+
+const DEFAULT_SETTINGS: Settings = {
+  autoLockMinutes: 15,
+  trashRetentionDays: 30,
+};
+
+const notesAdapters = new Map<string, Promise<StorageAdapter<Note>>>();
+// Adapters for the other per-vault stores, keyed by "<vaultId>/<storeName>"
+const vaultStores = new Map<string, Promise<unknown>>();
+
+/**
+ * Moves notes from a localStorage array into the adapter.
+ * The array is only removed once every note has been committed.
+ */
+const migrateLocalNotes = async (
+  adapter: StorageAdapter<Note>,
+  storageKey: string,
+) => {
+  const data = localStorage.getItem(storageKey);
+  if (!data) return;
+
+  const localNotes: Note[] = JSON.parse(data);
+  await adapter.transaction((tx) => localNotes.forEach((n) => tx.put(n)));
+  localStorage.removeItem(storageKey);
+};
+
+const initNotesAdapter = async (
+  vaultId: string,
+): Promise<StorageAdapter<Note>> => {
+  const localKey = vaultKey(NOTES_KEY, vaultId);
+  if (isIndexedDBAvailable()) {
+    try {
+      const adapter = await createIndexedDBAdapter<Note>(
+        "notes",
+        vaultDbName(vaultId),
+      );
+      // Pick up notes written while this vault was on the localStorage fallback
+      await migrateLocalNotes(adapter, localKey);
+      return adapter;
+    } catch (e) {
+      console.error("IndexedDB unavailable, falling back to localStorage", e);
+    }
+  }
+  return createLocalStorageAdapter<Note>(localKey);
+};
+
+const getNotesAdapter = (): Promise<StorageAdapter<Note>> => {
+  const vaultId = requireActiveVault();
+  let adapter = notesAdapters.get(vaultId);
+  if (!adapter) {
+    adapter = initNotesAdapter(vaultId);
+    notesAdapters.set(vaultId, adapter);
+  }
+  return adapter;
+};
+
+const initVaultStore = async <T extends { id: string }>(
+  vaultId: string,
+  storeName: string,
+  localKey: string,
+): Promise<StorageAdapter<T>> => {
+  if (isIndexedDBAvailable()) {
+    try {
+      return await createIndexedDBAdapter<T>(storeName, vaultDbName(vaultId));
+    } catch (e) {
+      console.error("IndexedDB unavailable, falling back to localStorage", e);
+    }
+  }
+  return createLocalStorageAdapter<T>(vaultKey(localKey, vaultId));
+};
+
+/**
+ * Opens one of the active vault's stores, caching the adapter per vault.
+ * @param storeName The IndexedDB object store.
+ * @param localKey The localStorage key prefix used as a fallback.
+ */
+const getVaultStore = <T extends { id: string }>(
+  storeName: string,
+  localKey: string,
+): Promise<StorageAdapter<T>> => {
+  const vaultId = requireActiveVault();
+  const cacheKey = `${vaultId}/${storeName}`;
+  let adapter = vaultStores.get(cacheKey) as
+    | Promise<StorageAdapter<T>>
+    | undefined;
+  if (!adapter) {
+    adapter = initVaultStore<T>(vaultId, storeName, localKey);
+    vaultStores.set(cacheKey, adapter);
+  }
+  return adapter;
+};
+
+const getHistoryAdapter = () =>
+  getVaultStore<NoteHistory>("noteHistory", NOTE_HISTORY_KEY);
+
+const getFoldersAdapter = () => getVaultStore<Folder>("folders", FOLDERS_KEY);
+
+const getDraftsAdapter = () => getVaultStore<NoteDraft>("drafts", DRAFTS_KEY);
+
+const getCollabDocsAdapter = () =>
+  getVaultStore<CollabDoc>("collabDocs", COLLAB_DOCS_KEY);
+
+const getSyncStateAdapter = () =>
+  getVaultStore<SyncState>("syncState", SYNC_STATE_KEY);
+
+export const getNotes = async (): Promise<Note[]> => {
   try {
-    const data = localStorage.getItem(NOTES_KEY);
-    return data ? JSON.parse(data) : [];
+    const adapter = await getNotesAdapter();
+    return await adapter.list();
+  } catch (e) {
+    console.error("Failed to load notes", e);
+    return [];
+  }
+};
+
+export const getNote = async (id: string): Promise<Note | undefined> => {
+  const adapter = await getNotesAdapter();
+  return adapter.get(id);
+};
+
+/**
+ * Stores a note as the next revision of the copy it was made from, and tells
+ * the vault's other tabs.
+ * @param note The updated note; its revision is the one it was read at.
+ * @returns The note as stored, with its new revision.
+ * @throws NoteConflictError if another tab stored a newer revision since.
+ */
+export const saveNote = async (note: Note): Promise<Note> => {
+  const vaultId = requireActiveVault();
+  const adapter = await getNotesAdapter();
+  const saved: Note = { ...note, revision: (note.revision ?? 0) + 1 };
+  const isOutdated = (current: Note | undefined): current is Note =>
+    current !== undefined && (current.revision ?? 0) !== (note.revision ?? 0);
+
+  const stored = await adapter.update(note.id, (current) =>
+    isOutdated(current) ? undefined : saved,
+  );
+  if (isOutdated(stored)) {
+    throw new NoteConflictError(stored);
+  }
+  announceChange(vaultId, {
+    type: "note",
+    id: saved.id,
+    revision: saved.revision!,
+  });
+  return saved;
+};
+
+export const deleteNote = async (id: string): Promise<void> => {
+  const vaultId = requireActiveVault();
+  const adapter = await getNotesAdapter();
+  await adapter.delete(id);
+  const history = await getHistoryAdapter();
+  await history.delete(id);
+  const drafts = await getDraftsAdapter();
+  await drafts.delete(id);
+  const collabDocs = await getCollabDocsAdapter();
+  await collabDocs.delete(id);
+  announceChange(vaultId, { type: "note-deleted", id });
+};
+
+export const getFolders = async (): Promise<Folder[]> => {
+  try {
+    const adapter = await getFoldersAdapter();
+    return await adapter.list();
   } catch (e) {
-    console.error("Failed to parse notes from localStorage", e);
+    console.error("Failed to load folders", e);
     return [];
   }
 };
 
-export const saveNote = (note: Note): void => {
-  const notes = getNotes();
-  const existingIndex = notes.findIndex((n) => n.id === note.id);
+export const saveFolder = async (folder: Folder): Promise<void> => {
+  const vaultId = requireActiveVault();
+  const adapter = await getFoldersAdapter();
+  await adapter.put(folder);
+  announceChange(vaultId, { type: "folders" });
+};
+
+export const deleteFolder = async (id: string): Promise<void> => {
+  const vaultId = requireActiveVault();
+  const adapter = await getFoldersAdapter();
+  await adapter.delete(id);
+  announceChange(vaultId, { type: "folders" });
+};
+
+export const getNoteHistory = async (noteId: string): Promise<NoteHistory> => {
+  const adapter = await getHistoryAdapter();
+  return (await adapter.get(noteId)) ?? { id: noteId, revisions: [] };
+};
+
+export const saveNoteHistory = async (history: NoteHistory): Promise<void> => {
+  const adapter = await getHistoryAdapter();
+  await adapter.put(history);
+};
 
-  if (existingIndex >= 0) {
-    notes[existingIndex] = note;
-  } else {
-    notes.push(note);
+export const getDrafts = async (): Promise<NoteDraft[]> => {
+  try {
+    const adapter = await getDraftsAdapter();
+    return await adapter.list();
+  } catch (e) {
+    console.error("Failed to load drafts", e);
+    return [];
   }
+};
 
-  localStorage.setItem(NOTES_KEY, JSON.stringify(notes));
+export const saveDraft = async (draft: NoteDraft): Promise<void> => {
+  const adapter = await getDraftsAdapter();
+  await adapter.put(draft);
 };
 
-export const deleteNote = (id: string): void => {
-  const notes = getNotes().filter((n) => n.id !== id);
-  localStorage.setItem(NOTES_KEY, JSON.stringify(notes));
+export const deleteDraft = async (noteId: string): Promise<void> => {
+  const adapter = await getDraftsAdapter();
+  await adapter.delete(noteId);
 };
 
-export const getUser = (): User | null => {
+export const getCollabDoc = async (
+  noteId: string,
+): Promise<CollabDoc | undefined> => {
+  const adapter = await getCollabDocsAdapter();
+  return adapter.get(noteId);
+};
+
+export const saveCollabDoc = async (doc: CollabDoc): Promise<void> => {
+  const adapter = await getCollabDocsAdapter();
+  await adapter.put(doc);
+};
+
+export const deleteCollabDoc = async (noteId: string): Promise<void> => {
+  const adapter = await getCollabDocsAdapter();
+  await adapter.delete(noteId);
+};
+
+export const getSyncStates = async (): Promise<SyncState[]> => {
+  const adapter = await getSyncStateAdapter();
+  return adapter.list();
+};
+
+export const saveSyncState = async (state: SyncState): Promise<void> => {
+  const adapter = await getSyncStateAdapter();
+  await adapter.put(state);
+};
+
+export const getSyncConfig = (): SyncConfig | null => {
   try {
-    const data = localStorage.getItem(USER_KEY);
+    const data = localStorage.getItem(
+      vaultKey(SYNC_CONFIG_KEY, requireActiveVault()),
+    );
+    return data ? JSON.parse(data) : null;
+  } catch (e) {
+    console.error("Failed to parse sync config from localStorage", e);
+    return null;
+  }
+};
+
+export const saveSyncConfig = (config: SyncConfig): void => {
+  localStorage.setItem(
+    vaultKey(SYNC_CONFIG_KEY, requireActiveVault()),
+    JSON.stringify(config),
+  );
+};
+
+/**
+ * Stops syncing the active vault and forgets what was exchanged, so a later
+ * connection starts afresh. Nothing is removed from the server.
+ */
+export const clearSyncConfig = async (): Promise<void> => {
+  localStorage.removeItem(vaultKey(SYNC_CONFIG_KEY, requireActiveVault()));
+  const adapter = await getSyncStateAdapter();
+  const states = await adapter.list();
+  await adapter.transaction((tx) => states.forEach((s) => tx.delete(s.id)));
+};
+
+/**
+ * Reads a vault's user record.
+ * @param vaultId The vault to read; defaults to the active vault.
+ */
+export const getUser = (
+  vaultId: string | null = activeVaultId,
+): User | null => {
+  if (!vaultId) return null;
+  try {
+    const data = localStorage.getItem(vaultKey(USER_KEY, vaultId));
     return data ? JSON.parse(data) : null;
   } catch (e) {
     console.error("Failed to parse user from localStorage", e);
@@ -64,7 +528,173 @@ export const getUser = (): User | null => {
 };
 
 export const saveUser = (user: User): void => {
-  localStorage.setItem(USER_KEY, JSON.stringify(user));
+  localStorage.setItem(
+    vaultKey(USER_KEY, requireActiveVault()),
+    JSON.stringify(user),
+  );
+};
+
+export const listVaults = (): VaultInfo[] => {
+  try {
+    const data = localStorage.getItem(VAULTS_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch (e) {
+    console.error("Failed to parse vaults from localStorage", e);
+    return [];
+  }
+};
+
+const saveVaults = (vaults: VaultInfo[]): void => {
+  localStorage.setItem(VAULTS_KEY, JSON.stringify(vaults));
+};
+
+export const getActiveVaultId = (): string | null => {
+  return activeVaultId;
+};
+
+/**
+ * Selects the vault that getUser, saveUser and the note functions use.
+ * @param vaultId The vault id, or null to deselect.
+ */
+export const setActiveVault = (vaultId: string | null): void => {
+  activeVaultId = vaultId;
+};
+
+/**
+ * Registers a new vault and stores its owner's user record.
+ * The vault is made active.
+ * @param name The display name shown in the vault picker.
+ * @param user The new vault's user record.
+ */
+export const addVault = (name: string, user: User): VaultInfo => {
+  const vault: VaultInfo = { id: user.id, name, createdAt: Date.now() };
+  setActiveVault(vault.id);
+  saveUser(user);
+  saveVaults([...listVaults(), vault]);
+  return vault;
+};
+
+/**
+ * Renames a vault in the registry and its owner's user record, so the lock
+ * screen shows the same name as the vault list.
+ */
+export const renameVault = (vaultId: string, name: string): void => {
+  saveVaults(
+    listVaults().map((v) => (v.id === vaultId ? { ...v, name } : v)),
+  );
+  const user = getUser(vaultId);
+  if (user) {
+    localStorage.setItem(
+      vaultKey(USER_KEY, vaultId),
+      JSON.stringify({ ...user, username: name }),
+    );
+  }
+};
+
+/**
+ * Permanently deletes a vault's user record and notes.
+ * @param vaultId The vault to delete.
+ */
+export const deleteVault = async (vaultId: string): Promise<void> => {
+  saveVaults(listVaults().filter((v) => v.id !== vaultId));
+  localStorage.removeItem(vaultKey(USER_KEY, vaultId));
+  localStorage.removeItem(vaultKey(NOTES_KEY, vaultId));
+  localStorage.removeItem(vaultKey(NOTE_HISTORY_KEY, vaultId));
+  localStorage.removeItem(vaultKey(FOLDERS_KEY, vaultId));
+  localStorage.removeItem(vaultKey(DRAFTS_KEY, vaultId));
+  localStorage.removeItem(vaultKey(COLLAB_DOCS_KEY, vaultId));
+  localStorage.removeItem(vaultKey(SYNC_STATE_KEY, vaultId));
+  localStorage.removeItem(vaultKey(SYNC_CONFIG_KEY, vaultId));
+  localStorage.removeItem(vaultKey(LOGIN_ATTEMPTS_KEY, vaultId));
+
+  notesAdapters.delete(vaultId);
+  for (const cacheKey of [...vaultStores.keys()]) {
+    if (cacheKey.startsWith(`${vaultId}/`)) vaultStores.delete(cacheKey);
+  }
+  if (isIndexedDBAvailable()) {
+    await deleteIndexedDB(vaultDbName(vaultId));
+  }
+
+  if (activeVaultId === vaultId) {
+    setActiveVault(null);
+    clearSession();
+  }
+};
+
+/**
+ * Moves the single account from before vaults existed into the registry.
+ * Its notes are copied into the vault's own storage before the old records
+ * are removed, so an interrupted migration simply runs again.
+ */
+export const migrateLegacyVault = async (): Promise<void> => {
+  const data = localStorage.getItem(USER_KEY);
+  if (!data) return;
+
+  const user: User = JSON.parse(data);
+  const previousVaultId = activeVaultId;
+  setActiveVault(user.id);
+  try {
+    const adapter = await getNotesAdapter();
+    await migrateLocalNotes(adapter, NOTES_KEY);
+
+    if (isIndexedDBAvailable()) {
+      const deviceNotes = await createIndexedDBAdapter<Note>("notes");
+      const notes = await deviceNotes.list();
+      await adapter.transaction((tx) => notes.forEach((n) => tx.put(n)));
+      await deviceNotes.transaction((tx) =>
+        notes.forEach((n) => tx.delete(n.id)),
+      );
+    }
+
+    saveUser(user);
+    if (!listVaults().some((v) => v.id === user.id)) {
+      saveVaults([
+        ...listVaults(),
+        { id: user.id, name: user.username, createdAt: Date.now() },
+      ]);
+    }
+    localStorage.removeItem(USER_KEY);
+  } finally {
+    setActiveVault(previousVaultId);
+  }
+};
+
+export const getLoginAttempts = (vaultId: string): LoginAttempts => {
+  try {
+    const data = localStorage.getItem(vaultKey(LOGIN_ATTEMPTS_KEY, vaultId));
+    return data ? JSON.parse(data) : { failures: 0, lockedUntil: 0 };
+  } catch (e) {
+    console.error("Failed to parse login attempts from localStorage", e);
+    return { failures: 0, lockedUntil: 0 };
+  }
+};
+
+export const saveLoginAttempts = (
+  vaultId: string,
+  attempts: LoginAttempts,
+): void => {
+  localStorage.setItem(
+    vaultKey(LOGIN_ATTEMPTS_KEY, vaultId),
+    JSON.stringify(attempts),
+  );
+};
+
+export const clearLoginAttempts = (vaultId: string): void => {
+  localStorage.removeItem(vaultKey(LOGIN_ATTEMPTS_KEY, vaultId));
+};
+
+export const getSettings = (): Settings => {
+  try {
+    const data = localStorage.getItem(SETTINGS_KEY);
+    return { ...DEFAULT_SETTINGS, ...(data ? JSON.parse(data) : {}) };
+  } catch (e) {
+    console.error("Failed to parse settings from localStorage", e);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: Settings): void => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
 };
 
 /**
@@ -77,9 +707,13 @@ export const getSessionKey = (): CryptoKey | null => {
 
 /**
  * Stores the session's encryption key in memory.
- * @param key The CryptoKey to save for the session.
+ * @param key The CryptoKey to save for the session; it must be
+ * non-extractable so that script access cannot export it.
  */
 export const saveSessionKey = (key: CryptoKey): void => {
+  if (key.extractable) {
+    throw new Error("The session key must not be extractable.");
+  }
   sessionKey = key;
 };
 
@@ -0,0 +1,255 @@
+// src/lib/storageAdapter.ts
+
+/**
+ * Operations queued inside a transaction. They are applied together
+ * when the transaction callback returns, or not at all.
+ */
+export interface StorageTransaction<T extends { id: string }> {
+  put: (record: T) => void;
+  delete: (id: string) => void;
+}
+
+/**
+ * A key-value store of records addressed by their id.
+ */
+export interface StorageAdapter<T extends { id: string }> {
+  get: (id: string) => Promise<T | undefined>;
+  put: (record: T) => Promise<void>;
+  delete: (id: string) => Promise<void>;
+  list: () => Promise<T[]>;
+  transaction: (fn: (tx: StorageTransaction<T>) => void) => Promise<void>;
+  /**
+   * Reads a record and writes what fn returns in one step, so no other tab
+   * can write in between. Nothing is written if fn returns undefined.
+   * @returns The record as it was before the update.
+   */
+  update: (
+    id: string,
+    fn: (current: T | undefined) => T | undefined,
+  ) => Promise<T | undefined>;
+}
+
+/**
+ * Creates an adapter that keeps every record in one JSON array in localStorage.
+ * Each write rewrites the whole array, so it is only meant as a fallback.
+ * @param storageKey The localStorage key holding the array.
+ */
+export const createLocalStorageAdapter = <T extends { id: string }>(
+  storageKey: string,
+): StorageAdapter<T> => {
+  const readAll = (): T[] => {
+    try {
+      const data = localStorage.getItem(storageKey);
+      return data ? JSON.parse(data) : [];
+    } catch (e) {
+      console.error(`Failed to parse ${storageKey} from localStorage`, e);
+      return [];
+    }
+  };
+
+  const writeAll = (records: T[]) => {
+    localStorage.setItem(storageKey, JSON.stringify(records));
+  };
+
+  const transaction = async (fn: (tx: StorageTransaction<T>) => void) => {
+    const records = readAll();
+    fn({
+      put: (record) => {
+        const index = records.findIndex((r) => r.id === record.id);
+        if (index >= 0) {
+          records[index] = record;
+        } else {
+          records.push(record);
+        }
+      },
+      delete: (id) => {
+        const index = records.findIndex((r) => r.id === id);
+        if (index >= 0) records.splice(index, 1);
+      },
+    });
+    writeAll(records);
+  };
+
+  // localStorage is read and written synchronously, so this cannot interleave
+  const update = async (
+    id: string,
+    fn: (current: T | undefined) => T | undefined,
+  ) => {
+    const current = readAll().find((r) => r.id === id);
+    const next = fn(current);
+    if (next) await transaction((tx) => tx.put(next));
+    return current;
+  };
+
+  return {
+    get: async (id) => readAll().find((r) => r.id === id),
+    put: (record) => transaction((tx) => tx.put(record)),
+    delete: (id) => transaction((tx) => tx.delete(id)),
+    list: async () => readAll(),
+    transaction,
+    update,
+  };
+};
+
+// The device-wide database; each vault also gets its own database
+export const DEVICE_DB_NAME = "zks_note";
+const DB_VERSION = 7;
+// Every object store the app uses; add new ones here and bump DB_VERSION.
+// All databases share the schema so a single upgrade path covers them.
+const OBJECT_STORES = [
+  "notes",
+  "tabKeys",
+  "noteHistory",
+  "folders",
+  "drafts",
+  "syncState",
+  "collabDocs",
+];
+
+const dbPromises = new Map<string, Promise<IDBDatabase>>();
+
+const requestToPromise = <R>(request: IDBRequest<R>): Promise<R> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () =>
+      reject(tx.error ?? new DOMException("Transaction aborted", "AbortError"));
+  });
+
+const openDatabase = (name: string): Promise<IDBDatabase> => {
+  let dbPromise = dbPromises.get(name);
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(name, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const storeName of OBJECT_STORES) {
+          if (!db.objectStoreNames.contains(storeName)) {
+            db.createObjectStore(storeName, { keyPath: "id" });
+          }
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer version or a deletion in another tab proceed
+        db.onversionchange = () => {
+          db.close();
+          dbPromises.delete(name);
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      request.onblocked = () =>
+        reject(new Error("The database is blocked by another open tab."));
+    });
+    dbPromises.set(name, dbPromise);
+    // Allow a later call to retry if opening failed
+    dbPromise.catch(() => {
+      dbPromises.delete(name);
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Closes and deletes an IndexedDB database.
+ * @param name The database name.
+ */
+export const deleteIndexedDB = async (name: string): Promise<void> => {
+  const dbPromise = dbPromises.get(name);
+  dbPromises.delete(name);
+  if (dbPromise) {
+    (await dbPromise.catch(() => null))?.close();
+  }
+  await requestToPromise(indexedDB.deleteDatabase(name));
+};
+
+/**
+ * Checks whether IndexedDB can be used in this browser.
+ */
+export const isIndexedDBAvailable = (): boolean => {
+  try {
+    return typeof indexedDB !== "undefined" && indexedDB !== null;
+  } catch (e) {
+    return false;
+  }
+};
+
+/**
+ * Creates an adapter that stores one IndexedDB record per item.
+ * @param storeName The object store to use; it must be listed in OBJECT_STORES.
+ * @param dbName The database to use; defaults to the device-wide database.
+ */
+export const createIndexedDBAdapter = async <T extends { id: string }>(
+  storeName: string,
+  dbName = DEVICE_DB_NAME,
+): Promise<StorageAdapter<T>> => {
+  const db = await openDatabase(dbName);
+
+  const store = (mode: IDBTransactionMode) =>
+    db.transaction(storeName, mode).objectStore(storeName);
+
+  const transaction = async (fn: (tx: StorageTransaction<T>) => void) => {
+    const tx = db.transaction(storeName, "readwrite");
+    const objectStore = tx.objectStore(storeName);
+    const done = transactionDone(tx);
+    try {
+      fn({
+        put: (record) => void objectStore.put(record),
+        delete: (id) => void objectStore.delete(id),
+      });
+    } catch (error) {
+      tx.abort();
+      await done.catch(() => undefined);
+      throw error;
+    }
+    await done;
+  };
+
+  const update = async (
+    id: string,
+    fn: (current: T | undefined) => T | undefined,
+  ) => {
+    const tx = db.transaction(storeName, "readwrite");
+    const objectStore = tx.objectStore(storeName);
+    const done = transactionDone(tx);
+    let current: T | undefined;
+    try {
+      // The read and the write share one readwrite transaction
+      current = await new Promise<T | undefined>((resolve, reject) => {
+        const request = objectStore.get(id);
+        request.onsuccess = () => {
+          try {
+            const next = fn(request.result);
+            if (next) objectStore.put(next);
+            resolve(request.result);
+          } catch (error) {
+            tx.abort();
+            reject(error);
+          }
+        };
+        request.onerror = () => reject(request.error);
+      });
+    } catch (error) {
+      await done.catch(() => undefined);
+      throw error;
+    }
+    await done;
+    return current;
+  };
+
+  return {
+    get: (id) => requestToPromise(store("readonly").get(id)),
+    put: (record) => transaction((tx) => tx.put(record)),
+    delete: (id) => transaction((tx) => tx.delete(id)),
+    list: () => requestToPromise(store("readonly").getAll()),
+    transaction,
+    update,
+  };
+};
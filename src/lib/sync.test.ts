@@ -0,0 +1,426 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { IDBFactory } from "fake-indexeddb";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  ENVELOPE_VERSION,
+  arrayBufferToBase64,
+  generateVaultKey,
+  sealEnvelope,
+} from "./encryption";
+import type { ServerSyncConfig } from "./storage";
+import type { SyncRecord } from "./syncProtocol";
+import { createMemoryStorage } from "@/test/setup";
+import { RunningServer, startServer } from "@/test/servers";
+
+// One device's storage, and the lib modules loaded against it
+interface Device {
+  localStorage: Storage;
+  indexedDB: IDBFactory;
+  sync: typeof import("./sync");
+  storage: typeof import("./storage");
+  vault: typeof import("./vault");
+  noteCrypto: typeof import("./noteCrypto");
+  noteHistory: typeof import("./noteHistory");
+  folders: typeof import("./folders");
+}
+
+const switchTo = (device: Pick<Device, "localStorage" | "indexedDB">) => {
+  vi.stubGlobal("localStorage", device.localStorage);
+  vi.stubGlobal("indexedDB", device.indexedDB);
+};
+
+/**
+ * Sets up a device with empty storage. Its modules are loaded afresh, so they
+ * cache nothing from other devices.
+ */
+const openDevice = async (): Promise<Device> => {
+  const stores = {
+    localStorage: createMemoryStorage(),
+    indexedDB: new IDBFactory(),
+  };
+  switchTo(stores);
+  vi.resetModules();
+  return {
+    ...stores,
+    sync: await import("./sync"),
+    storage: await import("./storage"),
+    vault: await import("./vault"),
+    noteCrypto: await import("./noteCrypto"),
+    noteHistory: await import("./noteHistory"),
+    folders: await import("./folders"),
+  };
+};
+
+const serverConfig = (device: Device) =>
+  device.storage.getSyncConfig() as ServerSyncConfig;
+
+const readContent = async (device: Device, id: string, key: CryptoKey) => {
+  const note = await device.storage.getNote(id);
+  const { content } = await device.noteCrypto.decryptNoteField<{
+    content: string;
+  }>(id, "content", note!.encryptedContent, key);
+  return content;
+};
+
+const editNote = async (
+  device: Device,
+  id: string,
+  content: string,
+  key: CryptoKey,
+) => {
+  const { notes, index } = await device.noteCrypto.loadNoteIndex(key);
+  await device.noteHistory.saveNoteVersion(
+    notes.find((note) => note.id === id)!,
+    index[id],
+    { title: index[id].title, content, snippets: [] },
+    key,
+  );
+};
+
+const vaultRecordOf = async (device: Device): Promise<SyncRecord> => {
+  const { records } = await device.sync
+    .createSyncClient(serverConfig(device))
+    .pull(0);
+  return records.find((record) => record.kind === "vault")!;
+};
+
+// The key material in a vault record's payload
+const vaultKeysOf = (record: SyncRecord) =>
+  JSON.parse(JSON.parse(record.payload!).record);
+
+/**
+ * Replaces the vault record on the server, as a server or anyone holding the
+ * sync code could.
+ */
+const replaceVaultRecord = async (device: Device, payload: string) => {
+  const stored = await vaultRecordOf(device);
+  const { accepted } = await device.sync
+    .createSyncClient(serverConfig(device))
+    .push([
+      {
+        ...stored,
+        vector: {
+          ...stored.vector,
+          intruder: (stored.vector.intruder ?? 0) + 1,
+        },
+        payload,
+      },
+    ]);
+  expect(accepted).toHaveLength(1);
+};
+
+/**
+ * Seals a vault record the way sync.ts does, under any key.
+ */
+const sealVaultKeys = async (
+  keys: { id: string },
+  key: CryptoKey,
+): Promise<string> => {
+  const record = JSON.stringify(keys);
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(record),
+  );
+  const seal = await sealEnvelope(arrayBufferToBase64(digest), key, {
+    aad: `zks-note|${keys.id}|vault-record|v${ENVELOPE_VERSION}`,
+  });
+  return JSON.stringify({ record, seal });
+};
+
+// The steps build on each other: two devices share one vault through the
+// reference server
+describe("syncing through the sync server", () => {
+  let server: RunningServer;
+  let dataDir: string;
+  let alice: Device;
+  let aliceKey: CryptoKey;
+  let laptop: Device;
+  let laptopKey: CryptoKey;
+  // The vault record from before the password change
+  let previousVaultRecord: SyncRecord;
+
+  beforeAll(async () => {
+    dataDir = await mkdtemp(join(tmpdir(), "zks-sync-"));
+    server = await startServer("server/sync-server.js", {
+      SYNC_DATA_DIR: dataDir,
+    });
+
+    alice = await openDevice();
+    const { user, vaultKey } = await alice.vault.createVault(
+      "alice",
+      "correct horse",
+    );
+    alice.storage.addVault("alice", user);
+    aliceKey = vaultKey;
+    const meta = {
+      title: "Groceries",
+      language: "plaintext",
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    };
+    await alice.storage.saveNote({
+      id: "n1",
+      encryptedContent: await alice.noteCrypto.encryptNoteField(
+        "n1",
+        "content",
+        { content: "milk", snippets: [] },
+        aliceKey,
+      ),
+      encryptedMeta: await alice.noteCrypto.encryptNoteField(
+        "n1",
+        "meta",
+        meta,
+        aliceKey,
+      ),
+    });
+  });
+
+  afterAll(async () => {
+    await server?.stop();
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  it("pushes the vault on the first sync", async () => {
+    switchTo(alice);
+    await alice.sync.connectSync(`${server.url}/`);
+
+    const result = await alice.sync.syncVault(aliceKey);
+
+    expect(result).toMatchObject({ pulled: 0, pushed: 2 });
+    const { records } = await alice.sync
+      .createSyncClient(serverConfig(alice))
+      .pull(0);
+    expect(records.map((r) => `${r.kind}:${r.id}`).sort()).toEqual([
+      "note:n1",
+      `vault:${alice.storage.getUser()!.id}`,
+    ]);
+    expect(records.some((r) => r.payload?.includes("milk"))).toBe(false);
+  });
+
+  it("pulls the vault onto a second device", async () => {
+    switchTo(alice);
+    const aliceConfig = serverConfig(alice);
+    const code = alice.sync.formatSyncCode(aliceConfig);
+
+    laptop = await openDevice();
+    await laptop.sync.joinSyncedVault(server.url, code, "alice-laptop");
+    laptopKey = (await laptop.vault.unlockVault(
+      laptop.storage.getUser()!,
+      "correct horse",
+    ))!;
+    const result = await laptop.sync.syncVault(laptopKey);
+
+    expect(serverConfig(laptop).deviceId).not.toBe(aliceConfig.deviceId);
+    expect(result.pulled).toBe(1);
+    expect(result.changes).toContainEqual(
+      expect.objectContaining({ type: "note", id: "n1" }),
+    );
+    expect(await readContent(laptop, "n1", laptopKey)).toBe("milk");
+  });
+
+  it("merges an edit pushed while this device was syncing", async () => {
+    switchTo(laptop);
+    await editNote(laptop, "n1", "milk, eggs", laptopKey);
+
+    // Alice saves and syncs her own edit between the laptop's pull and push
+    const realFetch = globalThis.fetch;
+    const laptopPushes: { conflicts: { id: string }[] }[] = [];
+    let hasRaced = false;
+    let isAliceSyncing = false;
+    const fetchSpy = vi
+      .spyOn(globalThis, "fetch")
+      .mockImplementation(async (input, init) => {
+        if (init?.method === "POST" && !hasRaced) {
+          hasRaced = true;
+          isAliceSyncing = true;
+          switchTo(alice);
+          await editNote(alice, "n1", "milk, bread", aliceKey);
+          await alice.sync.syncVault(aliceKey);
+          switchTo(laptop);
+          isAliceSyncing = false;
+        }
+        const response = await realFetch(input, init);
+        if (init?.method === "POST" && !isAliceSyncing) {
+          laptopPushes.push(await response.clone().json());
+        }
+        return response;
+      });
+    try {
+      await laptop.sync.syncVault(laptopKey);
+    } finally {
+      fetchSpy.mockRestore();
+    }
+
+    // Alice's edit was saved last, so it wins and the laptop's is kept in
+    // the note's history
+    expect(laptopPushes[0].conflicts.map((c) => c.id)).toContain("n1");
+    expect(await readContent(laptop, "n1", laptopKey)).toBe("milk, bread");
+    const history = await laptop.noteHistory.loadRevisions("n1", laptopKey);
+    expect(history.map((r) => r.snapshot.content)).toContain("milk, eggs");
+    expect(await laptop.sync.syncVault(laptopKey)).toMatchObject({
+      pulled: 0,
+      pushed: 0,
+    });
+
+    switchTo(alice);
+    expect(await alice.sync.syncVault(aliceKey)).toMatchObject({ pulled: 0 });
+    expect(await readContent(alice, "n1", aliceKey)).toBe("milk, bread");
+  });
+
+  it("removes a note deleted on another device", async () => {
+    switchTo(laptop);
+    await laptop.storage.deleteNote("n1");
+    expect(await laptop.sync.syncVault(laptopKey)).toMatchObject({ pushed: 1 });
+
+    switchTo(alice);
+    const result = await alice.sync.syncVault(aliceKey);
+
+    expect(result.changes).toContainEqual({ type: "note-deleted", id: "n1" });
+    expect(await alice.storage.getNote("n1")).toBeUndefined();
+    const { records } = await alice.sync
+      .createSyncClient(serverConfig(alice))
+      .pull(0);
+    expect(records.find((r) => r.id === "n1")?.payload).toBeNull();
+  });
+
+  it("untangles folders two devices moved into each other", async () => {
+    switchTo(alice);
+    const work = await alice.folders.createFolder("Work", null, aliceKey);
+    const archive = await alice.folders.createFolder("Archive", null, aliceKey);
+    await alice.sync.syncVault(aliceKey);
+    switchTo(laptop);
+    await laptop.sync.syncVault(laptopKey);
+
+    switchTo(alice);
+    await alice.folders.moveFolder(
+      work.id,
+      archive.id,
+      await alice.folders.loadFolderIndex(aliceKey),
+      aliceKey,
+    );
+    switchTo(laptop);
+    await laptop.folders.moveFolder(
+      archive.id,
+      work.id,
+      await laptop.folders.loadFolderIndex(laptopKey),
+      laptopKey,
+    );
+    await laptop.sync.syncVault(laptopKey);
+    switchTo(alice);
+    await alice.sync.syncVault(aliceKey);
+    switchTo(laptop);
+    await laptop.sync.syncVault(laptopKey);
+    switchTo(alice);
+    await alice.sync.syncVault(aliceKey);
+
+    const aliceFolders = await alice.folders.loadFolderIndex(aliceKey);
+    switchTo(laptop);
+    expect(await laptop.folders.loadFolderIndex(laptopKey)).toEqual(
+      aliceFolders,
+    );
+    for (const [id, meta] of Object.entries(aliceFolders)) {
+      expect(
+        alice.folders.isFolderWithin(aliceFolders, meta.parentId, id),
+      ).toBe(false);
+    }
+  });
+
+  it("carries a password change to the other device", async () => {
+    switchTo(alice);
+    previousVaultRecord = await vaultRecordOf(alice);
+    await alice.vault.changePassword(
+      alice.storage.getUser()!,
+      "correct horse",
+      "battery staple",
+    );
+    expect(await alice.sync.syncVault(aliceKey)).toMatchObject({ pushed: 1 });
+
+    switchTo(laptop);
+    expect(await laptop.sync.syncVault(laptopKey)).toMatchObject({ pulled: 1 });
+
+    const user = laptop.storage.getUser()!;
+    expect(user.username).toBe("alice-laptop");
+    expect(await laptop.vault.unlockVault(user, "battery staple")).toBeTruthy();
+    expect(await laptop.vault.unlockVault(user, "correct horse")).toBeNull();
+  });
+
+  it("does not let an older vault record undo a password change", async () => {
+    switchTo(laptop);
+    await replaceVaultRecord(laptop, previousVaultRecord.payload!);
+
+    expect(await laptop.sync.syncVault(laptopKey)).toMatchObject({ pulled: 0 });
+
+    const user = laptop.storage.getUser()!;
+    expect(await laptop.vault.unlockVault(user, "battery staple")).toBeTruthy();
+    expect(await laptop.vault.unlockVault(user, "correct horse")).toBeNull();
+    // The device puts its newer record back
+    expect(vaultKeysOf(await vaultRecordOf(laptop)).keyVersion).toBe(
+      user.keyVersion,
+    );
+  });
+
+  it("ignores forged vault records and puts its own back", async () => {
+    switchTo(alice);
+    const genuine = await vaultRecordOf(alice);
+    const keys = vaultKeysOf(genuine);
+    // The intruder's own password, so the vault would unlock with it
+    const intruder = await alice.vault.createVault("intruder", "let me in");
+    const intruderKeys = {
+      ...keys,
+      keyVersion: keys.keyVersion + 1,
+      passwordHash: intruder.user.passwordHash,
+      salt: intruder.user.salt,
+      kdf: intruder.user.kdf,
+      wrappedKey: intruder.user.wrappedKey,
+    };
+    const forgeries = {
+      "keeps the genuine seal": JSON.stringify({
+        record: JSON.stringify(intruderKeys),
+        seal: JSON.parse(genuine.payload!).seal,
+      }),
+      "is sealed under another key": await sealVaultKeys(
+        intruderKeys,
+        await generateVaultKey(),
+      ),
+    };
+
+    for (const [forgery, payload] of Object.entries(forgeries)) {
+      await replaceVaultRecord(alice, payload);
+
+      const result = await alice.sync.syncVault(aliceKey);
+
+      expect(result, forgery).toMatchObject({ pulled: 0, pushed: 1 });
+      const user = alice.storage.getUser()!;
+      expect(
+        await alice.vault.unlockVault(user, "let me in"),
+        forgery,
+      ).toBeNull();
+      expect(
+        await alice.vault.unlockVault(user, "battery staple"),
+        forgery,
+      ).toBeTruthy();
+      expect(vaultKeysOf(await vaultRecordOf(alice)), forgery).toEqual(keys);
+    }
+  });
+
+  it("refuses a wrong token", async () => {
+    switchTo(alice);
+    const { spaceId } = serverConfig(alice);
+    const client = alice.sync.createSyncClient({
+      serverUrl: server.url,
+      spaceId,
+      token: "not-the-token",
+    });
+
+    const response = await fetch(`${server.url}/v1/spaces/${spaceId}/records`, {
+      headers: { Authorization: "Bearer not-the-token" },
+    });
+    expect(response.status).toBe(401);
+    await expect(client.pull(0)).rejects.toThrow(alice.sync.SyncError);
+    await expect(client.push([])).rejects.toThrow(
+      "The sync server did not accept this sync code.",
+    );
+  });
+});
@@ -0,0 +1,719 @@
+import {
+  CipherEnvelope,
+  ENVELOPE_VERSION,
+  arrayBufferToBase64,
+  openEnvelope,
+  parseEnvelope,
+  sealEnvelope,
+} from "./encryption";
+import {
+  Folder,
+  Note,
+  ServerSyncConfig,
+  SyncConfig,
+  SyncState,
+  User,
+  VaultInfo,
+  addVault,
+  deleteFolder,
+  deleteNote,
+  deleteVault,
+  generateId,
+  getActiveVaultId,
+  getFolders,
+  getNotes,
+  getSyncConfig,
+  getSyncStates,
+  getUser,
+  listVaults,
+  saveFolder,
+  saveNote,
+  saveSyncConfig,
+  saveSyncState,
+  saveUser,
+  setActiveVault,
+} from "./storage";
+import { VaultChange } from "./tabSync";
+import { recordRevision } from "./noteHistory";
+import { loadStoredVersion } from "./noteConflicts";
+import {
+  SyncClient,
+  SyncError,
+  SyncRecord,
+  SyncRecordKind,
+  compareVectors,
+  mergeVectors,
+  recordKey,
+} from "./syncProtocol";
+import {
+  WebDavCredentials,
+  connectWebDavFolder,
+  createWebDavClient,
+  normaliseFolderUrl,
+} from "./webdav";
+import { unlockVault } from "./vault";
+import { breakFolderCycle } from "./folders";
+
+export { SyncError } from "./syncProtocol";
+
+export interface SyncResult {
+  // Records taken over from the server
+  pulled: number;
+  // Records the server accepted from this device
+  pushed: number;
+  // What changed locally, for the open tab to apply
+  changes: VaultChange[];
+}
+
+// Pushes rejected as conflicts are merged and retried up to this many times
+const MAX_PUSH_ROUNDS = 3;
+
+// The part of the vault record that is synced: what unlocking the vault with
+// its password or recovery phrase needs. The vault's name and device settings
+// such as wipeAfterFailures stay on each device.
+type VaultKeys = Pick<
+  User,
+  "id" | "passwordHash" | "salt" | "kdf" | "wrappedKey" | "recoveryKey"
+> & { keyVersion: number };
+
+// The vault record as synced. The seal, an envelope under the vault key over
+// the record's digest, keeps the backend or anyone holding the sync code from
+// forging it.
+interface VaultPayload {
+  // The JSON of the VaultKeys
+  record: string;
+  seal: CipherEnvelope;
+}
+
+const digest = async (text: string): Promise<string> =>
+  arrayBufferToBase64(
+    await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text)),
+  );
+
+/**
+ * Builds the context label that ties a vault record's seal to its vault.
+ */
+const vaultRecordAad = (vaultId: string, version: number) =>
+  `zks-note|${vaultId}|vault-record|v${version}`;
+
+const vaultKeysRecord = (user: User): string => {
+  const keys: VaultKeys = {
+    id: user.id,
+    keyVersion: user.keyVersion ?? 0,
+    passwordHash: user.passwordHash,
+    salt: user.salt,
+    kdf: user.kdf,
+    wrappedKey: user.wrappedKey,
+    recoveryKey: user.recoveryKey,
+  };
+  return JSON.stringify(keys);
+};
+
+const readVaultPayload = (payload: string): VaultPayload | null => {
+  try {
+    const parsed = JSON.parse(payload);
+    return typeof parsed?.record === "string" && parsed.seal ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+const sealVaultRecord = async (user: User, key: CryptoKey): Promise<string> => {
+  const record = vaultKeysRecord(user);
+  const payload: VaultPayload = {
+    record,
+    seal: await sealEnvelope(await digest(record), key, {
+      aad: vaultRecordAad(user.id, ENVELOPE_VERSION),
+    }),
+  };
+  return JSON.stringify(payload);
+};
+
+/**
+ * Fingerprints a record's payload. A vault record is sealed afresh every time
+ * it is built, so only its content counts.
+ */
+const fingerprint = async (
+  kind: SyncRecordKind,
+  payload: string | null,
+): Promise<string | null> => {
+  if (payload === null) return null;
+  const vaultPayload = kind === "vault" ? readVaultPayload(payload) : null;
+  return digest(vaultPayload?.record ?? payload);
+};
+
+/**
+ * Checks a server address and strips trailing slashes.
+ * @throws SyncError if it is not an http(s) URL.
+ */
+export const normaliseServerUrl = (serverUrl: string): string => {
+  const trimmed = serverUrl.trim().replace(/\/+$/, "");
+  try {
+    const { protocol } = new URL(trimmed);
+    if (protocol === "http:" || protocol === "https:") return trimmed;
+  } catch {
+    // Reported below
+  }
+  throw new SyncError("Enter the sync server's http(s) address.");
+};
+
+/**
+ * Builds the code another device enters to join a sync space.
+ */
+export const formatSyncCode = (
+  config: Pick<ServerSyncConfig, "spaceId" | "token">,
+) =>
+  `${config.spaceId}.${config.token}`;
+
+export const parseSyncCode = (
+  code: string,
+): { spaceId: string; token: string } | null => {
+  const match = code.trim().match(/^([A-Za-z0-9_-]+)\.([A-Za-z0-9_-]+)$/);
+  return match ? { spaceId: match[1], token: match[2] } : null;
+};
+
+const request = async <T>(url: string, init: RequestInit): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch {
+    throw new SyncError("Could not reach the sync server.");
+  }
+  if (response.status === 401) {
+    throw new SyncError("The sync server did not accept this sync code.");
+  }
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new SyncError(
+      body?.error ?? `The sync server answered with status ${response.status}.`,
+    );
+  }
+  return response.json();
+};
+
+/**
+ * Opens a new, empty sync space on a server.
+ * @returns The space and the token that grants access to it.
+ */
+export const createSyncSpace = (
+  serverUrl: string,
+): Promise<{ spaceId: string; token: string }> => {
+  return request(`${normaliseServerUrl(serverUrl)}/v1/spaces`, {
+    method: "POST",
+  });
+};
+
+/**
+ * Creates a client for one sync space.
+ */
+export const createSyncClient = (
+  config: Pick<ServerSyncConfig, "serverUrl" | "spaceId" | "token">,
+): SyncClient => {
+  const url = `${normaliseServerUrl(config.serverUrl)}/v1/spaces/${encodeURIComponent(config.spaceId)}/records`;
+  const headers = {
+    Authorization: `Bearer ${config.token}`,
+    "Content-Type": "application/json",
+  };
+
+  return {
+    pull: (since) => request(`${url}?since=${since}`, { headers }),
+    push: (records) =>
+      request(url, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ records }),
+      }),
+  };
+};
+
+/**
+ * Builds the context label that ties an encrypted WebDAV password to its vault.
+ */
+const webDavPasswordAad = (vaultId: string, version: number) =>
+  `zks-note|${vaultId}|webdav-password|v${version}`;
+
+const sealWebDavPassword = (
+  password: string,
+  key: CryptoKey,
+  vaultId: string,
+): Promise<CipherEnvelope> =>
+  sealEnvelope(password, key, {
+    aad: webDavPasswordAad(vaultId, ENVELOPE_VERSION),
+  });
+
+/**
+ * Creates the client for the backend a vault syncs through.
+ * @param key The vault key, which a WebDAV password is encrypted under.
+ */
+const openSyncClient = async (
+  config: SyncConfig,
+  key: CryptoKey,
+): Promise<SyncClient> => {
+  if (config.backend !== "webdav") return createSyncClient(config);
+  const envelope = parseEnvelope(config.encryptedPassword);
+  const password = await openEnvelope(
+    envelope,
+    key,
+    webDavPasswordAad(getActiveVaultId()!, envelope.v),
+  );
+  return createWebDavClient({
+    folderUrl: config.folderUrl,
+    username: config.username,
+    password,
+  });
+};
+
+// A record as it is stored on this device
+interface LocalRecord {
+  kind: SyncRecordKind;
+  id: string;
+  payload: string;
+  note?: Note;
+}
+
+const notePayload = (note: Note): string | null =>
+  note.encryptedMeta
+    ? JSON.stringify({
+        encryptedContent: note.encryptedContent,
+        encryptedMeta: note.encryptedMeta,
+      })
+    : null;
+
+/**
+ * Reads every record of the active vault that is synced, by record key.
+ * Notes still in the pre-envelope format are left out until migrated.
+ * @param key The vault key, which seals the vault record.
+ */
+const collectLocalRecords = async (
+  key: CryptoKey,
+): Promise<Map<string, LocalRecord>> => {
+  const records = new Map<string, LocalRecord>();
+  const add = (record: LocalRecord) =>
+    records.set(recordKey(record.kind, record.id), record);
+
+  for (const note of await getNotes()) {
+    const payload = notePayload(note);
+    if (payload) add({ kind: "note", id: note.id, payload, note });
+  }
+  for (const folder of await getFolders()) {
+    add({
+      kind: "folder",
+      id: folder.id,
+      payload: JSON.stringify({ encryptedMeta: folder.encryptedMeta }),
+    });
+  }
+  const user = getUser();
+  if (user) {
+    add({ kind: "vault", id: user.id, payload: await sealVaultRecord(user, key) });
+  }
+  return records;
+};
+
+/**
+ * Decides a note both sides changed. A deleted side loses to an edited one;
+ * otherwise the version saved last wins and the other is kept in the note's
+ * history.
+ * @returns Whether the local version wins.
+ */
+const resolveNoteConflict = async (
+  remote: SyncRecord,
+  local: LocalRecord | undefined,
+  key: CryptoKey,
+): Promise<boolean> => {
+  if (!remote.payload) return true;
+  if (!local?.note) return false;
+
+  const remoteNote: Note = { id: remote.id, ...JSON.parse(remote.payload) };
+  let theirs;
+  try {
+    theirs = await loadStoredVersion(remoteNote, key);
+  } catch (error) {
+    // A record that does not decrypt is replaced by the local one
+    console.error(`Failed to decrypt the synced copy of note ${remote.id}`, error);
+    return true;
+  }
+  const mine = await loadStoredVersion(local.note, key);
+
+  const keepLocal = mine.meta.updatedAt > theirs.meta.updatedAt;
+  await recordRevision(
+    remote.id,
+    keepLocal ? theirs.snapshot : mine.snapshot,
+    key,
+  );
+  return keepLocal;
+};
+
+/**
+ * Checks a vault record before its key material replaces the local one. It
+ * must be sealed under this vault's key and newer than the local copy, so an
+ * old record cannot undo a password change. Devices that changed the keys at
+ * the same time settle on the same record.
+ * @returns Whether to take the record over.
+ */
+const verifyVaultRecord = async (
+  record: SyncRecord,
+  key: CryptoKey,
+): Promise<boolean> => {
+  const user = getUser();
+  const vaultPayload = record.payload && readVaultPayload(record.payload);
+  if (!user || !vaultPayload || record.id !== user.id) return false;
+
+  try {
+    const envelope = parseEnvelope(vaultPayload.seal);
+    const sealed = await openEnvelope(
+      envelope,
+      key,
+      vaultRecordAad(user.id, envelope.v),
+    );
+    if (sealed !== (await digest(vaultPayload.record))) return false;
+  } catch (error) {
+    console.error("The synced vault record is not sealed by this vault", error);
+    return false;
+  }
+
+  const keys: VaultKeys = JSON.parse(vaultPayload.record);
+  const localVersion = user.keyVersion ?? 0;
+  if (keys.id !== user.id || keys.keyVersion < localVersion) return false;
+  return (
+    keys.keyVersion > localVersion ||
+    (await digest(vaultPayload.record)) >
+      (await digest(vaultKeysRecord(user)))
+  );
+};
+
+/**
+ * Writes a record from the server into local storage.
+ * A vault record must have passed verifyVaultRecord. A folder that would sit
+ * inside itself is moved to the top level, which the next push shares.
+ * @param key The vault key, to check where a folder sits.
+ * @returns The change to tell the open tab about.
+ */
+const applyRemoteRecord = async (
+  record: SyncRecord,
+  local: LocalRecord | undefined,
+  key: CryptoKey,
+): Promise<VaultChange | null> => {
+  if (record.kind === "vault") {
+    const keys: VaultKeys = JSON.parse(readVaultPayload(record.payload!)!.record);
+    saveUser({ ...getUser()!, ...keys });
+    return null;
+  }
+
+  if (record.kind === "folder") {
+    if (record.payload) {
+      const { encryptedMeta } = JSON.parse(record.payload);
+      const folder: Folder = { id: record.id, encryptedMeta };
+      await saveFolder(folder);
+      await breakFolderCycle(record.id, key);
+    } else if (local) {
+      await deleteFolder(record.id);
+    }
+    return { type: "folders" };
+  }
+
+  if (!record.payload) {
+    if (!local) return null;
+    await deleteNote(record.id);
+    return { type: "note-deleted", id: record.id };
+  }
+  const envelopes: {
+    encryptedContent: CipherEnvelope;
+    encryptedMeta: CipherEnvelope;
+  } = JSON.parse(record.payload);
+  const saved = await saveNote({
+    id: record.id,
+    ...envelopes,
+    revision: local?.note?.revision,
+  });
+  return { type: "note", id: saved.id, revision: saved.revision! };
+};
+
+const runSync = async (key: CryptoKey): Promise<SyncResult> => {
+  const config = getSyncConfig();
+  if (!config) throw new SyncError("Sync is not set up for this vault.");
+  const client = await openSyncClient(config, key);
+  const states = new Map((await getSyncStates()).map((s) => [s.id, s]));
+  const result: SyncResult = { pulled: 0, pushed: 0, changes: [] };
+
+  const remember = async (state: SyncState) => {
+    states.set(state.id, state);
+    await saveSyncState(state);
+  };
+
+  const merge = async (
+    record: SyncRecord,
+    local: Map<string, LocalRecord>,
+  ): Promise<void> => {
+    const id = recordKey(record.kind, record.id);
+    const state = states.get(id);
+    const order = state ? compareVectors(record.vector, state.vector) : "after";
+    if (order === "equal" || order === "before") return;
+
+    const localRecord = local.get(id);
+    const localPrint = await fingerprint(
+      record.kind,
+      localRecord?.payload ?? null,
+    );
+    const remotePrint = await fingerprint(record.kind, record.payload);
+    const isLocalChanged = state
+      ? localPrint !== state.fingerprint
+      : localPrint !== null;
+
+    if (localPrint !== remotePrint) {
+      // A vault record that is forged, deleted or older is overwritten by
+      // the local one
+      const keepLocal =
+        record.kind === "vault"
+          ? !(await verifyVaultRecord(record, key))
+          : isLocalChanged &&
+            record.kind === "note" &&
+            (await resolveNoteConflict(record, localRecord, key));
+      if (!keepLocal) {
+        const change = await applyRemoteRecord(record, localRecord, key);
+        if (change) result.changes.push(change);
+        result.pulled++;
+      }
+    }
+    // Matching the server's copy means a kept local version is pushed next
+    await remember({
+      id,
+      vector: mergeVectors(record.vector, state?.vector ?? {}),
+      fingerprint: remotePrint,
+    });
+  };
+
+  const pulled = await client.pull(config.lastSeq);
+  let hasFailed = false;
+  const local = await collectLocalRecords(key);
+  for (const record of pulled.records) {
+    try {
+      await merge(record, local);
+    } catch (error) {
+      hasFailed = true;
+      console.error(`Failed to merge synced ${record.kind} ${record.id}`, error);
+    }
+  }
+  // Records that failed to merge are pulled again next time
+  if (!hasFailed) saveSyncConfig({ ...config, lastSeq: pulled.seq });
+
+  for (let round = 0; round < MAX_PUSH_ROUNDS; round++) {
+    const current = await collectLocalRecords(key);
+    const pending: { record: SyncRecord; fingerprint: string | null }[] = [];
+
+    const offer = async (
+      kind: SyncRecordKind,
+      id: string,
+      payload: string | null,
+    ) => {
+      const state = states.get(recordKey(kind, id));
+      const print = await fingerprint(kind, payload);
+      if (state ? state.fingerprint === print : print === null) return;
+      const vector = state?.vector ?? {};
+      pending.push({
+        record: {
+          kind,
+          id,
+          vector: { ...vector, [config.deviceId]: (vector[config.deviceId] ?? 0) + 1 },
+          payload,
+        },
+        fingerprint: print,
+      });
+    };
+
+    for (const record of current.values()) {
+      await offer(record.kind, record.id, record.payload);
+    }
+    // Records synced before but gone now were deleted on this device
+    for (const state of states.values()) {
+      if (state.fingerprint !== null && !current.has(state.id)) {
+        const [kind, ...rest] = state.id.split(":");
+        await offer(kind as SyncRecordKind, rest.join(":"), null);
+      }
+    }
+    if (pending.length === 0) break;
+
+    const pushed = await client.push(pending.map((p) => p.record));
+    for (const accepted of pushed.accepted) {
+      const entry = pending.find(
+        (p) => p.record.kind === accepted.kind && p.record.id === accepted.id,
+      );
+      if (!entry) continue;
+      await remember({
+        id: recordKey(accepted.kind, accepted.id),
+        vector: entry.record.vector,
+        fingerprint: entry.fingerprint,
+      });
+      result.pushed++;
+    }
+    if (pushed.conflicts.length === 0) break;
+    for (const conflict of pushed.conflicts) {
+      await merge(conflict, current);
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Exchanges the active vault's changes with its sync server or WebDAV folder.
+ * Records changed there are pulled first; where both sides changed a record,
+ * notes keep the version saved last, with the other in their history, while
+ * folders and the vault record take the synced copy. Local changes are then
+ * pushed with their revision vectors.
+ * @param key The vault key, used to decide conflicting notes and to decrypt a
+ * WebDAV password.
+ */
+export const syncVault = async (key: CryptoKey): Promise<SyncResult> => {
+  // Tabs share the device id, so only one of them syncs a vault at a time
+  if (!navigator.locks) return runSync(key);
+  let result: SyncResult | undefined;
+  await navigator.locks.request(`zks_sync:${getActiveVaultId()}`, async () => {
+    result = await runSync(key);
+  });
+  return result!;
+};
+
+/**
+ * Starts syncing the active vault through a new space on a server. The first
+ * sync uploads the vault.
+ * @param serverUrl The sync server's address.
+ * @returns The saved sync configuration.
+ */
+export const connectSync = async (serverUrl: string): Promise<SyncConfig> => {
+  const { spaceId, token } = await createSyncSpace(serverUrl);
+  const config: SyncConfig = {
+    serverUrl: normaliseServerUrl(serverUrl),
+    spaceId,
+    token,
+    deviceId: generateId(),
+    lastSeq: 0,
+  };
+  saveSyncConfig(config);
+  return config;
+};
+
+/**
+ * Builds the user record of a vault from the records of a sync space or
+ * folder. Its seal can only be checked once the vault is unlocked; a forged
+ * record does not unlock with the vault's password.
+ * @param name What to call the vault on this device.
+ * @throws SyncError if there is no vault record, or the vault or its name is
+ * on this device already.
+ */
+const findSyncedVault = (records: SyncRecord[], name: string): User => {
+  const vaultRecord = records.find((r) => r.kind === "vault" && r.payload);
+  const vaultPayload =
+    vaultRecord?.payload && readVaultPayload(vaultRecord.payload);
+  if (!vaultPayload) {
+    throw new SyncError("No vault has been synced there yet.");
+  }
+  const keys: VaultKeys = JSON.parse(vaultPayload.record);
+  if (listVaults().some((v) => v.id === keys.id)) {
+    throw new SyncError("This vault is already on this device.");
+  }
+  if (listVaults().some((v) => v.name.toLowerCase() === name.toLowerCase())) {
+    throw new SyncError("A vault with this name already exists on this device.");
+  }
+  return { ...keys, username: name };
+};
+
+/**
+ * Adds a vault synced from another device to this one. Its notes are pulled
+ * on the first unlock, which needs the vault's password as usual.
+ * @param serverUrl The sync server's address.
+ * @param code The sync code shown on the other device.
+ * @param name What to call the vault on this device.
+ * @returns The vault, which is made active.
+ */
+export const joinSyncedVault = async (
+  serverUrl: string,
+  code: string,
+  name: string,
+): Promise<VaultInfo> => {
+  const parsed = parseSyncCode(code);
+  if (!parsed) throw new SyncError("That is not a valid sync code.");
+  const { records } = await createSyncClient({ serverUrl, ...parsed }).pull(0);
+
+  const user = findSyncedVault(records, name);
+  const vault = addVault(name, user);
+  saveSyncConfig({
+    serverUrl: normaliseServerUrl(serverUrl),
+    ...parsed,
+    deviceId: generateId(),
+    lastSeq: 0,
+  });
+  return vault;
+};
+
+/**
+ * Starts syncing the active vault through a WebDAV folder, such as one on a
+ * Nextcloud. The first sync uploads the vault.
+ * @param credentials The folder and the account to write to it with.
+ * @param key The vault key, which the password is stored encrypted under.
+ * @returns The saved sync configuration.
+ */
+export const connectWebDavSync = async (
+  credentials: WebDavCredentials,
+  key: CryptoKey,
+): Promise<SyncConfig> => {
+  const vaultId = getActiveVaultId();
+  if (!vaultId) throw new SyncError("No vault is selected.");
+  await connectWebDavFolder(credentials, vaultId);
+  const config: SyncConfig = {
+    backend: "webdav",
+    folderUrl: normaliseFolderUrl(credentials.folderUrl),
+    username: credentials.username,
+    encryptedPassword: await sealWebDavPassword(
+      credentials.password,
+      key,
+      vaultId,
+    ),
+    deviceId: generateId(),
+    lastSeq: 0,
+  };
+  saveSyncConfig(config);
+  return config;
+};
+
+/**
+ * Adds a vault synced to a WebDAV folder from another device to this one.
+ * Unlike a sync code, the WebDAV password is kept encrypted under the vault
+ * key, so the vault's password is needed right away.
+ * @param credentials The folder and the account to read it with.
+ * @param vaultPassword The vault's password.
+ * @param name What to call the vault on this device.
+ * @returns The vault, which is made active.
+ */
+export const joinWebDavVault = async (
+  credentials: WebDavCredentials,
+  vaultPassword: string,
+  name: string,
+): Promise<VaultInfo> => {
+  const { records } = await createWebDavClient(credentials).pull(0);
+  const user = findSyncedVault(records, name);
+
+  const previousVaultId = getActiveVaultId();
+  const vault = addVault(name, user);
+  // Unlocking may upgrade the user record, which is only stored once the
+  // vault is registered
+  const key = await unlockVault(getUser()!, vaultPassword);
+  if (!key) {
+    await deleteVault(vault.id);
+    setActiveVault(previousVaultId);
+    throw new SyncError("That is not the vault's password.");
+  }
+
+  saveSyncConfig({
+    backend: "webdav",
+    folderUrl: normaliseFolderUrl(credentials.folderUrl),
+    username: credentials.username,
+    encryptedPassword: await sealWebDavPassword(
+      credentials.password,
+      key,
+      vault.id,
+    ),
+    deviceId: generateId(),
+    lastSeq: 0,
+  });
+  return vault;
+};
@@ -0,0 +1,84 @@
+// What a sync backend stores. Notes and folders travel as their encrypted
+// envelopes, and the vault record as the user record with the wrapped vault
+// key, so the backend never holds a key or plaintext.
+export type SyncRecordKind = "note" | "folder" | "vault";
+
+// Counts the changes each device made to a record, keyed by device id
+export type RevisionVector = Record<string, number>;
+
+export type VectorOrder = "equal" | "before" | "after" | "concurrent";
+
+export interface SyncRecord {
+  kind: SyncRecordKind;
+  id: string;
+  vector: RevisionVector;
+  // The JSON of the encrypted record; null once it was deleted
+  payload: string | null;
+  // Assigned by the backend; records pulled later have higher numbers
+  seq?: number;
+}
+
+// How the sync engine talks to a backend (see sync.ts and webdav.ts)
+export interface SyncClient {
+  /**
+   * Fetches the records written after a sequence number.
+   */
+  pull: (since: number) => Promise<{ records: SyncRecord[]; seq: number }>;
+  /**
+   * Offers records to the backend. Records whose vector does not descend
+   * from the backend's copy come back as conflicts.
+   */
+  push: (records: SyncRecord[]) => Promise<{
+    accepted: { kind: SyncRecordKind; id: string; seq: number }[];
+    conflicts: SyncRecord[];
+    seq: number;
+  }>;
+}
+
+/**
+ * Thrown when a sync backend cannot be reached or refuses a request.
+ */
+export class SyncError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SyncError";
+  }
+}
+
+export const recordKey = (kind: SyncRecordKind, id: string) => `${kind}:${id}`;
+
+/**
+ * Orders two revision vectors: "before" means a happened before b, and
+ * "concurrent" that each holds changes the other has not seen.
+ */
+export const compareVectors = (
+  a: RevisionVector,
+  b: RevisionVector,
+): VectorOrder => {
+  let isBefore = false;
+  let isAfter = false;
+  for (const device of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    const left = a[device] ?? 0;
+    const right = b[device] ?? 0;
+    if (left < right) isBefore = true;
+    if (left > right) isAfter = true;
+  }
+  if (isBefore && isAfter) return "concurrent";
+  if (isBefore) return "before";
+  if (isAfter) return "after";
+  return "equal";
+};
+
+/**
+ * Combines two revision vectors into one that has seen both.
+ */
+export const mergeVectors = (
+  a: RevisionVector,
+  b: RevisionVector,
+): RevisionVector => {
+  const merged = { ...a };
+  for (const [device, counter] of Object.entries(b)) {
+    merged[device] = Math.max(merged[device] ?? 0, counter);
+  }
+  return merged;
+};
@@ -0,0 +1,145 @@
+import { CipherEnvelope, wrapKey, unwrapKey } from "./encryption";
+import { generateId, getActiveVaultId, setActiveVault } from "./storage";
+import {
+  StorageAdapter,
+  createIndexedDBAdapter,
+  isIndexedDBAvailable,
+} from "./storageAdapter";
+
+// How long a remembered tab stays unlocked across reloads
+const TAB_SESSION_TTL_MS = 60 * 60 * 1000;
+const TAB_SESSION_KEY = "zks_tab_session";
+const TAB_SESSION_AAD = "zks-note|tab-session";
+
+// A non-extractable per-tab key, stored in IndexedDB as a CryptoKey object
+interface TabKeyRecord {
+  id: string;
+  key: CryptoKey;
+  expiresAt: number;
+}
+
+// What sessionStorage holds for the tab; useless without the matching tab key
+interface TabSession {
+  tabKeyId: string;
+  vaultId: string;
+  wrappedKey: CipherEnvelope;
+  expiresAt: number;
+}
+
+const tabSessionAad = (vaultId: string) => `${TAB_SESSION_AAD}|${vaultId}`;
+
+const getTabKeys = (): Promise<StorageAdapter<TabKeyRecord>> =>
+  createIndexedDBAdapter<TabKeyRecord>("tabKeys");
+
+const readTabSession = (): TabSession | null => {
+  try {
+    const data = sessionStorage.getItem(TAB_SESSION_KEY);
+    return data ? JSON.parse(data) : null;
+  } catch (e) {
+    console.error("Failed to parse tab session from sessionStorage", e);
+    return null;
+  }
+};
+
+/**
+ * Removes tab keys whose sessions have expired, including ones left behind
+ * by tabs that were closed.
+ */
+const purgeExpiredTabKeys = async (tabKeys: StorageAdapter<TabKeyRecord>) => {
+  const now = Date.now();
+  const expired = (await tabKeys.list()).filter((r) => r.expiresAt <= now);
+  if (expired.length > 0) {
+    await tabKeys.transaction((tx) => expired.forEach((r) => tx.delete(r.id)));
+  }
+};
+
+/**
+ * Checks whether this browser can remember an unlocked vault for a tab.
+ */
+export const isTabSessionSupported = (): boolean => isIndexedDBAvailable();
+
+/**
+ * Keeps the vault unlocked across reloads of this tab for a bounded time.
+ * The vault key is wrapped by a fresh non-extractable key, so the raw key is
+ * never persisted.
+ * @param vaultKey The unlocked key of the active vault.
+ */
+export const rememberTabSession = async (vaultKey: CryptoKey): Promise<void> => {
+  const vaultId = getActiveVaultId();
+  if (!vaultId) throw new Error("No vault is selected.");
+
+  const tabKeys = await getTabKeys();
+  await forgetTabSession();
+
+  const key = await crypto.subtle.generateKey(
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+  const expiresAt = Date.now() + TAB_SESSION_TTL_MS;
+  const record: TabKeyRecord = { id: generateId(), key, expiresAt };
+  await tabKeys.put(record);
+
+  const session: TabSession = {
+    tabKeyId: record.id,
+    vaultId,
+    wrappedKey: await wrapKey(vaultKey, key, tabSessionAad(vaultId)),
+    expiresAt,
+  };
+  sessionStorage.setItem(TAB_SESSION_KEY, JSON.stringify(session));
+};
+
+/**
+ * Restores the vault key remembered for this tab, if it has not expired,
+ * and makes its vault active.
+ * @returns The vault key, or null if there is nothing to restore.
+ */
+export const restoreTabSession = async (): Promise<CryptoKey | null> => {
+  if (!isTabSessionSupported()) return null;
+
+  try {
+    const tabKeys = await getTabKeys();
+    await purgeExpiredTabKeys(tabKeys);
+
+    const session = readTabSession();
+    if (!session) return null;
+    if (session.expiresAt <= Date.now()) {
+      sessionStorage.removeItem(TAB_SESSION_KEY);
+      return null;
+    }
+
+    const record = await tabKeys.get(session.tabKeyId);
+    if (!record) {
+      sessionStorage.removeItem(TAB_SESSION_KEY);
+      return null;
+    }
+
+    const vaultKey = await unwrapKey(
+      session.wrappedKey,
+      record.key,
+      tabSessionAad(session.vaultId),
+    );
+    setActiveVault(session.vaultId);
+    return vaultKey;
+  } catch (e) {
+    console.error("Failed to restore tab session", e);
+    await forgetTabSession();
+    return null;
+  }
+};
+
+/**
+ * Forgets the vault key remembered for this tab.
+ */
+export const forgetTabSession = async (): Promise<void> => {
+  const session = readTabSession();
+  sessionStorage.removeItem(TAB_SESSION_KEY);
+  if (!session || !isTabSessionSupported()) return;
+
+  try {
+    const tabKeys = await getTabKeys();
+    await tabKeys.delete(session.tabKeyId);
+  } catch (e) {
+    console.error("Failed to delete tab key", e);
+  }
+};
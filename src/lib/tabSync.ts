@@ -0,0 +1,76 @@
+// A change one tab made to a vault's storage, as told to its other tabs. It
+// carries ids only; tabs read the encrypted records back from storage.
+export type VaultChange =
+  // A note was created or saved; revision is its new revision number
+  | { type: "note"; id: string; revision: number }
+  | { type: "note-deleted"; id: string }
+  | { type: "folders" };
+
+const SYNC_CHANNEL = "zks_sync";
+
+const channelName = (vaultId: string) => `${SYNC_CHANNEL}:${vaultId}`;
+
+const isBroadcastChannelAvailable = (): boolean =>
+  typeof BroadcastChannel !== "undefined";
+
+// One sending channel per vault; a channel never receives its own messages
+const channels = new Map<string, BroadcastChannel>();
+
+/**
+ * Tells the other tabs of a vault about a change this tab has stored.
+ * @param vaultId The vault that changed.
+ * @param change What changed.
+ */
+export const announceChange = (vaultId: string, change: VaultChange): void => {
+  try {
+    if (isBroadcastChannelAvailable()) {
+      let channel = channels.get(vaultId);
+      if (!channel) {
+        channel = new BroadcastChannel(channelName(vaultId));
+        channels.set(vaultId, channel);
+      }
+      channel.postMessage(change);
+      return;
+    }
+    // Other tabs get a storage event for the write; the nonce makes repeated
+    // changes distinct, and the key is removed straight away
+    const key = channelName(vaultId);
+    localStorage.setItem(
+      key,
+      JSON.stringify({ ...change, nonce: Math.random() }),
+    );
+    localStorage.removeItem(key);
+  } catch (e) {
+    console.error("Failed to announce change to other tabs", e);
+  }
+};
+
+/**
+ * Listens for changes that other tabs make to a vault.
+ * @param vaultId The vault to watch.
+ * @param listener Called once per change.
+ * @returns A function that stops listening.
+ */
+export const subscribeToChanges = (
+  vaultId: string,
+  listener: (change: VaultChange) => void,
+): (() => void) => {
+  if (isBroadcastChannelAvailable()) {
+    const channel = new BroadcastChannel(channelName(vaultId));
+    channel.onmessage = (event: MessageEvent<VaultChange>) =>
+      listener(event.data);
+    return () => channel.close();
+  }
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== channelName(vaultId) || !event.newValue) return;
+    try {
+      const { nonce: _nonce, ...change } = JSON.parse(event.newValue);
+      listener(change as VaultChange);
+    } catch (e) {
+      console.error("Failed to parse change from another tab", e);
+    }
+  };
+  window.addEventListener("storage", handleStorage);
+  return () => window.removeEventListener("storage", handleStorage);
+};
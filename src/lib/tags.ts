@@ -0,0 +1,115 @@
+import { Note, NoteMeta, saveNote } from "./storage";
+import { encryptNoteField } from "./noteCrypto";
+
+export type TagMatchMode = "and" | "or";
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+/**
+ * Normalises a tag as typed: trimmed, lower case, single spaces.
+ * @returns The tag, or an empty string if nothing is left.
+ */
+export const normaliseTag = (tag: string): string => {
+  return tag.trim().toLowerCase().replace(/\s+/g, " ");
+};
+
+/**
+ * Normalises and de-duplicates a list of tags, keeping their order.
+ */
+export const normaliseTags = (tags: string[]): string[] => {
+  return [...new Set(tags.map(normaliseTag).filter(Boolean))];
+};
+
+/**
+ * Counts how many notes carry each tag, most used first.
+ * @param index Decrypted note metadata by id.
+ */
+export const collectTags = (index: Record<string, NoteMeta>): TagCount[] => {
+  const counts = new Map<string, number>();
+  for (const meta of Object.values(index)) {
+    for (const tag of meta.tags ?? []) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+  return [...counts.entries()]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+/**
+ * Checks a note against a tag filter.
+ * @param meta The note's metadata.
+ * @param selected The tags to filter by; an empty list matches every note.
+ * @param mode "and" needs every selected tag, "or" needs at least one.
+ */
+export const matchesTags = (
+  meta: NoteMeta | undefined,
+  selected: string[],
+  mode: TagMatchMode,
+): boolean => {
+  if (selected.length === 0) return true;
+  const tags = meta?.tags ?? [];
+  return mode === "and"
+    ? selected.every((tag) => tags.includes(tag))
+    : selected.some((tag) => tags.includes(tag));
+};
+
+/**
+ * Replaces a note's tags. Tags live in the encrypted metadata.
+ * @param note The stored note.
+ * @param meta Its decrypted metadata.
+ * @param tags The new tags; they are normalised first.
+ * @param key The vault key.
+ * @returns The updated note and metadata.
+ */
+export const setNoteTags = async (
+  note: Note,
+  meta: NoteMeta,
+  tags: string[],
+  key: CryptoKey,
+): Promise<{ note: Note; meta: NoteMeta }> => {
+  const { tags: _previous, ...rest } = meta;
+  const normalised = normaliseTags(tags);
+  const updatedMeta: NoteMeta =
+    normalised.length > 0 ? { ...rest, tags: normalised } : rest;
+  const updatedNote = await saveNote({
+    ...note,
+    encryptedMeta: await encryptNoteField(note.id, "meta", updatedMeta, key),
+  });
+  return { note: updatedNote, meta: updatedMeta };
+};
+
+/**
+ * Renames a tag on every note that carries it. Renaming to a tag that already
+ * exists merges the two. Passing null as the new name removes the tag.
+ * @param from The tag to rename.
+ * @param to The new name, or null to remove the tag.
+ * @param notes The stored notes.
+ * @param index Decrypted note metadata by id.
+ * @param key The vault key.
+ * @returns The notes and metadata that changed.
+ */
+export const renameTag = async (
+  from: string,
+  to: string | null,
+  notes: Note[],
+  index: Record<string, NoteMeta>,
+  key: CryptoKey,
+): Promise<{ note: Note; meta: NoteMeta }[]> => {
+  const target = to === null ? null : normaliseTag(to);
+  const updated: { note: Note; meta: NoteMeta }[] = [];
+
+  for (const note of notes) {
+    const meta = index[note.id];
+    if (!meta?.tags?.includes(from)) continue;
+
+    const tags = meta.tags.flatMap((tag) =>
+      tag !== from ? [tag] : target ? [target] : [],
+    );
+    updated.push(await setNoteTags(note, meta, tags, key));
+  }
+  return updated;
+};
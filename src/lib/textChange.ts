@@ -0,0 +1,56 @@
+// One contiguous replacement that turns one string into another
+export interface TextChange {
+  index: number;
+  // How many characters were removed at index
+  removed: number;
+  inserted: string;
+}
+
+/**
+ * Finds the single replacement between two versions of a text, by trimming
+ * their common prefix and suffix. An edit in an editor is always one such
+ * replacement, so this recovers it without a full diff.
+ * @returns The change, or null if the texts are equal.
+ */
+export const findTextChange = (
+  previous: string,
+  next: string,
+): TextChange | null => {
+  if (previous === next) return null;
+
+  let start = 0;
+  const shorter = Math.min(previous.length, next.length);
+  while (start < shorter && previous[start] === next[start]) start++;
+
+  let end = 0;
+  while (
+    end < shorter - start &&
+    previous[previous.length - 1 - end] === next[next.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  return {
+    index: start,
+    removed: previous.length - start - end,
+    inserted: next.slice(start, next.length - end),
+  };
+};
+
+/**
+ * Moves a position in a text across a change to it, so a caret stays next to
+ * the same characters when text before it is inserted or removed.
+ * @param position An offset in the text before the change.
+ * @param change The change made to the text.
+ * @returns The offset in the text after the change.
+ */
+export const transformPosition = (
+  position: number,
+  change: TextChange,
+): number => {
+  if (position <= change.index) return position;
+  if (position >= change.index + change.removed) {
+    return position + change.inserted.length - change.removed;
+  }
+  return change.index + change.inserted.length;
+};
@@ -0,0 +1,95 @@
+import { Note, NoteMeta, deleteNote, saveNote } from "./storage";
+import { encryptNoteField } from "./noteCrypto";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isTrashed = (meta: NoteMeta | undefined): boolean =>
+  meta?.deletedAt !== undefined;
+
+/**
+ * Gets when a trashed note will be purged.
+ * @param meta The note's metadata.
+ * @param retentionDays The retention period; 0 keeps trashed notes forever.
+ * @returns The purge time in epoch milliseconds, or null if it is never purged.
+ */
+export const getPurgeTime = (
+  meta: NoteMeta,
+  retentionDays: number,
+): number | null => {
+  if (meta.deletedAt === undefined || retentionDays <= 0) return null;
+  return meta.deletedAt + retentionDays * DAY_MS;
+};
+
+/**
+ * Re-encrypts a note's metadata with a new trash state.
+ */
+const updateTrashState = async (
+  note: Note,
+  meta: NoteMeta,
+  deletedAt: number | undefined,
+  key: CryptoKey,
+): Promise<{ note: Note; meta: NoteMeta }> => {
+  const { deletedAt: _previous, ...rest } = meta;
+  const updatedMeta: NoteMeta =
+    deletedAt === undefined ? rest : { ...rest, deletedAt };
+  const updatedNote = await saveNote({
+    ...note,
+    encryptedMeta: await encryptNoteField(note.id, "meta", updatedMeta, key),
+  });
+  return { note: updatedNote, meta: updatedMeta };
+};
+
+/**
+ * Moves a note to the trash. The deletion time is stored in the encrypted
+ * metadata, so the trash reveals nothing more than the notes themselves.
+ * @param note The stored note.
+ * @param meta Its decrypted metadata.
+ * @param key The vault key.
+ * @returns The updated note and metadata.
+ */
+export const moveNoteToTrash = (
+  note: Note,
+  meta: NoteMeta,
+  key: CryptoKey,
+): Promise<{ note: Note; meta: NoteMeta }> => {
+  return updateTrashState(note, meta, Date.now(), key);
+};
+
+/**
+ * Takes a note back out of the trash.
+ * @param note The stored note.
+ * @param meta Its decrypted metadata.
+ * @param key The vault key.
+ * @returns The updated note and metadata.
+ */
+export const restoreNoteFromTrash = (
+  note: Note,
+  meta: NoteMeta,
+  key: CryptoKey,
+): Promise<{ note: Note; meta: NoteMeta }> => {
+  return updateTrashState(note, meta, undefined, key);
+};
+
+/**
+ * Permanently deletes trashed notes whose retention period has passed.
+ * @param index Decrypted metadata by note id.
+ * @param retentionDays The retention period; 0 never purges.
+ * @returns The ids of the purged notes.
+ */
+export const purgeExpiredTrash = async (
+  index: Record<string, NoteMeta>,
+  retentionDays: number,
+): Promise<string[]> => {
+  const now = Date.now();
+  const expired = Object.entries(index)
+    .filter(([, meta]) => {
+      const purgeAt = getPurgeTime(meta, retentionDays);
+      return purgeAt !== null && purgeAt <= now;
+    })
+    .map(([id]) => id);
+
+  for (const id of expired) {
+    await deleteNote(id);
+  }
+  return expired;
+};
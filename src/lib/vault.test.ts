@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { arrayBufferToBase64, generateSalt, hashPassword } from "./encryption";
+import { addVault, getUser } from "./storage";
+import {
+  issueRecoveryPhrase,
+  resetPasswordWithRecoveryPhrase,
+  unlockVault,
+} from "./vault";
+
+describe("recovery phrases for migrated accounts", () => {
+  it("gives a legacy account a phrase that resets its password", async () => {
+    // An account from before the key hierarchy and recovery phrases
+    const salt = generateSalt();
+    const { hash } = await hashPassword("old password", salt);
+    addVault("legacy", {
+      id: "legacy-user",
+      username: "legacy",
+      passwordHash: hash,
+      salt: arrayBufferToBase64(salt),
+    });
+
+    const vaultKey = await unlockVault(getUser()!, "old password");
+    const migrated = getUser()!;
+    expect(migrated.wrappedKey).toBeDefined();
+    expect(migrated.recoveryKey).toBeUndefined();
+
+    const { user, recoveryPhrase } = await issueRecoveryPhrase(
+      migrated,
+      vaultKey!,
+    );
+
+    expect(getUser()).toEqual(user);
+    expect(user.keyVersion).toBe(migrated.keyVersion! + 1);
+    const reset = await resetPasswordWithRecoveryPhrase(
+      user,
+      recoveryPhrase,
+      "new password",
+    );
+    expect(reset).not.toBeNull();
+    expect(await unlockVault(getUser()!, "new password")).not.toBeNull();
+  });
+});
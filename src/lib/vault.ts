@@ -0,0 +1,321 @@
+import {
+  deriveKey,
+  deriveMasterKey,
+  deriveVerifier,
+  deriveKeyEncryptionKey,
+  generateVaultKey,
+  generateSalt,
+  hashPassword,
+  wrapKey,
+  unwrapKey,
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+  CipherEnvelope,
+  KdfParams,
+  DEFAULT_KDF,
+  LEGACY_KDF,
+  needsKdfUpgrade,
+  timingSafeEqual,
+} from "./encryption";
+import { User, saveUser, generateId } from "./storage";
+import { generateRecoveryPhrase, recoveryPhraseToKey } from "./recovery";
+import { reencryptNotes } from "./noteCrypto";
+
+// Context labels the wrapped vault key copies are bound to
+const VAULT_KEY_AAD = "zks-note|vault-key";
+const RECOVERY_KEY_AAD = "zks-note|recovery-key";
+const LEGACY_KEY_AAD = "zks-note|legacy-key";
+
+// Vault keys returned from this module are extractable so that they can be
+// wrapped again, e.g. for a tab session. Anything kept for the session must go
+// through toNonExtractableKey first.
+
+/**
+ * Numbers a change to the password or recovery key material, which lets sync
+ * refuse a vault record older than the local one (see sync.ts).
+ */
+const nextKeyVersion = (user: User): number => (user.keyVersion ?? 0) + 1;
+
+/**
+ * Wraps a vault key under a password with a fresh salt and the default KDF.
+ * @param password The master password.
+ * @param vaultKey The vault key to protect.
+ * @returns The verifier, salt, KDF and wrapped key to store on the user record.
+ */
+const sealVaultKey = async (
+  password: string,
+  vaultKey: CryptoKey,
+): Promise<{
+  passwordHash: string;
+  salt: string;
+  wrappedKey: CipherEnvelope;
+  kdf: KdfParams;
+}> => {
+  const salt = generateSalt();
+  const masterKey = await deriveMasterKey(
+    password,
+    salt as BufferSource,
+    DEFAULT_KDF,
+  );
+  const kek = await deriveKeyEncryptionKey(masterKey);
+
+  return {
+    passwordHash: await deriveVerifier(masterKey),
+    salt: arrayBufferToBase64(salt),
+    wrappedKey: await wrapKey(vaultKey, kek, VAULT_KEY_AAD),
+    kdf: DEFAULT_KDF,
+  };
+};
+
+/**
+ * Wraps a vault key under a newly generated recovery phrase.
+ * @param vaultKey The vault key to protect.
+ * @returns The phrase to show the user once, and the wrapped key to store.
+ */
+const sealRecoveryKey = async (
+  vaultKey: CryptoKey,
+): Promise<{ recoveryPhrase: string; recoveryKey: CipherEnvelope }> => {
+  const recoveryPhrase = generateRecoveryPhrase();
+  const recoveryKek = await recoveryPhraseToKey(recoveryPhrase);
+
+  return {
+    recoveryPhrase,
+    recoveryKey: await wrapKey(vaultKey, recoveryKek, RECOVERY_KEY_AAD),
+  };
+};
+
+/**
+ * Creates a new account with a random vault key and a recovery phrase.
+ * @param username The account name.
+ * @param password The master password.
+ * @returns The user record to persist, the unlocked vault key and the
+ * recovery phrase, which is not stored anywhere.
+ */
+export const createVault = async (
+  username: string,
+  password: string,
+): Promise<{ user: User; vaultKey: CryptoKey; recoveryPhrase: string }> => {
+  const vaultKey = await generateVaultKey();
+  const sealed = await sealVaultKey(password, vaultKey);
+  const { recoveryPhrase, recoveryKey } = await sealRecoveryKey(vaultKey);
+
+  return {
+    user: { id: generateId(), username, ...sealed, recoveryKey },
+    vaultKey,
+    recoveryPhrase,
+  };
+};
+
+/**
+ * Finishes moving a migrated legacy account's notes to its vault key, then
+ * drops the old key from the user record.
+ * @returns The user record as now stored.
+ */
+const finishLegacyMigration = async (
+  user: User,
+  vaultKey: CryptoKey,
+): Promise<User> => {
+  if (!user.legacyKey) return user;
+
+  const legacyKey = await unwrapKey(user.legacyKey, vaultKey, LEGACY_KEY_AAD);
+  await reencryptNotes(legacyKey, vaultKey);
+  const migratedUser: User = { ...user };
+  delete migratedUser.legacyKey;
+  saveUser(migratedUser);
+  return migratedUser;
+};
+
+/**
+ * Upgrades an account whose record still holds the raw encryption key.
+ * That key may have been copied along with the record at any point, so the
+ * notes move to a freshly generated vault key. Until they all have, the old
+ * key is kept wrapped under the new one, and an interrupted migration resumes
+ * on the next unlock.
+ */
+const migrateLegacyUser = async (
+  user: User,
+  password: string,
+): Promise<{ user: User; vaultKey: CryptoKey } | null> => {
+  const salt = new Uint8Array(base64ToArrayBuffer(user.salt));
+  const { hash } = await hashPassword(password, salt);
+  if (!timingSafeEqual(hash, user.passwordHash)) return null;
+
+  const legacyKey = await deriveKey(
+    password,
+    salt as BufferSource,
+    LEGACY_KDF.iterations,
+    true,
+  );
+  const vaultKey = await generateVaultKey();
+  const migratingUser: User = {
+    ...user,
+    ...(await sealVaultKey(password, vaultKey)),
+    keyVersion: nextKeyVersion(user),
+    legacyKey: await wrapKey(legacyKey, vaultKey, LEGACY_KEY_AAD),
+  };
+  saveUser(migratingUser);
+
+  return {
+    user: await finishLegacyMigration(migratingUser, vaultKey),
+    vaultKey,
+  };
+};
+
+/**
+ * Verifies a password and unwraps the vault key, upgrading the stored record
+ * if needed. Legacy accounts are migrated to the key hierarchy, and accounts
+ * on an older KDF are re-sealed with DEFAULT_KDF.
+ * @returns The user record as now stored and the vault key, or null if the
+ * password is wrong.
+ */
+const openVault = async (
+  user: User,
+  password: string,
+): Promise<{ user: User; vaultKey: CryptoKey } | null> => {
+  if (!user.wrappedKey) {
+    return migrateLegacyUser(user, password);
+  }
+
+  const kdf = user.kdf ?? LEGACY_KDF;
+  const salt = base64ToArrayBuffer(user.salt);
+  const masterKey = await deriveMasterKey(password, salt, kdf);
+  const verifier = await deriveVerifier(masterKey);
+  if (!timingSafeEqual(verifier, user.passwordHash)) return null;
+
+  const kek = await deriveKeyEncryptionKey(masterKey);
+  const vaultKey = await unwrapKey(user.wrappedKey, kek, VAULT_KEY_AAD, true);
+  const currentUser = await finishLegacyMigration(user, vaultKey);
+
+  if (needsKdfUpgrade(kdf)) {
+    const upgradedUser: User = {
+      ...currentUser,
+      ...(await sealVaultKey(password, vaultKey)),
+      keyVersion: nextKeyVersion(currentUser),
+    };
+    saveUser(upgradedUser);
+    return { user: upgradedUser, vaultKey };
+  }
+
+  return { user: currentUser, vaultKey };
+};
+
+/**
+ * Verifies a password and unwraps the vault key.
+ * Legacy accounts are migrated to the key hierarchy on their first login, and
+ * accounts on an older KDF are re-sealed with DEFAULT_KDF.
+ * @param user The stored user record.
+ * @param password The password entered by the user.
+ * @returns The vault key, or null if the password is wrong.
+ */
+export const unlockVault = async (
+  user: User,
+  password: string,
+): Promise<CryptoKey | null> => {
+  const opened = await openVault(user, password);
+  return opened ? opened.vaultKey : null;
+};
+
+/**
+ * Re-wraps the vault key under a new password.
+ * Notes stay encrypted under the same vault key, and the new verifier, salt
+ * and wrapped key land in one write of the user record, so an interrupted
+ * change leaves either the old or the new password working.
+ * @param user The stored user record.
+ * @param currentPassword The current master password.
+ * @param newPassword The new master password.
+ * @returns The updated user record, or null if the current password is wrong.
+ */
+export const changePassword = async (
+  user: User,
+  currentPassword: string,
+  newPassword: string,
+): Promise<User | null> => {
+  const opened = await openVault(user, currentPassword);
+  if (!opened) return null;
+
+  const updatedUser: User = {
+    ...opened.user,
+    ...(await sealVaultKey(newPassword, opened.vaultKey)),
+    keyVersion: nextKeyVersion(opened.user),
+  };
+  saveUser(updatedUser);
+
+  return updatedUser;
+};
+
+/**
+ * Sets a new password using the recovery phrase instead of the old password.
+ * The recovery phrase stays valid afterwards.
+ * @param user The stored user record.
+ * @param recoveryPhrase The phrase as entered by the user.
+ * @param newPassword The new master password.
+ * @returns The vault key, or null if the phrase does not unlock this account.
+ * @throws RecoveryPhraseError if the phrase is not a valid recovery phrase.
+ */
+export const resetPasswordWithRecoveryPhrase = async (
+  user: User,
+  recoveryPhrase: string,
+  newPassword: string,
+): Promise<CryptoKey | null> => {
+  if (!user.recoveryKey) return null;
+
+  const recoveryKek = await recoveryPhraseToKey(recoveryPhrase);
+  let vaultKey: CryptoKey;
+  try {
+    vaultKey = await unwrapKey(
+      user.recoveryKey,
+      recoveryKek,
+      RECOVERY_KEY_AAD,
+      true,
+    );
+  } catch (error) {
+    return null;
+  }
+
+  saveUser({
+    ...user,
+    ...(await sealVaultKey(newPassword, vaultKey)),
+    keyVersion: nextKeyVersion(user),
+  });
+  return vaultKey;
+};
+
+/**
+ * Replaces the recovery phrase; the previous phrase stops working.
+ * @param user The stored user record.
+ * @param password The current master password.
+ * @returns The updated user record and the new phrase, or null if the
+ * password is wrong.
+ */
+export const regenerateRecoveryPhrase = async (
+  user: User,
+  password: string,
+): Promise<{ user: User; recoveryPhrase: string } | null> => {
+  const opened = await openVault(user, password);
+  if (!opened) return null;
+
+  return issueRecoveryPhrase(opened.user, opened.vaultKey);
+};
+
+/**
+ * Gives an unlocked vault a new recovery phrase, replacing any earlier one.
+ * Accounts migrated from before recovery phrases existed get their first one
+ * this way.
+ * @param user The stored user record.
+ * @param vaultKey The unlocked vault key.
+ * @returns The updated user record and the phrase, to show the user once.
+ */
+export const issueRecoveryPhrase = async (
+  user: User,
+  vaultKey: CryptoKey,
+): Promise<{ user: User; recoveryPhrase: string }> => {
+  const { recoveryPhrase, recoveryKey } = await sealRecoveryKey(vaultKey);
+  const updatedUser: User = {
+    ...user,
+    recoveryKey,
+    keyVersion: nextKeyVersion(user),
+  };
+  saveUser(updatedUser);
+
+  return { user: updatedUser, recoveryPhrase };
+};
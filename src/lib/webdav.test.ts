@@ -0,0 +1,195 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { SyncError, SyncRecord } from "./syncProtocol";
+import {
+  WebDavCredentials,
+  connectWebDavFolder,
+  createWebDavClient,
+} from "./webdav";
+import { RunningServer, startServer } from "@/test/servers";
+
+const note = (
+  id: string,
+  vector: Record<string, number>,
+  payload: string | null,
+): SyncRecord => ({ kind: "note", id, vector, payload });
+
+describe("WebDAV sync", () => {
+  let server: RunningServer;
+  let folders = 0;
+
+  // Each test syncs through a folder of its own
+  const newFolder = (): WebDavCredentials => ({
+    folderUrl: `${server.url}/vault-${++folders}`,
+    username: "alice",
+    password: "app-password",
+  });
+
+  /**
+   * Runs a rival client's push just before the first request that matches,
+   * as if another device got there first.
+   * @returns The status of each request the spied client sent afterwards.
+   */
+  const raceBefore = (
+    method: string,
+    file: string,
+    rival: () => Promise<unknown>,
+  ) => {
+    const realFetch = globalThis.fetch;
+    const statuses: { method: string; url: string; status: number }[] = [];
+    let hasRaced = false;
+    let isRivalRunning = false;
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input, init) => {
+      const url = String(input);
+      if (!hasRaced && init?.method === method && url.endsWith(`/${file}`)) {
+        hasRaced = true;
+        isRivalRunning = true;
+        await rival();
+        isRivalRunning = false;
+      }
+      const response = await realFetch(input, init);
+      if (!isRivalRunning) {
+        const { status } = response;
+        statuses.push({ method: init?.method ?? "GET", url, status });
+      }
+      return response;
+    });
+    return statuses;
+  };
+
+  beforeAll(async () => {
+    server = await startServer("server/webdav-stand-in.js", {
+      WEBDAV_USERNAME: "alice",
+      WEBDAV_PASSWORD: "app-password",
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await server?.stop();
+  });
+
+  it("pushes records and pulls them on another device", async () => {
+    const credentials = newFolder();
+    await connectWebDavFolder(credentials, "v1");
+    const phone = createWebDavClient(credentials);
+    const laptop = createWebDavClient(credentials);
+    const vault: SyncRecord = {
+      kind: "vault",
+      id: "v1",
+      vector: { phone: 1 },
+      payload: "keys",
+    };
+
+    const pushed = await phone.push([vault, note("n1", { phone: 1 }, "first")]);
+
+    expect(pushed).toEqual({
+      accepted: [
+        { kind: "vault", id: "v1", seq: 1 },
+        { kind: "note", id: "n1", seq: 2 },
+      ],
+      conflicts: [],
+      seq: 2,
+    });
+    expect(await laptop.pull(0)).toEqual({
+      records: [
+        { ...vault, seq: 1 },
+        { ...note("n1", { phone: 1 }, "first"), seq: 2 },
+      ],
+      seq: 2,
+    });
+
+    await phone.push([note("n1", { phone: 2 }, null)]);
+    expect(await laptop.pull(2)).toEqual({
+      records: [{ ...note("n1", { phone: 2 }, null), seq: 3 }],
+      seq: 3,
+    });
+  });
+
+  it("indexes again when another device updated the manifest first", async () => {
+    const credentials = newFolder();
+    await connectWebDavFolder(credentials, "v1");
+    const rival = createWebDavClient(credentials);
+    const statuses = raceBefore("PUT", "manifest.json", () =>
+      rival.push([note("n2", { rival: 1 }, "theirs")]),
+    );
+
+    const pushed = await createWebDavClient(credentials).push([
+      note("n1", { phone: 1 }, "mine"),
+    ]);
+
+    const manifestWrites = statuses.filter(
+      (s) => s.method === "PUT" && s.url.endsWith("/manifest.json"),
+    );
+    expect(manifestWrites.map((s) => s.status)).toEqual([412, 204]);
+    expect(pushed).toEqual({
+      accepted: [{ kind: "note", id: "n1", seq: 2 }],
+      conflicts: [],
+      seq: 2,
+    });
+    const { records } = await rival.pull(0);
+    expect(records.map((r) => [r.id, r.seq])).toEqual([
+      ["n2", 1],
+      ["n1", 2],
+    ]);
+  });
+
+  it("reports a record another device wrote first as a conflict", async () => {
+    const credentials = newFolder();
+    await connectWebDavFolder(credentials, "v1");
+    const rival = createWebDavClient(credentials);
+    const statuses = raceBefore("PUT", "notes/n1.json", () =>
+      rival.push([note("n1", { rival: 1 }, "theirs")]),
+    );
+
+    const pushed = await createWebDavClient(credentials).push([
+      note("n1", { phone: 1 }, "mine"),
+    ]);
+
+    expect(statuses).toContainEqual(
+      expect.objectContaining({ method: "PUT", status: 412 }),
+    );
+    expect(pushed).toEqual({
+      accepted: [],
+      conflicts: [note("n1", { rival: 1 }, "theirs")],
+      seq: 1,
+    });
+    const { records } = await rival.pull(0);
+    expect(records).toEqual([
+      { ...note("n1", { rival: 1 }, "theirs"), seq: 1 },
+    ]);
+  });
+
+  it("refuses a folder that syncs another vault", async () => {
+    const credentials = newFolder();
+    await connectWebDavFolder(credentials, "v1");
+    await createWebDavClient(credentials).push([
+      { kind: "vault", id: "v1", vector: { phone: 1 }, payload: "keys" },
+    ]);
+
+    await expect(connectWebDavFolder(credentials, "v2")).rejects.toThrow(
+      "This WebDAV folder already syncs another vault.",
+    );
+    await expect(
+      connectWebDavFolder(credentials, "v1"),
+    ).resolves.toBeUndefined();
+  });
+
+  it("refuses a wrong password", async () => {
+    const credentials = { ...newFolder(), password: "wrong" };
+
+    await expect(connectWebDavFolder(credentials, "v1")).rejects.toThrow(
+      SyncError,
+    );
+  });
+});
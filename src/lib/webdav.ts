@@ -0,0 +1,317 @@
+import { arrayBufferToBase64, stringToArrayBuffer } from "./encryption";
+import {
+  RevisionVector,
+  SyncClient,
+  SyncError,
+  SyncRecord,
+  SyncRecordKind,
+  compareVectors,
+  recordKey,
+} from "./syncProtocol";
+
+// Identifies the folder layout, so a folder in another format is refused
+const MANIFEST_FORMAT = "zks-note-webdav/1";
+const MANIFEST_FILE = "manifest.json";
+
+// Each record is a file in the subfolder of its kind
+const KIND_FOLDERS: Record<SyncRecordKind, string> = {
+  note: "notes",
+  folder: "folders",
+  vault: "vault",
+};
+
+// A manifest write that loses a race with another device is retried up to
+// this many times
+const MAX_MANIFEST_ATTEMPTS = 5;
+
+// Indexes the record files, so a pull only downloads the ones that changed.
+// The record files stay the source of truth; the manifest only orders them.
+interface Manifest {
+  format: typeof MANIFEST_FORMAT;
+  // The highest sequence number handed out
+  seq: number;
+  // By record key, the vector the record file had when it was indexed
+  records: Record<string, { seq: number; vector: RevisionVector }>;
+}
+
+export interface WebDavCredentials {
+  folderUrl: string;
+  username: string;
+  // Usually an app password created for this vault
+  password: string;
+}
+
+type WebDavRequest = (path: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Checks a WebDAV folder address and strips trailing slashes.
+ * @throws SyncError if it is not an http(s) URL.
+ */
+export const normaliseFolderUrl = (folderUrl: string): string => {
+  const trimmed = folderUrl.trim().replace(/\/+$/, "");
+  try {
+    const { protocol } = new URL(trimmed);
+    if (protocol === "http:" || protocol === "https:") return trimmed;
+  } catch {
+    // Reported below
+  }
+  throw new SyncError("Enter the WebDAV folder's http(s) address.");
+};
+
+const createRequest = (credentials: WebDavCredentials): WebDavRequest => {
+  const folderUrl = normaliseFolderUrl(credentials.folderUrl);
+  const authorization = `Basic ${arrayBufferToBase64(
+    stringToArrayBuffer(`${credentials.username}:${credentials.password}`),
+  )}`;
+
+  return async (path, init = {}) => {
+    let response: Response;
+    try {
+      response = await fetch(`${folderUrl}/${path}`, {
+        ...init,
+        // ETags are only meaningful on a fresh response
+        cache: "no-store",
+        headers: { Authorization: authorization, ...init.headers },
+      });
+    } catch {
+      throw new SyncError("Could not reach the WebDAV server.");
+    }
+    if (response.status === 401 || response.status === 403) {
+      throw new SyncError(
+        "The WebDAV server did not accept this username and password.",
+      );
+    }
+    return response;
+  };
+};
+
+const unexpectedStatus = (response: Response) =>
+  new SyncError(`The WebDAV server answered with status ${response.status}.`);
+
+const readEtag = (response: Response): string => {
+  const etag = response.headers.get("ETag");
+  if (!etag) {
+    throw new SyncError(
+      "The WebDAV server does not report ETags, which syncing needs.",
+    );
+  }
+  return etag;
+};
+
+const recordPath = (kind: SyncRecordKind, id: string) =>
+  `${KIND_FOLDERS[kind]}/${encodeURIComponent(id)}.json`;
+
+const readManifest = async (
+  request: WebDavRequest,
+): Promise<{ manifest: Manifest; etag: string } | null> => {
+  const response = await request(MANIFEST_FILE);
+  if (response.status === 404) return null;
+  if (!response.ok) throw unexpectedStatus(response);
+  const manifest: Manifest | null = await response.json().catch(() => null);
+  if (manifest?.format !== MANIFEST_FORMAT) {
+    throw new SyncError(
+      "This WebDAV folder holds something other than a vault.",
+    );
+  }
+  return { manifest, etag: readEtag(response) };
+};
+
+const requireManifest = async (request: WebDavRequest) => {
+  const current = await readManifest(request);
+  if (!current) {
+    throw new SyncError("No vault has been synced to this WebDAV folder yet.");
+  }
+  return current;
+};
+
+const readRecord = async (
+  request: WebDavRequest,
+  kind: SyncRecordKind,
+  id: string,
+): Promise<{ record: SyncRecord; etag: string } | null> => {
+  const response = await request(recordPath(kind, id));
+  if (response.status === 404) return null;
+  if (!response.ok) throw unexpectedStatus(response);
+  const { vector, payload }: SyncRecord = await response.json();
+  return { record: { kind, id, vector, payload }, etag: readEtag(response) };
+};
+
+/**
+ * Writes a record file, but only over the copy that was read: If-Match makes
+ * the server refuse the write when another device replaced the file since.
+ * @returns Whether the file was written.
+ */
+const writeRecord = async (
+  request: WebDavRequest,
+  record: SyncRecord,
+  etag: string | null,
+): Promise<boolean> => {
+  const response = await request(recordPath(record.kind, record.id), {
+    method: "PUT",
+    headers: {
+      "Content-Type": "application/json",
+      ...(etag ? { "If-Match": etag } : { "If-None-Match": "*" }),
+    },
+    body: JSON.stringify({
+      kind: record.kind,
+      id: record.id,
+      vector: record.vector,
+      payload: record.payload,
+    }),
+  });
+  if (response.status === 412) return false;
+  if (!response.ok) throw unexpectedStatus(response);
+  return true;
+};
+
+/**
+ * Gives written records a sequence number in the manifest. A record whose
+ * entry is already as new keeps its number, so repeating this after an
+ * interrupted push does not index the record twice.
+ * @returns The sequence number of each record, by record key, and the
+ * manifest's highest number.
+ */
+const indexRecords = async (
+  request: WebDavRequest,
+  records: SyncRecord[],
+): Promise<{ seqs: Map<string, number>; seq: number }> => {
+  for (let attempt = 0; attempt < MAX_MANIFEST_ATTEMPTS; attempt++) {
+    const { manifest, etag } = await requireManifest(request);
+    const firstSeq = manifest.seq;
+    const seqs = new Map<string, number>();
+    for (const record of records) {
+      const key = recordKey(record.kind, record.id);
+      const entry = manifest.records[key];
+      const order = entry
+        ? compareVectors(record.vector, entry.vector)
+        : "after";
+      // The file was written over whatever a concurrent entry describes
+      if (order === "after" || order === "concurrent") {
+        manifest.seq++;
+        manifest.records[key] = { seq: manifest.seq, vector: record.vector };
+      }
+      seqs.set(key, manifest.records[key].seq);
+    }
+    if (manifest.seq === firstSeq) return { seqs, seq: manifest.seq };
+
+    const response = await request(MANIFEST_FILE, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json", "If-Match": etag },
+      body: JSON.stringify(manifest),
+    });
+    // Another device updated the manifest first; index on top of its copy
+    if (response.status === 412) continue;
+    if (!response.ok) throw unexpectedStatus(response);
+    return { seqs, seq: manifest.seq };
+  }
+  throw new SyncError(
+    "Other devices kept changing the WebDAV folder. Try again.",
+  );
+};
+
+/**
+ * Creates a client that syncs through a WebDAV folder. Each record is a
+ * separate file, written only over the copy it descends from, and
+ * manifest.json numbers the files in the order they were written.
+ */
+export const createWebDavClient = (
+  credentials: WebDavCredentials,
+): SyncClient => {
+  const request = createRequest(credentials);
+
+  return {
+    pull: async (since) => {
+      const { manifest } = await requireManifest(request);
+      const entries = Object.entries(manifest.records)
+        .filter(([, entry]) => entry.seq > since)
+        .sort(([, a], [, b]) => a.seq - b.seq);
+
+      const records: SyncRecord[] = [];
+      for (const [key, entry] of entries) {
+        const [kind, ...rest] = key.split(":");
+        const stored = await readRecord(
+          request,
+          kind as SyncRecordKind,
+          rest.join(":"),
+        );
+        if (stored) records.push({ ...stored.record, seq: entry.seq });
+      }
+      return { records, seq: manifest.seq };
+    },
+
+    push: async (records) => {
+      const written: SyncRecord[] = [];
+      const conflicts: SyncRecord[] = [];
+      for (const record of records) {
+        const stored = await readRecord(request, record.kind, record.id);
+        const order = stored
+          ? compareVectors(record.vector, stored.record.vector)
+          : "after";
+        if (order === "equal" && stored?.record.payload === record.payload) {
+          written.push(record);
+        } else if (order !== "after") {
+          conflicts.push(stored!.record);
+        } else if (await writeRecord(request, record, stored?.etag ?? null)) {
+          written.push(record);
+        } else {
+          // Another device wrote the record after it was read
+          const current = await readRecord(request, record.kind, record.id);
+          if (current) conflicts.push(current.record);
+        }
+      }
+
+      const { seqs, seq } = await indexRecords(request, written);
+      return {
+        accepted: written.map(({ kind, id }) => ({
+          kind,
+          id,
+          seq: seqs.get(recordKey(kind, id))!,
+        })),
+        conflicts,
+        seq,
+      };
+    },
+  };
+};
+
+/**
+ * Prepares a WebDAV folder to sync a vault: creates the subfolders and an
+ * empty manifest, or checks that the folder already syncs this vault.
+ * @param credentials The folder and the account to write to it with.
+ * @param vaultId The vault that is going to sync through the folder.
+ */
+export const connectWebDavFolder = async (
+  credentials: WebDavCredentials,
+  vaultId: string,
+): Promise<void> => {
+  const request = createRequest(credentials);
+
+  const existing = await readManifest(request);
+  if (existing) {
+    const vaultKeys = Object.keys(existing.manifest.records).filter((key) =>
+      key.startsWith("vault:"),
+    );
+    if (vaultKeys.some((key) => key !== recordKey("vault", vaultId))) {
+      throw new SyncError("This WebDAV folder already syncs another vault.");
+    }
+    return;
+  }
+
+  for (const folder of ["", ...Object.values(KIND_FOLDERS)]) {
+    const response = await request(folder && `${folder}/`, { method: "MKCOL" });
+    // 405 means the folder exists already
+    if (!response.ok && response.status !== 405) {
+      throw unexpectedStatus(response);
+    }
+  }
+  const manifest: Manifest = { format: MANIFEST_FORMAT, seq: 0, records: {} };
+  const response = await request(MANIFEST_FILE, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json", "If-None-Match": "*" },
+    body: JSON.stringify(manifest),
+  });
+  // 412 means another device created the manifest in the meantime
+  if (!response.ok && response.status !== 412) {
+    throw unexpectedStatus(response);
+  }
+};
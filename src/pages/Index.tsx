@@ -2,25 +2,42 @@ import { useState, useEffect } from "react";
 import { AuthForm } from "@/components/AuthForm";
 import { Dashboard } from "@/components/Dashboard";
 import { ShareViewer } from "@/components/ShareViewer";
-import { getSessionKey } from "@/lib/storage";
+import { LockScreen } from "@/components/LockScreen";
+import { getSessionKey, migrateLegacyVault, saveSessionKey } from "@/lib/storage";
+import { restoreTabSession } from "@/lib/tabSession";
+import { isShareHash } from "@/lib/secureSharing";
 
 const Index = () => {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [isLocked, setIsLocked] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [isShareView, setIsShareView] = useState(false);
 
   useEffect(() => {
     // Check for a share link in the URL hash
-    if (window.location.hash && window.location.hash.includes("d=")) {
+    if (window.location.hash && isShareHash(window.location.hash)) {
       setIsShareView(true);
       setIsLoading(false);
       return;
     }
 
-    // Otherwise, check for a regular user session
-    const sessionKey = getSessionKey();
-    setIsAuthenticated(!!sessionKey);
-    setIsLoading(false);
+    // Otherwise, check for a regular user session, or one remembered for this tab
+    if (getSessionKey()) {
+      setIsAuthenticated(true);
+      setIsLoading(false);
+      return;
+    }
+
+    migrateLegacyVault()
+      .catch((e) => console.error("Failed to migrate legacy vault", e))
+      .then(() => restoreTabSession())
+      .then((vaultKey) => {
+        if (vaultKey) {
+          saveSessionKey(vaultKey);
+          setIsAuthenticated(true);
+        }
+        setIsLoading(false);
+      });
   }, []);
 
   if (isLoading) {
@@ -41,7 +58,25 @@ const Index = () => {
     return <AuthForm onAuthenticated={() => setIsAuthenticated(true)} />;
   }
 
-  return <Dashboard onLogout={() => setIsAuthenticated(false)} />;
+  // A locked vault only asks for the password again
+  if (isLocked) {
+    return (
+      <LockScreen
+        onUnlocked={() => setIsLocked(false)}
+        onLogout={() => {
+          setIsLocked(false);
+          setIsAuthenticated(false);
+        }}
+      />
+    );
+  }
+
+  return (
+    <Dashboard
+      onLogout={() => setIsAuthenticated(false)}
+      onLock={() => setIsLocked(true)}
+    />
+  );
 };
 
 export default Index;
@@ -0,0 +1,73 @@
+import { ChildProcess, spawn } from "node:child_process";
+import { createServer } from "node:net";
+import { resolve } from "node:path";
+
+export interface RunningServer {
+  url: string;
+  stop: () => Promise<void>;
+}
+
+const findFreePort = (): Promise<number> =>
+  new Promise((resolvePort, reject) => {
+    const probe = createServer();
+    probe.once("error", reject);
+    probe.listen(0, "127.0.0.1", () => {
+      const address = probe.address();
+      probe.close(() =>
+        typeof address === "object" && address
+          ? resolvePort(address.port)
+          : reject(new Error("No free port.")),
+      );
+    });
+  });
+
+const waitForListening = (child: ChildProcess): Promise<void> =>
+  new Promise((resolveStart, reject) => {
+    let output = "";
+    const timer = setTimeout(
+      () => reject(new Error(`The server did not start:\n${output}`)),
+      10_000,
+    );
+    child.stdout?.on("data", (chunk) => {
+      output += chunk;
+      if (output.includes("listening on")) {
+        clearTimeout(timer);
+        resolveStart();
+      }
+    });
+    child.stderr?.on("data", (chunk) => {
+      output += chunk;
+    });
+    child.once("exit", (code) => {
+      clearTimeout(timer);
+      reject(new Error(`The server exited with code ${code}:\n${output}`));
+    });
+  });
+
+/**
+ * Runs one of the servers in server/ on a free port.
+ * @param script The server's path, relative to the repository root.
+ * @param env Environment variables to start it with, besides PORT.
+ * @returns Its address and a function that stops it.
+ */
+export const startServer = async (
+  script: string,
+  env: Record<string, string> = {},
+): Promise<RunningServer> => {
+  const port = await findFreePort();
+  const child = spawn(process.execPath, [resolve(script)], {
+    env: { ...process.env, ...env, PORT: String(port) },
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+  await waitForListening(child);
+
+  return {
+    url: `http://localhost:${port}`,
+    stop: () =>
+      new Promise((resolveStop) => {
+        if (child.exitCode !== null) return resolveStop();
+        child.once("exit", () => resolveStop());
+        child.kill();
+      }),
+  };
+};
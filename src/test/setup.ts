@@ -0,0 +1,29 @@
+// Provides the browser globals the lib modules use, so they run under Node
+import "fake-indexeddb/auto";
+import { vi } from "vitest";
+
+/**
+ * Creates an empty in-memory Storage, standing in for localStorage.
+ */
+export const createMemoryStorage = (): Storage => {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    key: (index) => [...items.keys()][index] ?? null,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, String(value));
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+    clear: () => items.clear(),
+  };
+};
+
+vi.stubGlobal("window", globalThis);
+vi.stubGlobal("localStorage", createMemoryStorage());
+vi.stubGlobal("sessionStorage", createMemoryStorage());
+if (typeof navigator === "undefined") vi.stubGlobal("navigator", {});
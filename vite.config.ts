@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
@@ -15,4 +16,9 @@ plugins: [react()].filter(Boolean),
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  test: {
+    setupFiles: ["./src/test/setup.ts"],
+    // Unlocking a vault runs the password KDF, which is slow by design
+    testTimeout: 30_000,
+  },
 }));